@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { jsonResumeConverter } from "../../../../lib/jsonResume";
+import { repository } from "../../../../lib/repository";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const candidate = repository.getCandidateById(id);
+
+    if (!candidate) {
+      return NextResponse.json(
+        {
+          error: "Resource not found",
+          details: `Candidate with ID ${id} not found`,
+          code: "RESOURCE_NOT_FOUND",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(jsonResumeConverter.exportJsonResume(candidate));
+  } catch (error) {
+    console.error("JSON Resume export API error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        error: "JSON Resume export failed",
+        details: errorMessage,
+        code: "EXPORT_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { repository } from "../../../lib/repository";
+import {
+  validateCandidate,
+  getValidationErrorBody,
+} from "../../../lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return NextResponse.json(
+    {
+      error: "Resource not found",
+      details: `Candidate with ID ${id} not found`,
+      code: "RESOURCE_NOT_FOUND",
+    },
+    { status: 404 }
+  );
+}
+
+function serverError(error: unknown, message: string) {
+  console.error("Candidates API error:", error);
+
+  const errorMessage =
+    error instanceof Error ? error.message : "Unknown error occurred";
+
+  return NextResponse.json(
+    {
+      error: message,
+      details: errorMessage,
+      code: "CANDIDATES_ERROR",
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const candidate = repository.getCandidateById(id);
+
+    if (!candidate) {
+      return notFound(id);
+    }
+
+    return NextResponse.json({ candidate });
+  } catch (error) {
+    return serverError(error, "Failed to load candidate");
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!repository.getCandidateById(id)) {
+      return notFound(id);
+    }
+
+    const body = await request.json();
+    const validation = validateCandidate({ ...body, id });
+    if (!validation.value) {
+      return NextResponse.json(
+        getValidationErrorBody(validation, "candidate"),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const candidate = repository.saveCandidate(validation.value);
+    return NextResponse.json({ candidate });
+  } catch (error) {
+    return serverError(error, "Failed to update candidate");
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const existing = repository.getCandidateById(id);
+
+    if (!existing) {
+      return notFound(id);
+    }
+
+    const body = await request.json();
+    const validation = validateCandidate({ ...existing, ...body, id });
+    if (!validation.value) {
+      return NextResponse.json(
+        getValidationErrorBody(validation, "candidate"),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const candidate = repository.saveCandidate(validation.value);
+    return NextResponse.json({ candidate });
+  } catch (error) {
+    return serverError(error, "Failed to update candidate");
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!repository.deleteCandidate(id)) {
+      return notFound(id);
+    }
+
+    return NextResponse.json({ deleted: true, id });
+  } catch (error) {
+    return serverError(error, "Failed to delete candidate");
+  }
+}
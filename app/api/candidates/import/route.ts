@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { csvImporter } from "../../../lib/csvImporter";
+
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get("content-type") || "";
+    const body = contentType.includes("text/csv")
+      ? {
+          csv: await request.text(),
+          dryRun: request.nextUrl.searchParams.get("dryRun") === "true",
+        }
+      : await request.json();
+    const { csv, columns, dryRun } = body ?? {};
+
+    if (typeof csv !== "string" || !csv.trim()) {
+      return NextResponse.json(
+        {
+          error: "Missing CSV",
+          details:
+            "Send the CSV as a text/csv body or in the csv field of a JSON body",
+          code: "MISSING_CSV",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      columns !== undefined &&
+      (typeof columns !== "object" ||
+        columns === null ||
+        Object.values(columns).some((value) => typeof value !== "string"))
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid column mapping",
+          details: "columns must map field names to CSV column headings",
+          code: "INVALID_COLUMNS",
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = csvImporter.importCandidates(csv, {
+      columns,
+      dryRun: Boolean(dryRun),
+    });
+
+    return NextResponse.json({ ...report, dryRun: Boolean(dryRun) });
+  } catch (error) {
+    console.error("Candidate import API error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        error: "Candidate import failed",
+        details: errorMessage,
+        code: "IMPORT_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
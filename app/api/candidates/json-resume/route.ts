@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { jsonResumeConverter } from "../../../lib/jsonResume";
+import { repository } from "../../../lib/repository";
+import { skillDiscovery } from "../../../lib/skillDiscovery";
+import {
+  validateCandidate,
+  getValidationErrorBody,
+} from "../../../lib/validation";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { resume, save } = body ?? {};
+
+    if (
+      typeof resume !== "object" ||
+      resume === null ||
+      Array.isArray(resume)
+    ) {
+      return NextResponse.json(
+        {
+          error: "Missing resume",
+          details: "Provide a JSON Resume document in the resume field",
+          code: "MISSING_RESUME",
+        },
+        { status: 400 }
+      );
+    }
+
+    const imported = jsonResumeConverter.importJsonResume(resume);
+    const validation = validateCandidate(imported.candidate);
+
+    if (save === true) {
+      if (!validation.value) {
+        return NextResponse.json(
+          getValidationErrorBody(validation, "imported candidate"),
+          { status: 400 }
+        );
+      }
+
+      if (repository.getCandidateById(validation.value.id)) {
+        return NextResponse.json(
+          {
+            error: "Candidate already exists",
+            details: `Candidate with ID ${validation.value.id} already exists`,
+            code: "CANDIDATE_EXISTS",
+          },
+          { status: 409 }
+        );
+      }
+
+      const candidate = repository.saveCandidate(validation.value);
+      // Only stored documents feed discovery. Unmatched keywords are whole
+      // terms; list them as their own context
+      skillDiscovery.recordUnmatchedTerms(
+        imported.unmatchedTerms,
+        imported.unmatchedTerms.join(", "),
+        "resume"
+      );
+      return NextResponse.json(
+        {
+          candidate,
+          warnings: imported.warnings,
+          unmatchedTerms: imported.unmatchedTerms,
+          saved: true,
+        },
+        { status: 201 }
+      );
+    }
+
+    return NextResponse.json({
+      candidate: imported.candidate,
+      warnings: imported.warnings,
+      unmatchedTerms: imported.unmatchedTerms,
+      validationErrors: validation.errors,
+      saved: false,
+    });
+  } catch (error) {
+    console.error("JSON Resume import API error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        error: "JSON Resume import failed",
+        details: errorMessage,
+        code: "IMPORT_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { resumeParser } from "../../../lib/resumeParser";
+import { repository } from "../../../lib/repository";
+import { skillDiscovery } from "../../../lib/skillDiscovery";
+import {
+  validateCandidate,
+  getValidationErrorBody,
+} from "../../../lib/validation";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { text, format, save } = body ?? {};
+
+    if (typeof text !== "string" || !text.trim()) {
+      return NextResponse.json(
+        {
+          error: "Missing resume text",
+          details: "Provide the resume content in the text field",
+          code: "MISSING_TEXT",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (format !== undefined && format !== "text" && format !== "markdown") {
+      return NextResponse.json(
+        {
+          error: "Invalid format",
+          details: 'Format must be either "text" or "markdown"',
+          code: "INVALID_FORMAT",
+        },
+        { status: 400 }
+      );
+    }
+
+    const parsed = resumeParser.parseResume(text, { format });
+    const validation = validateCandidate(parsed.candidate);
+
+    if (save === true) {
+      if (!validation.value) {
+        return NextResponse.json(
+          getValidationErrorBody(validation, "parsed candidate"),
+          { status: 400 }
+        );
+      }
+
+      const candidate = repository.saveCandidate(validation.value);
+      // Only stored documents feed discovery, so previews leave no trace
+      skillDiscovery.recordUnmatchedTerms(
+        parsed.unmatchedTerms,
+        text,
+        "resume"
+      );
+      return NextResponse.json(
+        {
+          candidate,
+          warnings: parsed.warnings,
+          unmatchedTerms: parsed.unmatchedTerms,
+          saved: true,
+        },
+        { status: 201 }
+      );
+    }
+
+    return NextResponse.json({
+      candidate: parsed.candidate,
+      warnings: parsed.warnings,
+      unmatchedTerms: parsed.unmatchedTerms,
+      validationErrors: validation.errors,
+      saved: false,
+    });
+  } catch (error) {
+    console.error("Resume parsing API error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        error: "Resume parsing failed",
+        details: errorMessage,
+        code: "PARSE_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+
+import { repository } from "../../lib/repository";
+import {
+  validateCandidate,
+  getValidationErrorBody,
+} from "../../lib/validation";
+
+export async function GET() {
+  try {
+    const candidates = repository.getAllCandidates();
+
+    return NextResponse.json({
+      candidates,
+      count: candidates.length,
+    });
+  } catch (error) {
+    console.error("Candidates API error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        error: "Failed to load candidates",
+        details: errorMessage,
+        code: "CANDIDATES_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const input = {
+      ...body,
+      id: body?.id || `candidate-${crypto.randomUUID().slice(0, 8)}`,
+    };
+
+    const validation = validateCandidate(input);
+    if (!validation.value) {
+      return NextResponse.json(
+        getValidationErrorBody(validation, "candidate"),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    if (repository.getCandidateById(validation.value.id)) {
+      return NextResponse.json(
+        {
+          error: "Candidate already exists",
+          details: `Candidate with ID ${validation.value.id} already exists`,
+          code: "CANDIDATE_EXISTS",
+        },
+        { status: 409 }
+      );
+    }
+
+    const candidate = repository.saveCandidate(validation.value);
+    return NextResponse.json({ candidate }, { status: 201 });
+  } catch (error) {
+    console.error("Candidates API error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        error: "Failed to create candidate",
+        details: errorMessage,
+        code: "CANDIDATES_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { repository } from "../../../lib/repository";
+import { validateJob, getValidationErrorBody } from "../../../lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return NextResponse.json(
+    {
+      error: "Resource not found",
+      details: `Job with ID ${id} not found`,
+      code: "RESOURCE_NOT_FOUND",
+    },
+    { status: 404 }
+  );
+}
+
+function serverError(error: unknown, message: string) {
+  console.error("Jobs API error:", error);
+
+  const errorMessage =
+    error instanceof Error ? error.message : "Unknown error occurred";
+
+  return NextResponse.json(
+    {
+      error: message,
+      details: errorMessage,
+      code: "JOBS_ERROR",
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = repository.getJobById(id);
+
+    if (!job) {
+      return notFound(id);
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    return serverError(error, "Failed to load job");
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!repository.getJobById(id)) {
+      return notFound(id);
+    }
+
+    const body = await request.json();
+    const validation = validateJob({ ...body, id });
+    if (!validation.value) {
+      return NextResponse.json(getValidationErrorBody(validation, "job"), {
+        status: 400,
+      });
+    }
+
+    const job = repository.saveJob(validation.value);
+    return NextResponse.json({ job });
+  } catch (error) {
+    return serverError(error, "Failed to update job");
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const existing = repository.getJobById(id);
+
+    if (!existing) {
+      return notFound(id);
+    }
+
+    const body = await request.json();
+    const validation = validateJob({ ...existing, ...body, id });
+    if (!validation.value) {
+      return NextResponse.json(getValidationErrorBody(validation, "job"), {
+        status: 400,
+      });
+    }
+
+    const job = repository.saveJob(validation.value);
+    return NextResponse.json({ job });
+  } catch (error) {
+    return serverError(error, "Failed to update job");
+  }
+}
+
+// Jobs are archived rather than deleted so past matches stay reproducible
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const existing = repository.getJobById(id);
+
+    if (!existing) {
+      return notFound(id);
+    }
+
+    const job = repository.saveJob({ ...existing, archived: true });
+    return NextResponse.json({ archived: true, job });
+  } catch (error) {
+    return serverError(error, "Failed to archive job");
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { jobDescriptionParser } from "../../../lib/jobDescriptionParser";
+import { repository } from "../../../lib/repository";
+import { skillDiscovery } from "../../../lib/skillDiscovery";
+import { validateJob, getValidationErrorBody } from "../../../lib/validation";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { text, title, company, location, refineWithAI, save } = body ?? {};
+
+    if (typeof text !== "string" || !text.trim()) {
+      return NextResponse.json(
+        {
+          error: "Missing job description",
+          details: "Provide the job description in the text field",
+          code: "MISSING_TEXT",
+        },
+        { status: 400 }
+      );
+    }
+
+    const options = { title, company, location };
+    const parsed = refineWithAI
+      ? await jobDescriptionParser.parseJobDescriptionWithAI(text, options)
+      : jobDescriptionParser.parseJobDescription(text, options);
+    const validation = validateJob(parsed.job);
+
+    if (save === true) {
+      if (!validation.value) {
+        return NextResponse.json(
+          getValidationErrorBody(validation, "parsed job"),
+          { status: 400 }
+        );
+      }
+
+      const job = repository.saveJob(validation.value);
+      // Only stored documents feed discovery, so previews leave no trace
+      skillDiscovery.recordUnmatchedTerms(parsed.unmatchedTerms, text, "job");
+      return NextResponse.json(
+        {
+          job,
+          warnings: parsed.warnings,
+          unmatchedTerms: parsed.unmatchedTerms,
+          aiRefined: parsed.aiRefined,
+          saved: true,
+        },
+        { status: 201 }
+      );
+    }
+
+    return NextResponse.json({
+      job: parsed.job,
+      warnings: parsed.warnings,
+      unmatchedTerms: parsed.unmatchedTerms,
+      aiRefined: parsed.aiRefined,
+      validationErrors: validation.errors,
+      saved: false,
+    });
+  } catch (error) {
+    console.error("Job description parsing API error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        error: "Job description parsing failed",
+        details: errorMessage,
+        code: "PARSE_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
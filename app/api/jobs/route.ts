@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+
+import { repository } from "../../lib/repository";
+import { validateJob, getValidationErrorBody } from "../../lib/validation";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const includeArchived = searchParams.get("includeArchived") === "true";
+
+    const jobs = repository
+      .getAllJobs()
+      .filter((job) => includeArchived || !job.archived);
+
+    return NextResponse.json({
+      jobs,
+      count: jobs.length,
+    });
+  } catch (error) {
+    console.error("Jobs API error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        error: "Failed to load jobs",
+        details: errorMessage,
+        code: "JOBS_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const input = {
+      ...body,
+      id: body?.id || `job-${crypto.randomUUID().slice(0, 8)}`,
+    };
+
+    const validation = validateJob(input);
+    if (!validation.value) {
+      return NextResponse.json(getValidationErrorBody(validation, "job"), {
+        status: 400,
+      });
+    }
+
+    if (repository.getJobById(validation.value.id)) {
+      return NextResponse.json(
+        {
+          error: "Job already exists",
+          details: `Job with ID ${validation.value.id} already exists`,
+          code: "JOB_EXISTS",
+        },
+        { status: 409 }
+      );
+    }
+
+    const job = repository.saveJob(validation.value);
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (error) {
+    console.error("Jobs API error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        error: "Failed to create job",
+        details: errorMessage,
+        code: "JOBS_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { repository } from "../../../lib/repository";
+import { skillGraph } from "../../../lib/skillGraph";
+import { skillNormalizer } from "../../../lib/skillNormalizer";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const candidateId = searchParams.get("from");
+    const skill = searchParams.get("to");
+
+    if (!candidateId || !skill) {
+      return NextResponse.json(
+        {
+          error: "Missing required parameters",
+          details:
+            "Both from (candidate ID) and to (skill ID or name) are required",
+          code: "MISSING_QUERY_PARAMS",
+        },
+        { status: 400 }
+      );
+    }
+
+    const candidate = repository.getCandidateById(candidateId);
+    if (!candidate) {
+      return NextResponse.json(
+        {
+          error: "Resource not found",
+          details: `Candidate with ID ${candidateId} not found`,
+          code: "RESOURCE_NOT_FOUND",
+        },
+        { status: 404 }
+      );
+    }
+
+    // Accept a skill ID or any name or alias of the skill
+    const targetSkill =
+      skillNormalizer.getSkillById(skill) ||
+      skillNormalizer.getSkillById(
+        skillNormalizer.normalizeSkill(skill).toLowerCase()
+      );
+    if (!targetSkill) {
+      return NextResponse.json(
+        {
+          error: "Resource not found",
+          details: `Skill ${skill} not found`,
+          code: "RESOURCE_NOT_FOUND",
+        },
+        { status: 404 }
+      );
+    }
+
+    const learningPath = skillGraph.getLearningPath(
+      [...candidate.skills, ...candidate.experience.map((exp) => exp.skillId)],
+      targetSkill.id
+    );
+
+    return NextResponse.json({
+      candidateId,
+      learningPath,
+    });
+  } catch (error) {
+    console.error("Learning path API error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        error: "Failed to build learning path",
+        details: errorMessage,
+        code: "LEARNING_PATH_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
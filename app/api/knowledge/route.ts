@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { skillNormalizer } from "../../lib/skillNormalizer";
-import { skills, skillRelationships } from "../../data/skills";
+import { skillGraph } from "../../lib/skillGraph";
+import { repository } from "../../lib/repository";
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const skillId = searchParams.get("skillId");
     const relationshipType = searchParams.get("type");
+    const skillRelationships = repository.getAllSkillRelationships();
 
     if (skillId) {
       // Get knowledge graph for a specific skill
@@ -24,10 +26,14 @@ export async function GET(request: NextRequest) {
         (rel) => rel.sourceSkill === skillId || rel.targetSkill === skillId
       );
 
+      // Skills reachable over several hops of the knowledge graph
+      const transitiveSkills = skillGraph.getReachableSkills(skillId);
+
       return NextResponse.json({
         skill,
         relatedSkills,
         relationships,
+        transitiveSkills,
       });
     }
 
@@ -40,6 +46,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get full knowledge graph
+    const skills = skillNormalizer.getAllSkills();
     return NextResponse.json({
       skills,
       relationships: skillRelationships,
@@ -75,15 +82,21 @@ export async function POST(request: NextRequest) {
     const areRelated = skillNormalizer.areSkillsRelated(skill1Id, skill2Id);
 
     // Get relationship details if they exist
-    const relationship = skillRelationships.find(
-      (rel) =>
-        (rel.sourceSkill === skill1Id && rel.targetSkill === skill2Id) ||
-        (rel.sourceSkill === skill2Id && rel.targetSkill === skill1Id)
-    );
+    const relationship = repository
+      .getAllSkillRelationships()
+      .find(
+        (rel) =>
+          (rel.sourceSkill === skill1Id && rel.targetSkill === skill2Id) ||
+          (rel.sourceSkill === skill2Id && rel.targetSkill === skill1Id)
+      );
+
+    // Strongest multi-hop path from skill1 to skill2, if any
+    const distance = skillGraph.getSkillDistance(skill1Id, skill2Id);
 
     return NextResponse.json({
       areRelated,
       relationship,
+      distance,
       skill1: skillNormalizer.getSkillById(skill1Id),
       skill2: skillNormalizer.getSkillById(skill2Id),
     });
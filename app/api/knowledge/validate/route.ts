@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { taxonomyValidator } from "../../../lib/taxonomyValidator";
+
+export async function GET() {
+  try {
+    const result = taxonomyValidator.validateTaxonomy();
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Taxonomy validation API error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        error: "Failed to validate taxonomy",
+        details: errorMessage,
+        code: "TAXONOMY_VALIDATION_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
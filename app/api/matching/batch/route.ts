@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { matchingService } from "../../../lib/matchingService";
+import { BatchMatchingRequest } from "../../../types/matching";
+
+function isIdList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => typeof item === "string" && item.trim())
+  );
+}
+
+function isOptionalInteger(value: unknown, min: number, max: number): boolean {
+  return (
+    value === undefined ||
+    (typeof value === "number" &&
+      Number.isInteger(value) &&
+      value >= min &&
+      value <= max)
+  );
+}
+
+function badRequest(error: string, details: string, code: string) {
+  return NextResponse.json({ error, details, code }, { status: 400 });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { jobIds, candidateIds, topK, includeAI, offset, limit, asOf } =
+      (body ?? {}) as BatchMatchingRequest;
+
+    if (!isIdList(jobIds)) {
+      return badRequest(
+        "Missing jobIds",
+        "jobIds must be a non-empty array of job IDs",
+        "MISSING_JOB_IDS"
+      );
+    }
+
+    if (!isIdList(candidateIds)) {
+      return badRequest(
+        "Missing candidateIds",
+        "candidateIds must be a non-empty array of candidate IDs",
+        "MISSING_CANDIDATE_IDS"
+      );
+    }
+
+    if (!isOptionalInteger(topK, 1, Number.MAX_SAFE_INTEGER)) {
+      return badRequest(
+        "Invalid topK parameter",
+        "topK must be a positive integer",
+        "INVALID_TOP_K"
+      );
+    }
+
+    if (
+      !isOptionalInteger(offset, 0, Number.MAX_SAFE_INTEGER) ||
+      !isOptionalInteger(limit, 1, 200)
+    ) {
+      return badRequest(
+        "Invalid pagination parameters",
+        "offset must be a non-negative integer and limit a number between 1 and 200",
+        "INVALID_PAGINATION"
+      );
+    }
+
+    if (includeAI !== undefined && typeof includeAI !== "boolean") {
+      return badRequest(
+        "Invalid includeAI parameter",
+        "includeAI must be a boolean",
+        "INVALID_INCLUDE_AI"
+      );
+    }
+
+    if (asOf !== undefined && typeof asOf !== "string") {
+      return badRequest(
+        "Invalid asOf",
+        "asOf must be an ISO date string, e.g. 2024-06-30",
+        "INVALID_AS_OF"
+      );
+    }
+
+    try {
+      const result = await matchingService.matchBatch({
+        jobIds,
+        candidateIds,
+        topK,
+        includeAI,
+        offset,
+        limit,
+        asOf,
+      });
+      return NextResponse.json(result);
+    } catch (matchError) {
+      if (matchError instanceof Error) {
+        if (matchError.message.includes("not found")) {
+          return NextResponse.json(
+            {
+              error: "Resource not found",
+              details: matchError.message,
+              code: "RESOURCE_NOT_FOUND",
+            },
+            { status: 404 }
+          );
+        }
+        if (matchError.message.includes("invalid")) {
+          return badRequest(
+            "Invalid request",
+            matchError.message,
+            "INVALID_REQUEST"
+          );
+        }
+      }
+      throw matchError;
+    }
+  } catch (error) {
+    console.error("Batch matching API error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        error: "Batch matching failed",
+        details: errorMessage,
+        code: "MATCHING_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
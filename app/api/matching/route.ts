@@ -6,7 +6,7 @@ import { MatchingRequest } from "../../types/matching";
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { jobId, candidateId } = body as MatchingRequest;
+    const { jobId, candidateId, asOf } = body as MatchingRequest;
 
     // Enhanced validation with specific error messages
     if (!jobId && !candidateId) {
@@ -42,9 +42,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (asOf !== undefined && typeof asOf !== "string") {
+      return NextResponse.json(
+        {
+          error: "Invalid asOf",
+          details: "asOf must be an ISO date string, e.g. 2024-06-30",
+          code: "INVALID_AS_OF",
+        },
+        { status: 400 }
+      );
+    }
+
     // Validate that job and candidate exist
     try {
-      const result = await matchingService.match({ jobId, candidateId });
+      const result = await matchingService.match({
+        jobId,
+        candidateId,
+        asOf,
+      });
       return NextResponse.json(result);
     } catch (matchError) {
       if (matchError instanceof Error) {
@@ -94,6 +109,17 @@ export async function GET(request: NextRequest) {
     const jobId = searchParams.get("jobId");
     const candidateId = searchParams.get("candidateId");
     const limit = parseInt(searchParams.get("limit") || "10");
+    const includeKnockedOut = searchParams.get("includeKnockedOut") === "true";
+    const minCompensationFitParam = searchParams.get("minCompensationFit");
+    const minCompensationFit =
+      minCompensationFitParam === null
+        ? undefined
+        : Number(minCompensationFitParam);
+    const maxTimezoneOffsetParam = searchParams.get("maxTimezoneOffset");
+    const maxTimezoneOffset =
+      maxTimezoneOffsetParam === null
+        ? undefined
+        : Number(maxTimezoneOffsetParam);
 
     // Validate limit parameter
     if (isNaN(limit) || limit < 1 || limit > 100) {
@@ -107,6 +133,38 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (
+      minCompensationFit !== undefined &&
+      (!Number.isFinite(minCompensationFit) ||
+        minCompensationFit < 0 ||
+        minCompensationFit > 1)
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid minCompensationFit parameter",
+          details: "minCompensationFit must be a number between 0 and 1",
+          code: "INVALID_COMPENSATION_FIT",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      maxTimezoneOffset !== undefined &&
+      (!Number.isFinite(maxTimezoneOffset) ||
+        maxTimezoneOffset < 0 ||
+        maxTimezoneOffset > 12)
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid maxTimezoneOffset parameter",
+          details: "maxTimezoneOffset must be a number of hours from 0 to 12",
+          code: "INVALID_TIMEZONE_OFFSET",
+        },
+        { status: 400 }
+      );
+    }
+
     if (!jobId && !candidateId) {
       return NextResponse.json(
         {
@@ -127,11 +185,16 @@ export async function GET(request: NextRequest) {
         results = [result.result];
       } else if (jobId) {
         // Find candidates for a job
-        results = await matchingService.findCandidatesForJob(jobId, limit);
+        results = await matchingService.findCandidatesForJob(jobId, limit, {
+          includeKnockedOut,
+          minCompensationFit,
+          maxTimezoneOffset,
+        });
       } else if (candidateId) {
         // Find jobs for a candidate
         results = await matchingService.matchCandidateAgainstAllJobs(
-          candidateId
+          candidateId,
+          { minCompensationFit }
         );
       } else {
         return NextResponse.json(
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { matchingService } from "../../../lib/matchingService";
+import { repository } from "../../../lib/repository";
+
+// Server-sent events: "progress" for each pipeline stage, then exactly one
+// "result" (the MatchingResponse) or "error" before the stream closes.
+export const dynamic = "force-dynamic";
+
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const jobId = searchParams.get("jobId");
+  const candidateId = searchParams.get("candidateId");
+  const asOf = searchParams.get("asOf") || undefined;
+
+  if (!jobId || !candidateId) {
+    return NextResponse.json(
+      {
+        error: "Missing query parameters",
+        details: "Both jobId and candidateId are required for matching",
+        code: "MISSING_QUERY_PARAMS",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (
+    !repository.getJobById(jobId) ||
+    !repository.getCandidateById(candidateId)
+  ) {
+    return NextResponse.json(
+      {
+        error: "Resource not found",
+        details: !repository.getJobById(jobId)
+          ? `Job with ID ${jobId} not found`
+          : `Candidate with ID ${candidateId} not found`,
+        code: "RESOURCE_NOT_FOUND",
+      },
+      { status: 404 }
+    );
+  }
+
+  if (asOf !== undefined && isNaN(new Date(asOf).getTime())) {
+    return NextResponse.json(
+      {
+        error: "Invalid asOf",
+        details: "asOf must be an ISO date string, e.g. 2024-06-30",
+        code: "INVALID_AS_OF",
+      },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(formatEvent(event, data)));
+      };
+
+      try {
+        const result = await matchingService.match(
+          { jobId, candidateId, asOf },
+          (progress) => send("progress", progress)
+        );
+        send("result", result);
+      } catch (error) {
+        console.error("Matching stream error:", error);
+        send("error", {
+          error: "Matching failed",
+          details:
+            error instanceof Error ? error.message : "Unknown error occurred",
+          code: "MATCHING_ERROR",
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      // Client went away; the pipeline finishes but nothing more is sent
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
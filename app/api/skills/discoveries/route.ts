@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { skillDiscovery } from "../../../lib/skillDiscovery";
+import { SkillDiscoveryStatus } from "../../../types/matching";
+
+const STATUSES: SkillDiscoveryStatus[] = [
+  "pending",
+  "promoted",
+  "aliased",
+  "ignored",
+];
+const ACTIONS = ["promote", "alias", "ignore"];
+
+// Map discovery queue errors onto the API error envelope
+function discoveryErrorResponse(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (message.includes("not found")) {
+    return NextResponse.json(
+      {
+        error: "Resource not found",
+        details: message,
+        code: "RESOURCE_NOT_FOUND",
+      },
+      { status: 404 }
+    );
+  }
+  if (message.includes("already")) {
+    return NextResponse.json(
+      { error: "Conflict", details: message, code: "DISCOVERY_CONFLICT" },
+      { status: 409 }
+    );
+  }
+  if (message.toLowerCase().includes("invalid")) {
+    return NextResponse.json(
+      {
+        error: "Invalid taxonomy change",
+        details: message,
+        code: "INVALID_TAXONOMY_CHANGE",
+      },
+      { status: 400 }
+    );
+  }
+
+  console.error("Skill discoveries API error:", error);
+  return NextResponse.json(
+    {
+      error: "Failed to resolve skill discovery",
+      details: message,
+      code: "SKILL_DISCOVERY_ERROR",
+    },
+    { status: 500 }
+  );
+}
+
+function parseCount(value: string | null): number | undefined | null {
+  if (value === null) return undefined;
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") || "pending";
+    const minCount = parseCount(searchParams.get("minCount"));
+    const limit = parseCount(searchParams.get("limit"));
+
+    if (!STATUSES.includes(status as SkillDiscoveryStatus)) {
+      return NextResponse.json(
+        {
+          error: "Invalid status",
+          details: `Status must be one of: ${STATUSES.join(", ")}`,
+          code: "INVALID_QUERY_PARAMS",
+        },
+        { status: 400 }
+      );
+    }
+    if (minCount === null || limit === null) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          details: "minCount and limit must be non-negative integers",
+          code: "INVALID_QUERY_PARAMS",
+        },
+        { status: 400 }
+      );
+    }
+
+    const discoveries = skillDiscovery.getDiscoveries({
+      status: status as SkillDiscoveryStatus,
+      minCount,
+      limit,
+    });
+
+    return NextResponse.json({ discoveries, total: discoveries.length });
+  } catch (error) {
+    console.error("Skill discoveries API error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to load skill discoveries",
+        details:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        code: "SKILL_DISCOVERY_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { id, action, skill, skillId } = body ?? {};
+
+    if (typeof id !== "string" || !ACTIONS.includes(action)) {
+      return NextResponse.json(
+        {
+          error: "Invalid request",
+          details: `Provide a discovery id and an action (${ACTIONS.join(
+            ", "
+          )})`,
+          code: "INVALID_REQUEST",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (action === "alias") {
+      if (typeof skillId !== "string" || !skillId) {
+        return NextResponse.json(
+          {
+            error: "Missing skill ID",
+            details: "Provide the skillId the term should become an alias of",
+            code: "MISSING_SKILL_ID",
+          },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(
+        skillDiscovery.aliasDiscovery(id, skillId.toLowerCase())
+      );
+    }
+
+    if (action === "promote") {
+      if (skill !== undefined && (typeof skill !== "object" || !skill)) {
+        return NextResponse.json(
+          {
+            error: "Invalid skill",
+            details: "skill must be an object of fields for the new skill",
+            code: "INVALID_REQUEST",
+          },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(
+        skillDiscovery.promoteDiscovery(id, skill || {}),
+        { status: 201 }
+      );
+    }
+
+    return NextResponse.json({
+      discovery: skillDiscovery.ignoreDiscovery(id),
+    });
+  } catch (error) {
+    return discoveryErrorResponse(error);
+  }
+}
@@ -1,6 +1,55 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { skillNormalizer } from "../../lib/skillNormalizer";
+import { skillTaxonomy } from "../../lib/skillTaxonomy";
+import {
+  validateSkill,
+  validateSkillRelationship,
+  getValidationErrorBody,
+} from "../../lib/validation";
+import { SkillRelationship } from "../../types/matching";
+
+// Map taxonomy service errors onto the API error envelope
+function taxonomyErrorResponse(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (message.includes("not found")) {
+    return NextResponse.json(
+      {
+        error: "Resource not found",
+        details: message,
+        code: "RESOURCE_NOT_FOUND",
+      },
+      { status: 404 }
+    );
+  }
+  if (message.includes("already exists") || message.includes("in use")) {
+    return NextResponse.json(
+      { error: "Conflict", details: message, code: "SKILL_CONFLICT" },
+      { status: 409 }
+    );
+  }
+  if (message.toLowerCase().includes("invalid")) {
+    return NextResponse.json(
+      {
+        error: "Invalid taxonomy change",
+        details: message,
+        code: "INVALID_TAXONOMY_CHANGE",
+      },
+      { status: 400 }
+    );
+  }
+
+  console.error("Skills API error:", error);
+  return NextResponse.json(
+    {
+      error: "Failed to update skills taxonomy",
+      details: message,
+      code: "SKILLS_ERROR",
+    },
+    { status: 500 }
+  );
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -28,16 +77,20 @@ export async function GET(request: NextRequest) {
     }
 
     if (search) {
-      // Search skills by name
-      const allSkills = skillNormalizer.getAllSkills();
-      const matchingSkills = allSkills.filter(
-        (skill) =>
-          skill.canonicalName.toLowerCase().includes(search.toLowerCase()) ||
-          skill.aliases.some((alias) =>
-            alias.toLowerCase().includes(search.toLowerCase())
-          )
+      // Search skills by name, tolerating misspellings
+      const results = skillNormalizer.searchSkills(search);
+      const exactMatch = results.some(
+        (result) => result.matchType === "exact" || result.matchType === "alias"
       );
-      return NextResponse.json({ skills: matchingSkills });
+      return NextResponse.json({
+        skills: results.map((result) => result.skill),
+        results,
+        didYouMean: exactMatch
+          ? []
+          : skillNormalizer
+              .suggestSkills(search)
+              .map((suggestion) => suggestion.skill.canonicalName),
+      });
     }
 
     // Get all skills
@@ -57,11 +110,56 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  let body: Record<string, unknown> | null;
   try {
-    const body = await request.json();
-    const { text } = body;
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON",
+        details: "Request body must be valid JSON",
+        code: "INVALID_JSON",
+      },
+      { status: 400 }
+    );
+  }
+
+  const { skill, relationship, text } = body ?? {};
 
-    if (!text) {
+  // { skill } adds a skill and { relationship } adds or replaces a
+  // relationship; anything else is a skill extraction request
+  if (skill !== undefined) {
+    const result = validateSkill(skill);
+    if (!result.value) {
+      return NextResponse.json(getValidationErrorBody(result, "skill"), {
+        status: 400,
+      });
+    }
+    try {
+      const added = skillTaxonomy.addSkill(result.value);
+      return NextResponse.json({ skill: added }, { status: 201 });
+    } catch (error) {
+      return taxonomyErrorResponse(error);
+    }
+  }
+
+  if (relationship !== undefined) {
+    const result = validateSkillRelationship(relationship);
+    if (!result.value) {
+      return NextResponse.json(getValidationErrorBody(result, "relationship"), {
+        status: 400,
+      });
+    }
+    try {
+      const added = skillTaxonomy.addRelationship(result.value);
+      return NextResponse.json({ relationship: added }, { status: 201 });
+    } catch (error) {
+      return taxonomyErrorResponse(error);
+    }
+  }
+
+  try {
+    if (!text || typeof text !== "string") {
       return NextResponse.json(
         { error: "Text field is required" },
         { status: 400 }
@@ -74,6 +172,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       extractedSkills: extractionResult.skills,
       count: extractionResult.skills.length,
+      negatedSkills: extractionResult.negatedSkills,
+      mentions: extractionResult.mentions,
       confidence: extractionResult.confidence,
       matchedTerms: extractionResult.matchedTerms,
       unmatchedTerms: extractionResult.unmatchedTerms,
@@ -90,3 +190,103 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const skillId = searchParams.get("skillId");
+
+    if (!skillId) {
+      return NextResponse.json(
+        {
+          error: "Missing required parameters",
+          details: "skillId query parameter is required",
+          code: "MISSING_QUERY_PARAMS",
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = skillNormalizer.getSkillById(skillId);
+    if (!existing) {
+      return taxonomyErrorResponse(
+        new Error(`Skill with ID ${skillId} not found`)
+      );
+    }
+
+    let changes: unknown;
+    try {
+      changes = await request.json();
+    } catch {
+      return NextResponse.json(
+        {
+          error: "Invalid JSON",
+          details: "Request body must be valid JSON",
+          code: "INVALID_JSON",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Fields not sent keep their current values; the ID cannot change
+    const result = validateSkill({
+      ...existing,
+      ...(typeof changes === "object" && changes !== null ? changes : {}),
+      id: existing.id,
+    });
+    if (!result.value) {
+      return NextResponse.json(getValidationErrorBody(result, "skill"), {
+        status: 400,
+      });
+    }
+
+    const skill = skillTaxonomy.updateSkill(result.value);
+    return NextResponse.json({ skill });
+  } catch (error) {
+    return taxonomyErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const skillId = searchParams.get("skillId");
+    const mergeInto = searchParams.get("mergeInto");
+    const sourceSkill = searchParams.get("source");
+    const targetSkill = searchParams.get("target");
+    const relationshipType = searchParams.get("type");
+
+    if (skillId && mergeInto) {
+      // Fold the skill into another and rewrite references to it
+      const merge = skillTaxonomy.mergeSkills(skillId, mergeInto);
+      return NextResponse.json(merge);
+    }
+
+    if (skillId) {
+      const deleted = skillTaxonomy.deleteSkill(skillId);
+      return NextResponse.json(deleted);
+    }
+
+    if (sourceSkill && targetSkill && relationshipType) {
+      const relationship = skillTaxonomy.removeRelationship({
+        sourceSkill,
+        targetSkill,
+        relationshipType:
+          relationshipType as SkillRelationship["relationshipType"],
+      });
+      return NextResponse.json({ deleted: relationship });
+    }
+
+    return NextResponse.json(
+      {
+        error: "Missing required parameters",
+        details:
+          "Pass skillId (optionally with mergeInto), or source, target and type to delete a relationship",
+        code: "MISSING_QUERY_PARAMS",
+      },
+      { status: 400 }
+    );
+  } catch (error) {
+    return taxonomyErrorResponse(error);
+  }
+}
@@ -3,7 +3,6 @@
 import { useState, useEffect } from "react";
 
 import { Candidate } from "../types/matching";
-import { sampleCandidates } from "../data/sampleCandidates";
 
 interface CandidateInputProps {
   onCandidateSelect: (candidateId: string) => void;
@@ -29,10 +28,14 @@ const CandidateInput = ({
         setLoading(true);
         setError(null);
 
-        // Simulate API call delay
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        const response = await fetch("/api/candidates");
+        const data = await response.json();
 
-        setCandidates(sampleCandidates);
+        if (!response.ok) {
+          throw new Error(data.details || data.error || "Request failed");
+        }
+
+        setCandidates(data.candidates);
       } catch (err) {
         setError("Failed to load candidates. Please try again.");
         console.error("Error loading candidates:", err);
@@ -3,7 +3,6 @@
 import { useState, useEffect } from "react";
 
 import { Job } from "../types/matching";
-import { sampleJobs } from "../data/sampleJobs";
 
 interface JobInputProps {
   onJobSelect: (jobId: string) => void;
@@ -24,10 +23,14 @@ const JobInput = ({ onJobSelect, selectedJobId }: JobInputProps) => {
         setLoading(true);
         setError(null);
 
-        // Simulate API call delay
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        const response = await fetch("/api/jobs");
+        const data = await response.json();
 
-        setJobs(sampleJobs);
+        if (!response.ok) {
+          throw new Error(data.details || data.error || "Request failed");
+        }
+
+        setJobs(data.jobs);
       } catch (err) {
         setError("Failed to load jobs. Please try again.");
         console.error("Error loading jobs:", err);
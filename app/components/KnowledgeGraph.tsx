@@ -4,7 +4,6 @@ import React, { memo } from "react";
 import { useState, useEffect } from "react";
 
 import { Skill, SkillRelationship } from "../types/matching";
-import { skills, skillRelationships } from "../data/skills";
 
 interface KnowledgeGraphProps {
   selectedSkills?: string[];
@@ -21,11 +20,18 @@ const KnowledgeGraph = memo(function KnowledgeGraph({
   const [selectedSkill, setSelectedSkill] = useState<string | null>(null);
 
   useEffect(() => {
-    // Load skills and relationships data from the data files
+    // Load the current taxonomy, including runtime edits
     const loadData = async () => {
       try {
-        setSkillsData(skills);
-        setRelationships(skillRelationships);
+        const response = await fetch("/api/knowledge");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.details || data.error || "Request failed");
+        }
+
+        setSkillsData(data.skills);
+        setRelationships(data.relationships);
       } catch (error) {
         console.error("Failed to load knowledge graph data:", error);
       } finally {
@@ -1,14 +1,28 @@
+import { MatchingProgressEvent, MatchingStage } from "../types/matching";
+
 interface MatchingProgressProps {
-  currentStep: number;
-  totalSteps: number;
-  stepLabels: string[];
+  events: MatchingProgressEvent[];
 }
 
-const MatchingProgress = ({
-  currentStep,
-  totalSteps,
-  stepLabels,
-}: MatchingProgressProps) => {
+const stages: { stage: MatchingStage; label: string }[] = [
+  { stage: "scoring", label: "Calculating skill and experience match" },
+  { stage: "skillTransferability", label: "Assessing transferable skills" },
+  { stage: "culturalFit", label: "Evaluating cultural fit" },
+  { stage: "learningPotential", label: "Estimating learning potential" },
+  { stage: "experienceValidation", label: "Validating experience claims" },
+  { stage: "explanation", label: "Generating explanation" },
+];
+
+const MatchingProgress = ({ events }: MatchingProgressProps) => {
+  // The latest event for each stage decides how it is shown
+  const latestByStage = new Map<MatchingStage, MatchingProgressEvent>();
+  events.forEach((event) => latestByStage.set(event.stage, event));
+
+  const finishedCount = stages.filter(({ stage }) => {
+    const status = latestByStage.get(stage)?.status;
+    return status === "completed" || status === "failed";
+  }).length;
+
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
       <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -16,22 +30,26 @@ const MatchingProgress = ({
       </h3>
 
       <div className="space-y-4">
-        {stepLabels.map((label, index) => {
-          const isCompleted = index < currentStep;
-          const isCurrent = index === currentStep;
+        {stages.map(({ stage, label }, index) => {
+          const event = latestByStage.get(stage);
+          const isCompleted = event?.status === "completed";
+          const isFailed = event?.status === "failed";
+          const isCurrent = event?.status === "started";
 
           return (
-            <div key={index} className="flex items-center">
+            <div key={stage} className="flex items-center">
               <div
                 className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${
                   isCompleted
                     ? "bg-green-500 text-white"
+                    : isFailed
+                    ? "bg-red-500 text-white"
                     : isCurrent
                     ? "bg-blue-500 text-white"
                     : "bg-gray-200 text-gray-500"
                 }`}
               >
-                {isCompleted ? "✓" : index + 1}
+                {isCompleted ? "✓" : isFailed ? "!" : index + 1}
               </div>
 
               <div className="ml-4 flex-1">
@@ -39,6 +57,8 @@ const MatchingProgress = ({
                   className={`text-sm font-medium ${
                     isCompleted
                       ? "text-green-600"
+                      : isFailed
+                      ? "text-red-600"
                       : isCurrent
                       ? "text-blue-600"
                       : "text-gray-500"
@@ -47,6 +67,12 @@ const MatchingProgress = ({
                   {label}
                 </div>
 
+                {event?.detail && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    {event.detail}
+                  </div>
+                )}
+
                 {isCurrent && (
                   <div className="mt-1">
                     <div className="w-full bg-gray-200 rounded-full h-2">
@@ -65,12 +91,12 @@ const MatchingProgress = ({
 
       <div className="mt-4 text-center">
         <div className="text-sm text-gray-600">
-          Step {currentStep + 1} of {totalSteps}
+          {finishedCount} of {stages.length} stages complete
         </div>
         <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
           <div
             className="bg-blue-500 h-2 rounded-full transition-all duration-300"
-            style={{ width: `${((currentStep + 1) / totalSteps) * 100}%` }}
+            style={{ width: `${(finishedCount / stages.length) * 100}%` }}
           />
         </div>
       </div>
@@ -201,6 +201,44 @@ const MatchingResults = memo(function MatchingResults({
         </div>
       </div>
 
+      {/* Compensation */}
+      {score.mutualFit.compensation && (
+        <div className="mb-6">
+          <h4 className="font-medium text-gray-900 mb-3">Compensation</h4>
+          <div
+            className={`p-4 rounded text-sm ${
+              score.mutualFit.compensation.status === "meets"
+                ? "bg-green-50 text-green-800"
+                : score.mutualFit.compensation.status === "partial"
+                ? "bg-yellow-50 text-yellow-800"
+                : "bg-red-50 text-red-800"
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <span>
+                Offered{" "}
+                {score.mutualFit.compensation.offeredMin.toLocaleString()}–
+                {score.mutualFit.compensation.offeredMax.toLocaleString()}{" "}
+                {score.mutualFit.compensation.currency} a year, expected{" "}
+                {score.mutualFit.compensation.expectedMin.toLocaleString()}
+                {score.mutualFit.compensation.expectedMax !== undefined &&
+                  `–${score.mutualFit.compensation.expectedMax.toLocaleString()}`}
+              </span>
+              <span className="font-bold">
+                {Math.round(score.mutualFit.compensation.score * 100)}%
+              </span>
+            </div>
+            <div className="mt-1">
+              {score.mutualFit.compensation.status === "meets"
+                ? "Meets expectation"
+                : score.mutualFit.compensation.status === "partial"
+                ? "Partly meets expectation"
+                : "Below expectation"}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Explanation */}
       <div className="mb-6">
         <h4 className="font-medium text-gray-900 mb-3">Analysis</h4>
@@ -314,6 +352,12 @@ const MatchingResults = memo(function MatchingResults({
                       {gap.candidateDuration} months vs {gap.requiredDuration}{" "}
                       months required
                     </span>
+                    {gap.discountedMonths > 0 && (
+                      <span className="text-gray-500 ml-1">
+                        ({gap.discountedMonths} months discounted, last used{" "}
+                        {gap.monthsSinceUsed} months ago)
+                      </span>
+                    )}
                   </div>
                 ))}
               </div>
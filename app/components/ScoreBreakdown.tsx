@@ -27,32 +27,37 @@ const ScoreBreakdown = memo(function ScoreBreakdown({
     {
       name: "Skill Match",
       score: score.skillMatchScore,
-      weight: 0.4,
+      weight: score.weights.skillMatch,
       description: "Direct skill matches and related skills",
     },
     {
       name: "Experience",
       score: score.experienceScore,
-      weight: 0.3,
+      weight: score.weights.experience,
       description: "Experience depth and complexity level",
     },
     {
       name: "Transferable Skills",
       score: score.transferableSkillsScore,
-      weight: 0.2,
+      weight: score.weights.transferableSkills,
       description: "Skills that can be applied to the role",
     },
     {
       name: "Potential",
       score: score.potentialScore,
-      weight: 0.1,
+      weight: score.weights.potential,
       description: "Learning ability and growth trajectory",
     },
   ];
 
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
-      <h3 className="text-xl font-bold text-gray-900 mb-6">Score Breakdown</h3>
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-gray-900">Score Breakdown</h3>
+        <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded capitalize">
+          {score.weightProfile} profile
+        </span>
+      </div>
 
       <div className="space-y-6">
         {factors.map((factor, index) => (
@@ -94,6 +99,113 @@ const ScoreBreakdown = memo(function ScoreBreakdown({
         ))}
       </div>
 
+      {/* Skill Level Deltas */}
+      {score.breakdown.levelDeltas.length > 0 && (
+        <div className="mt-6 pt-6 border-t border-gray-200">
+          <h4 className="font-medium text-gray-900 mb-1">Skill Levels</h4>
+          <p className="text-sm text-gray-600 mb-3">
+            Candidate proficiency compared with the required level (1-5)
+          </p>
+          <div className="space-y-2">
+            {score.breakdown.levelDeltas.map((levelDelta) => (
+              <div
+                key={levelDelta.skillId}
+                className="flex items-center justify-between text-sm"
+              >
+                <span className="text-gray-900">
+                  {levelDelta.skillId.charAt(0).toUpperCase() +
+                    levelDelta.skillId.slice(1)}
+                </span>
+                <span className="text-gray-600">
+                  {levelDelta.candidateLevel} / {levelDelta.requiredLevel}
+                  <span
+                    className={`ml-2 font-medium ${
+                      levelDelta.delta >= 0 ? "text-green-600" : "text-red-600"
+                    }`}
+                  >
+                    {levelDelta.delta > 0 ? "+" : ""}
+                    {levelDelta.delta}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Mutual Fit */}
+      <div className="mt-6 pt-6 border-t border-gray-200">
+        <div className="flex items-center justify-between mb-1">
+          <h4 className="font-medium text-gray-900">Mutual Fit</h4>
+          <span
+            className={`text-sm font-bold ${getScoreColor(
+              score.mutualFit.score
+            )}`}
+          >
+            {Math.round(score.mutualFit.score * 100)}%
+          </span>
+        </div>
+        <p className="text-sm text-gray-600 mb-3">
+          How well the job fits the candidate&apos;s salary, location, work
+          arrangement and seniority preferences
+        </p>
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          {(
+            [
+              ["Salary", score.mutualFit.salary],
+              ["Location", score.mutualFit.location],
+              ["Work arrangement", score.mutualFit.workArrangement],
+              ["Seniority", score.mutualFit.seniority],
+            ] as [string, number | null][]
+          ).map(([label, fit]) => (
+            <div key={label} className="flex justify-between">
+              <span className="text-gray-700">{label}</span>
+              <span
+                className={fit === null ? "text-gray-400" : getScoreColor(fit)}
+              >
+                {fit === null ? "n/a" : `${Math.round(fit * 100)}%`}
+              </span>
+            </div>
+          ))}
+        </div>
+        {score.mutualFit.locationFit?.overlapHours !== null &&
+          score.mutualFit.locationFit?.overlapHours !== undefined && (
+            <p className="mt-3 text-sm text-gray-600">
+              {score.mutualFit.locationFit.timezoneOffsetHours}h timezone
+              difference, {score.mutualFit.locationFit.overlapHours} shared
+              working hours per day
+            </p>
+          )}
+        {score.mutualFit.mismatches.length > 0 && (
+          <ul className="mt-3 space-y-1">
+            {score.mutualFit.mismatches.map((mismatch, index) => (
+              <li key={index} className="text-sm text-yellow-700">
+                • {mismatch}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Knockout Failures */}
+      {!score.passesKnockouts && (
+        <div className="mt-6 pt-6 border-t border-gray-200">
+          <h4 className="font-medium text-red-700 mb-1">
+            Knockout criteria failed
+          </h4>
+          <p className="text-sm text-gray-600 mb-3">
+            The candidate does not meet these hard requirements of the job
+          </p>
+          <ul className="space-y-1">
+            {score.breakdown.knockoutFailures.map((failure, index) => (
+              <li key={index} className="text-sm text-red-600">
+                • {failure.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Overall Score Summary */}
       <div className="mt-6 pt-6 border-t border-gray-200">
         <div className="flex items-center justify-between">
@@ -117,6 +229,9 @@ const ScoreBreakdown = memo(function ScoreBreakdown({
             ></div>
           </div>
         </div>
+        <div className="mt-2 text-sm text-gray-600">
+          Combined with mutual fit: {Math.round(score.combinedScore * 100)}%
+        </div>
       </div>
 
       {/* Score Interpretation */}
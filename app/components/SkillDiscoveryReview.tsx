@@ -0,0 +1,168 @@
+"use client";
+
+import React, { memo } from "react";
+import { useState, useEffect, useCallback } from "react";
+
+import { SkillDiscovery } from "../types/matching";
+
+type DiscoveryAction = "promote" | "alias" | "ignore";
+
+const SkillDiscoveryReview = memo(function SkillDiscoveryReview() {
+  const [discoveries, setDiscoveries] = useState<SkillDiscovery[]>([]);
+  const [aliasTargets, setAliasTargets] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDiscoveries = useCallback(async () => {
+    try {
+      const response = await fetch("/api/skills/discoveries?limit=25");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Request failed");
+      }
+
+      setDiscoveries(data.discoveries);
+    } catch (error) {
+      console.error("Failed to load skill discoveries:", error);
+      setError(error instanceof Error ? error.message : "Request failed");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDiscoveries();
+  }, [loadDiscoveries]);
+
+  const resolveDiscovery = async (
+    discovery: SkillDiscovery,
+    action: DiscoveryAction
+  ) => {
+    setBusyId(discovery.id);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/skills/discoveries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: discovery.id,
+          action,
+          skillId: aliasTargets[discovery.id]?.trim(),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Request failed");
+      }
+
+      setDiscoveries((current) =>
+        current.filter((item) => item.id !== discovery.id)
+      );
+    } catch (error) {
+      console.error("Failed to resolve skill discovery:", error);
+      setError(error instanceof Error ? error.message : "Request failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="animate-pulse">
+          <div className="h-6 bg-gray-200 rounded w-1/3 mb-4" />
+          <div className="h-4 bg-gray-200 rounded w-3/4" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">
+        Discovered Skills
+      </h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Terms seen in saved resumes and job descriptions that match no known
+        skill. Promote them to new skills, add them as aliases, or ignore them.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 text-red-700 text-sm rounded">
+          {error}
+        </div>
+      )}
+
+      {discoveries.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing waiting for review.</p>
+      ) : (
+        <div className="space-y-3">
+          {discoveries.map((discovery) => (
+            <div key={discovery.id} className="p-4 bg-gray-50 rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium text-gray-900">
+                  {discovery.term}
+                </span>
+                <span className="text-xs text-gray-500">
+                  seen {discovery.count}× ({discovery.sources.resume} resumes,{" "}
+                  {discovery.sources.job} jobs)
+                </span>
+              </div>
+
+              {discovery.examples.map((example, index) => (
+                <p key={index} className="text-xs text-gray-600 italic mb-1">
+                  {example.context}
+                </p>
+              ))}
+
+              <div className="flex flex-wrap items-center gap-2 mt-3">
+                <button
+                  onClick={() => resolveDiscovery(discovery, "promote")}
+                  disabled={busyId === discovery.id}
+                  className="px-3 py-1 text-sm rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                >
+                  Promote
+                </button>
+                <input
+                  type="text"
+                  placeholder="skill ID"
+                  value={aliasTargets[discovery.id] || ""}
+                  onChange={(event) =>
+                    setAliasTargets((current) => ({
+                      ...current,
+                      [discovery.id]: event.target.value,
+                    }))
+                  }
+                  className="px-2 py-1 text-sm border border-gray-300 rounded w-32"
+                />
+                <button
+                  onClick={() => resolveDiscovery(discovery, "alias")}
+                  disabled={
+                    busyId === discovery.id ||
+                    !aliasTargets[discovery.id]?.trim()
+                  }
+                  className="px-3 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Add as alias
+                </button>
+                <button
+                  onClick={() => resolveDiscovery(discovery, "ignore")}
+                  disabled={busyId === discovery.id}
+                  className="px-3 py-1 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+                >
+                  Ignore
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default SkillDiscoveryReview;
@@ -0,0 +1,343 @@
+import { GazetteerCity, GazetteerCountry } from "../types/matching";
+
+// Offline gazetteer for location matching. UTC offsets are standard time;
+// daylight saving shifts are ignored, which is close enough for ranking.
+export const countries: GazetteerCountry[] = [
+  {
+    code: "US",
+    name: "United States",
+    aliases: ["US", "USA", "U.S.", "U.S.A.", "United States of America"],
+    utcOffset: -5,
+  },
+  { code: "CA", name: "Canada", aliases: [], utcOffset: -5 },
+  { code: "BR", name: "Brazil", aliases: ["Brasil"], utcOffset: -3 },
+  {
+    code: "GB",
+    name: "United Kingdom",
+    aliases: ["UK", "U.K.", "Great Britain", "England", "Scotland"],
+    utcOffset: 0,
+  },
+  { code: "IE", name: "Ireland", aliases: [], utcOffset: 0 },
+  { code: "DE", name: "Germany", aliases: ["Deutschland"], utcOffset: 1 },
+  { code: "FR", name: "France", aliases: [], utcOffset: 1 },
+  {
+    code: "NL",
+    name: "Netherlands",
+    aliases: ["The Netherlands", "Holland"],
+    utcOffset: 1,
+  },
+  { code: "ES", name: "Spain", aliases: ["España"], utcOffset: 1 },
+  { code: "PL", name: "Poland", aliases: [], utcOffset: 1 },
+  { code: "SE", name: "Sweden", aliases: [], utcOffset: 1 },
+  { code: "CH", name: "Switzerland", aliases: [], utcOffset: 1 },
+  { code: "IL", name: "Israel", aliases: [], utcOffset: 2 },
+  { code: "AE", name: "United Arab Emirates", aliases: ["UAE"], utcOffset: 4 },
+  { code: "IN", name: "India", aliases: [], utcOffset: 5.5 },
+  { code: "SG", name: "Singapore", aliases: [], utcOffset: 8 },
+  { code: "JP", name: "Japan", aliases: [], utcOffset: 9 },
+  { code: "AU", name: "Australia", aliases: [], utcOffset: 10 },
+];
+
+export const cities: GazetteerCity[] = [
+  // North America
+  {
+    id: "san-francisco",
+    name: "San Francisco",
+    aliases: ["SF", "San Francisco Bay Area", "Bay Area"],
+    countryCode: "US",
+    metro: "sf-bay-area",
+    utcOffset: -8,
+  },
+  {
+    id: "san-jose",
+    name: "San Jose",
+    aliases: [],
+    countryCode: "US",
+    metro: "sf-bay-area",
+    utcOffset: -8,
+  },
+  {
+    id: "oakland",
+    name: "Oakland",
+    aliases: [],
+    countryCode: "US",
+    metro: "sf-bay-area",
+    utcOffset: -8,
+  },
+  {
+    id: "palo-alto",
+    name: "Palo Alto",
+    aliases: ["Mountain View", "Menlo Park"],
+    countryCode: "US",
+    metro: "sf-bay-area",
+    utcOffset: -8,
+  },
+  {
+    id: "los-angeles",
+    name: "Los Angeles",
+    aliases: ["LA"],
+    countryCode: "US",
+    utcOffset: -8,
+  },
+  {
+    id: "seattle",
+    name: "Seattle",
+    aliases: ["Bellevue", "Redmond"],
+    countryCode: "US",
+    metro: "seattle",
+    utcOffset: -8,
+  },
+  {
+    id: "denver",
+    name: "Denver",
+    aliases: ["Boulder"],
+    countryCode: "US",
+    utcOffset: -7,
+  },
+  {
+    id: "austin",
+    name: "Austin",
+    aliases: [],
+    countryCode: "US",
+    utcOffset: -6,
+  },
+  {
+    id: "dallas",
+    name: "Dallas",
+    aliases: ["Fort Worth"],
+    countryCode: "US",
+    utcOffset: -6,
+  },
+  {
+    id: "chicago",
+    name: "Chicago",
+    aliases: [],
+    countryCode: "US",
+    utcOffset: -6,
+  },
+  {
+    id: "new-york",
+    name: "New York",
+    aliases: ["NYC", "New York City", "Manhattan", "Brooklyn"],
+    countryCode: "US",
+    metro: "new-york",
+    utcOffset: -5,
+  },
+  {
+    id: "jersey-city",
+    name: "Jersey City",
+    aliases: ["Hoboken"],
+    countryCode: "US",
+    metro: "new-york",
+    utcOffset: -5,
+  },
+  {
+    id: "boston",
+    name: "Boston",
+    aliases: [],
+    countryCode: "US",
+    utcOffset: -5,
+  },
+  {
+    id: "washington-dc",
+    name: "Washington DC",
+    aliases: ["Washington, D.C.", "DC"],
+    countryCode: "US",
+    utcOffset: -5,
+  },
+  {
+    id: "atlanta",
+    name: "Atlanta",
+    aliases: [],
+    countryCode: "US",
+    utcOffset: -5,
+  },
+  { id: "miami", name: "Miami", aliases: [], countryCode: "US", utcOffset: -5 },
+  {
+    id: "toronto",
+    name: "Toronto",
+    aliases: [],
+    countryCode: "CA",
+    utcOffset: -5,
+  },
+  {
+    id: "montreal",
+    name: "Montreal",
+    aliases: ["Montréal"],
+    countryCode: "CA",
+    utcOffset: -5,
+  },
+  {
+    id: "vancouver",
+    name: "Vancouver",
+    aliases: [],
+    countryCode: "CA",
+    utcOffset: -8,
+  },
+  {
+    id: "sao-paulo",
+    name: "São Paulo",
+    aliases: ["Sao Paulo"],
+    countryCode: "BR",
+    utcOffset: -3,
+  },
+
+  // Europe and the Middle East
+  {
+    id: "london",
+    name: "London",
+    aliases: [],
+    countryCode: "GB",
+    utcOffset: 0,
+  },
+  {
+    id: "manchester",
+    name: "Manchester",
+    aliases: [],
+    countryCode: "GB",
+    utcOffset: 0,
+  },
+  {
+    id: "edinburgh",
+    name: "Edinburgh",
+    aliases: [],
+    countryCode: "GB",
+    utcOffset: 0,
+  },
+  {
+    id: "dublin",
+    name: "Dublin",
+    aliases: [],
+    countryCode: "IE",
+    utcOffset: 0,
+  },
+  {
+    id: "berlin",
+    name: "Berlin",
+    aliases: [],
+    countryCode: "DE",
+    utcOffset: 1,
+  },
+  {
+    id: "munich",
+    name: "Munich",
+    aliases: ["München"],
+    countryCode: "DE",
+    utcOffset: 1,
+  },
+  { id: "paris", name: "Paris", aliases: [], countryCode: "FR", utcOffset: 1 },
+  {
+    id: "amsterdam",
+    name: "Amsterdam",
+    aliases: [],
+    countryCode: "NL",
+    utcOffset: 1,
+  },
+  {
+    id: "madrid",
+    name: "Madrid",
+    aliases: [],
+    countryCode: "ES",
+    utcOffset: 1,
+  },
+  {
+    id: "barcelona",
+    name: "Barcelona",
+    aliases: [],
+    countryCode: "ES",
+    utcOffset: 1,
+  },
+  {
+    id: "warsaw",
+    name: "Warsaw",
+    aliases: [],
+    countryCode: "PL",
+    utcOffset: 1,
+  },
+  {
+    id: "stockholm",
+    name: "Stockholm",
+    aliases: [],
+    countryCode: "SE",
+    utcOffset: 1,
+  },
+  {
+    id: "zurich",
+    name: "Zurich",
+    aliases: ["Zürich"],
+    countryCode: "CH",
+    utcOffset: 1,
+  },
+  {
+    id: "tel-aviv",
+    name: "Tel Aviv",
+    aliases: [],
+    countryCode: "IL",
+    utcOffset: 2,
+  },
+  { id: "dubai", name: "Dubai", aliases: [], countryCode: "AE", utcOffset: 4 },
+
+  // Asia-Pacific
+  {
+    id: "bangalore",
+    name: "Bangalore",
+    aliases: ["Bengaluru"],
+    countryCode: "IN",
+    utcOffset: 5.5,
+  },
+  {
+    id: "mumbai",
+    name: "Mumbai",
+    aliases: ["Bombay"],
+    countryCode: "IN",
+    utcOffset: 5.5,
+  },
+  {
+    id: "hyderabad",
+    name: "Hyderabad",
+    aliases: [],
+    countryCode: "IN",
+    utcOffset: 5.5,
+  },
+  {
+    id: "delhi",
+    name: "Delhi",
+    aliases: ["New Delhi", "Gurgaon", "Gurugram", "Noida"],
+    countryCode: "IN",
+    metro: "delhi-ncr",
+    utcOffset: 5.5,
+  },
+  {
+    id: "singapore",
+    name: "Singapore",
+    aliases: [],
+    countryCode: "SG",
+    utcOffset: 8,
+  },
+  { id: "tokyo", name: "Tokyo", aliases: [], countryCode: "JP", utcOffset: 9 },
+  {
+    id: "sydney",
+    name: "Sydney",
+    aliases: [],
+    countryCode: "AU",
+    utcOffset: 10,
+  },
+  {
+    id: "melbourne",
+    name: "Melbourne",
+    aliases: [],
+    countryCode: "AU",
+    utcOffset: 10,
+  },
+];
+
+// Named regions used in remote restrictions such as "Remote (EU only)"
+export const regions: Record<string, string[]> = {
+  "north america": ["US", "CA"],
+  americas: ["US", "CA", "BR"],
+  latam: ["BR"],
+  eu: ["IE", "DE", "FR", "NL", "ES", "PL", "SE"],
+  europe: ["GB", "IE", "DE", "FR", "NL", "ES", "PL", "SE", "CH"],
+  emea: ["GB", "IE", "DE", "FR", "NL", "ES", "PL", "SE", "CH", "IL", "AE"],
+  apac: ["IN", "SG", "JP", "AU"],
+};
@@ -8,6 +8,21 @@ export const sampleCandidates: Candidate[] = [
     summary:
       "Senior React developer with 5+ years of experience building scalable web applications. Passionate about clean code, performance optimization, and mentoring junior developers. Experience with modern React patterns, TypeScript, and full-stack development.",
     skills: ["react", "javascript", "typescript", "nodejs", "jest"],
+    proficiencies: [
+      {
+        skillId: "react",
+        selfReportedLevel: 5,
+        evidenceLevel: 4,
+        lastUsed: "2024-05",
+      },
+      { skillId: "jest", selfReportedLevel: 3, lastUsed: "2024-03" },
+    ],
+    preferences: {
+      salaryMin: 130000,
+      locations: ["San Francisco"],
+      workArrangements: ["hybrid", "remote"],
+      seniority: ["senior", "lead"],
+    },
     experience: [
       {
         id: "exp-1-1",
@@ -7,6 +7,7 @@ export const sampleJobs: Job[] = [
     company: "TechCorp Inc.",
     location: "San Francisco, CA",
     salary: "$120,000 - $150,000",
+    weightProfile: "senior",
     description: `We're looking for a Senior React Developer to join our growing team. You'll be responsible for building scalable, high-performance web applications using modern React patterns and best practices. You'll work closely with our design and backend teams to deliver exceptional user experiences.
 
 Key responsibilities include:
@@ -232,6 +233,7 @@ This role involves automating deployment processes, monitoring system health, an
     company: "AI Innovations",
     location: "Seattle, WA",
     salary: "$130,000 - $160,000",
+    weightProfile: "research",
     description: `We're looking for a Machine Learning Engineer to join our AI team. You'll be responsible for developing and deploying machine learning models that power our intelligent features. This role combines software engineering skills with machine learning expertise.
 
 You'll work on everything from data preprocessing to model deployment, ensuring our ML systems are scalable, reliable, and maintainable.`,
@@ -1,4 +1,4 @@
-import { Skill, SkillRelationship } from "../types/matching";
+import { Skill, SkillMigration, SkillRelationship } from "../types/matching";
 
 // Comprehensive skills knowledge graph
 export const skills: Skill[] = [
@@ -6,12 +6,23 @@ export const skills: Skill[] = [
   {
     id: "react",
     canonicalName: "React",
-    aliases: ["ReactJS", "React.js", "ReactJS", "React Native"],
+    aliases: ["ReactJS", "React.js"],
     category: "Frontend",
     relatedSkills: ["javascript", "typescript", "jsx", "redux", "nextjs"],
     difficultyLevel: 3,
     timeToProficiency: 6,
   },
+  {
+    id: "react-native",
+    canonicalName: "React Native",
+    aliases: ["ReactNative"],
+    category: "Frontend",
+    relatedSkills: ["javascript"],
+    difficultyLevel: 3,
+    timeToProficiency: 4,
+    parentSkill: "react",
+    familyStrength: 0.7,
+  },
   {
     id: "javascript",
     canonicalName: "JavaScript",
@@ -42,11 +53,24 @@ export const skills: Skill[] = [
   {
     id: "angular",
     canonicalName: "Angular",
-    aliases: ["AngularJS", "Angular 2+", "Angular"],
+    aliases: ["Angular 2+", "Angular"],
     category: "Frontend",
     relatedSkills: ["typescript", "javascript", "rxjs", "ngrx"],
     difficultyLevel: 4,
     timeToProficiency: 8,
+    versions: { min: 2 },
+  },
+  {
+    id: "angularjs",
+    canonicalName: "AngularJS",
+    aliases: ["Angular.js", "Angular 1"],
+    category: "Frontend",
+    relatedSkills: ["javascript"],
+    difficultyLevel: 3,
+    timeToProficiency: 5,
+    parentSkill: "angular",
+    familyStrength: 0.5,
+    versions: { min: 1, max: 1 },
   },
 
   // Backend Skills
@@ -67,6 +91,19 @@ export const skills: Skill[] = [
     relatedSkills: ["django", "flask", "fastapi", "pandas", "numpy"],
     difficultyLevel: 2,
     timeToProficiency: 4,
+    versions: { min: 3 },
+  },
+  {
+    id: "python2",
+    canonicalName: "Python 2",
+    aliases: ["Python2"],
+    category: "Programming",
+    relatedSkills: [],
+    difficultyLevel: 2,
+    timeToProficiency: 3,
+    parentSkill: "python",
+    familyStrength: 0.8,
+    versions: { min: 2, max: 2 },
   },
   {
     id: "java",
@@ -86,8 +123,35 @@ export const skills: Skill[] = [
     difficultyLevel: 3,
     timeToProficiency: 4,
   },
+  {
+    id: "django",
+    canonicalName: "Django",
+    aliases: ["Django REST Framework", "DRF"],
+    category: "Backend",
+    relatedSkills: ["python", "postgresql"],
+    difficultyLevel: 3,
+    timeToProficiency: 4,
+  },
+  {
+    id: "spring",
+    canonicalName: "Spring",
+    aliases: ["Spring Boot", "Spring Framework"],
+    category: "Backend",
+    relatedSkills: ["java"],
+    difficultyLevel: 4,
+    timeToProficiency: 6,
+  },
 
   // Database Skills
+  {
+    id: "sql",
+    canonicalName: "SQL",
+    aliases: ["Structured Query Language"],
+    category: "Database",
+    relatedSkills: ["postgresql", "mysql"],
+    difficultyLevel: 2,
+    timeToProficiency: 3,
+  },
   {
     id: "mongodb",
     canonicalName: "MongoDB",
@@ -329,6 +393,53 @@ export const skillRelationships: SkillRelationship[] = [
   },
 ];
 
+// Seed changes for skill stores created before them. New stores are seeded
+// with the current `skills` and skip these; existing ones apply each once.
+// Migrations only add what is missing and leave curator edits in place.
+export const skillMigrations: SkillMigration[] = [
+  {
+    id: "skill-families",
+    description:
+      "Split React Native, AngularJS and Python 2 into family members of React, Angular and Python",
+    apply: (stored) => {
+      const byId = new Map(stored.map((skill) => [skill.id, skill]));
+      const changed = new Map<string, Skill>();
+      const update = (skillId: string, change: (skill: Skill) => Skill) => {
+        const skill = changed.get(skillId) || byId.get(skillId);
+        if (skill) changed.set(skillId, change(skill));
+      };
+
+      [
+        { skillId: "react", alias: "React Native" },
+        { skillId: "angular", alias: "AngularJS" },
+      ].forEach(({ skillId, alias }) =>
+        update(skillId, (skill) => ({
+          ...skill,
+          aliases: skill.aliases.filter((name) => name !== alias),
+        }))
+      );
+
+      ["react-native", "angularjs", "python2"].forEach((skillId) => {
+        const member = skills.find((skill) => skill.id === skillId) as Skill;
+        if (!byId.has(skillId) && byId.has(member.parentSkill as string)) {
+          changed.set(skillId, member);
+          // The family root covers the versions its new member does not
+          const root = skills.find((skill) => skill.id === member.parentSkill);
+          update(member.parentSkill as string, (skill) =>
+            skill.versions || !root?.versions
+              ? skill
+              : { ...skill, versions: root.versions }
+          );
+        }
+      });
+
+      return Array.from(changed.values()).filter(
+        (skill) => JSON.stringify(skill) !== JSON.stringify(byId.get(skill.id))
+      );
+    },
+  },
+];
+
 // Helper function to find skill by name or alias
 export function findSkillByName(name: string): Skill | undefined {
   const normalizedName = name.toLowerCase().trim();
@@ -0,0 +1,85 @@
+import { csvImporter } from "../csvImporter";
+import { repository } from "../repository";
+
+describe("csvImporter", () => {
+  it("should parse quoted fields with commas, quotes and line breaks", () => {
+    const rows = csvImporter.parseCsv(
+      'name,summary\r\n"Doe, Jane","Says ""hi""\ntwice"\n'
+    );
+    expect(rows).toEqual([
+      ["name", "summary"],
+      ["Doe, Jane", 'Says "hi"\ntwice'],
+    ]);
+  });
+
+  it("should create, update and reject rows with a per-row report", () => {
+    const csv = [
+      "Full Name,email,skills,years_react,years_node.js,years_cobol",
+      "Ada Lovelace,ada@example.com,Python; AWS; Basket Weaving,,2.5,",
+      "Sarah J.,SARAH.JOHNSON@email.com,Docker,7,,",
+      "No Email,,React,1,,",
+      "Ada Again,ada@example.com,React,,,",
+    ].join("\n");
+
+    const report = csvImporter.importCandidates(csv, {
+      columns: { name: "Full Name" },
+    });
+
+    expect(report.warnings).toEqual([
+      'Column "years_cobol" does not match a known skill and was ignored',
+    ]);
+    expect(report.rows.map((row) => row.status)).toEqual([
+      "created",
+      "updated",
+      "rejected",
+      "rejected",
+    ]);
+    expect(report).toMatchObject({ created: 1, updated: 1, rejected: 2 });
+
+    const [created, updated, missingEmail, duplicate] = report.rows;
+    expect(created.warnings).toEqual(['Unknown skill "Basket Weaving"']);
+    const ada = repository.getCandidateById(created.candidateId as string);
+    expect(ada?.skills).toEqual(["python", "aws", "nodejs"]);
+    expect(ada?.experience[0]).toMatchObject({
+      skillId: "nodejs",
+      duration: 30,
+    });
+
+    expect(updated.candidateId).toBe("candidate-1");
+    const sarah = repository.getCandidateById("candidate-1");
+    expect(sarah?.name).toBe("Sarah J.");
+    expect(sarah?.skills).toContain("docker");
+    expect(
+      sarah?.experience.find((exp) => exp.skillId === "react")
+    ).toMatchObject({ id: "exp-1-1", duration: 84, hasLeadershipRole: true });
+
+    expect(missingEmail.reasons).toContain(
+      "email must be a valid email address"
+    );
+    expect(duplicate.reasons).toEqual([
+      "Duplicate email, already imported from row 2",
+    ]);
+  });
+
+  it("should report the same ID clashes in a dry run as when saving", () => {
+    const csv = [
+      "id,name,email,skills",
+      "csv-shared,First Row,first@example.com,React",
+      "csv-shared,Second Row,second@example.com,Python",
+    ].join("\n");
+
+    const dryRun = csvImporter.importCandidates(csv, { dryRun: true });
+    expect(repository.getCandidateById("csv-shared")).toBeUndefined();
+    const saved = csvImporter.importCandidates(csv);
+
+    for (const report of [dryRun, saved]) {
+      expect(report.rows.map((row) => row.status)).toEqual([
+        "created",
+        "rejected",
+      ]);
+      expect(report.rows[1].reasons).toEqual([
+        "id csv-shared already imported from row 2",
+      ]);
+    }
+  });
+});
@@ -0,0 +1,134 @@
+import { jobDescriptionParser } from "../jobDescriptionParser";
+import { scoringEngine } from "../scoringEngine";
+import { validateJob } from "../validation";
+
+const posting = `Senior Frontend Engineer
+Company: TechCorp Inc.
+Location: Remote
+Salary: $120,000 - $150,000
+
+We build dashboards for logistics teams.
+
+What you'll do:
+- Ship features across our React and Node.js stack
+- Mentor other engineers
+
+Must have:
+- 3+ years of React
+- Strong TypeScript skills
+- Expert JavaScript knowledge
+
+Nice to have:
+- Familiarity with Docker
+- Six months of Jest
+
+Bonus: PostgreSQL experience
+`;
+
+describe("jobDescriptionParser", () => {
+  it("should draft a job with required and optional requirements", () => {
+    const { job, warnings } = jobDescriptionParser.parseJobDescription(
+      posting,
+      { jobId: "parsed-job" }
+    );
+
+    expect(warnings).toEqual([]);
+    expect(job).toMatchObject({
+      id: "parsed-job",
+      title: "Senior Frontend Engineer",
+      company: "TechCorp Inc.",
+      location: "Remote",
+      salary: "$120,000 - $150,000",
+      weightProfile: "senior",
+    });
+    expect(job.responsibilities).toHaveLength(2);
+
+    const bySkill = Object.fromEntries(
+      job.requirements.map((requirement) => [requirement.skillId, requirement])
+    );
+    expect(bySkill.react).toMatchObject({
+      minDuration: 36,
+      requiredLevel: 4,
+      isRequired: true,
+    });
+    expect(bySkill.javascript).toMatchObject({
+      requiredLevel: 5,
+      isRequired: true,
+    });
+    expect(bySkill.docker).toMatchObject({
+      requiredLevel: 3,
+      isRequired: false,
+    });
+    expect(bySkill.jest).toMatchObject({ minDuration: 6, isRequired: false });
+    expect(bySkill.postgresql.isRequired).toBe(false);
+    // Only mentioned under responsibilities, so optional
+    expect(bySkill.nodejs.isRequired).toBe(false);
+
+    expect(validateJob(job).errors).toEqual([]);
+  });
+
+  it("should classify lines when the description has no sections", () => {
+    const { job } = jobDescriptionParser.parseJobDescription(
+      "Junior Python Developer\nYou know Python well. AWS is a plus.",
+      { location: "Berlin" }
+    );
+
+    const python = job.requirements.find((req) => req.skillId === "python");
+    const aws = job.requirements.find((req) => req.skillId === "aws");
+    expect(python).toMatchObject({ isRequired: true, requiredLevel: 2 });
+    expect(aws?.isRequired).toBe(false);
+    expect(job.weightProfile).toBe("junior");
+  });
+
+  it("should parse minimum durations from phrases", () => {
+    expect(jobDescriptionParser.parseMinDuration("3+ years of React")).toBe(36);
+    expect(jobDescriptionParser.parseMinDuration("2-4 yrs Python")).toBe(24);
+    expect(jobDescriptionParser.parseMinDuration("six months")).toBe(6);
+    expect(jobDescriptionParser.parseMinDuration("React")).toBeNull();
+  });
+
+  it("should draft intern requirements with no minimum that still score", () => {
+    const { job } = jobDescriptionParser.parseJobDescription(
+      "Software Engineering Intern\n\nRequirements:\n- React\n- Docker",
+      { jobId: "intern-job" }
+    );
+    expect(job.requirements.map((req) => req.minDuration)).toEqual([0, 0]);
+
+    const score = scoringEngine.calculateMatchingScore(
+      {
+        id: "new-grad",
+        name: "New Grad",
+        email: "grad@example.com",
+        skills: ["react"],
+        experience: [
+          {
+            id: "exp-1",
+            skillId: "react",
+            duration: 0,
+            complexityLevel: 1,
+            hasLeadershipRole: false,
+            technologies: ["React"],
+          },
+        ],
+        education: [],
+        summary: "",
+      },
+      job
+    );
+
+    expect(Number.isFinite(score.overallScore)).toBe(true);
+    expect(Number.isFinite(score.combinedScore)).toBe(true);
+  });
+
+  it("should return the deterministic draft in mock mode", async () => {
+    const result = await jobDescriptionParser.parseJobDescriptionWithAI(
+      posting,
+      { jobId: "parsed-job" }
+    );
+    expect(result.aiRefined).toBe(false);
+    expect(result.job).toEqual(
+      jobDescriptionParser.parseJobDescription(posting, { jobId: "parsed-job" })
+        .job
+    );
+  });
+});
@@ -0,0 +1,174 @@
+import { jsonResumeConverter } from "../jsonResume";
+import { sampleCandidates } from "../../data/sampleCandidates";
+
+const asOf = new Date(2024, 5, 15); // June 2024
+
+describe("jsonResumeConverter", () => {
+  it("should import work, skills and education from a JSON Resume", () => {
+    const { candidate, unmatchedTerms, warnings } =
+      jsonResumeConverter.importJsonResume(
+        {
+          basics: {
+            name: "Ada Lovelace",
+            email: "ada@example.com",
+            summary: "Backend engineer",
+          },
+          work: [
+            {
+              name: "Acme",
+              position: "Backend Engineer",
+              startDate: "2020-01-01",
+              endDate: "2021-12-31",
+              highlights: ["Built Python services", "Ran PostgreSQL"],
+            },
+            {
+              name: "Globex",
+              position: "Python Developer",
+              startDate: "2022-01",
+            },
+          ],
+          skills: [{ name: "Cloud", keywords: ["AWS", "Quantum Knitting"] }],
+          education: [
+            {
+              institution: "State University",
+              area: "Mathematics",
+              studyType: "Bachelor of Science",
+              endDate: "2019-06-01",
+            },
+          ],
+        },
+        { asOf, candidateId: "imported-1" }
+      );
+
+    const python = candidate.experience.find((exp) => exp.skillId === "python");
+    expect(candidate.id).toBe("imported-1");
+    expect(python?.duration).toBe(24 + 30); // 2020-2021 plus Jan 2022 - Jun 2024
+    expect(python?.projectDescription).toBe(
+      "Built Python services Ran PostgreSQL"
+    );
+    expect(candidate.skills).toEqual(expect.arrayContaining(["python", "aws"]));
+    expect(unmatchedTerms).toEqual(["Quantum Knitting"]);
+    expect(candidate.education[0]).toEqual({
+      degree: "Bachelor of Science",
+      institution: "State University",
+      graduationYear: 2019,
+      field: "Mathematics",
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it("should warn about malformed fields instead of throwing", () => {
+    const { candidate, warnings } = jsonResumeConverter.importJsonResume(
+      {
+        basics: { name: 42, email: "ada@example.com" },
+        work: {},
+        skills: [
+          { name: "Python", level: 5 },
+          { keywords: "TypeScript" },
+          "React",
+        ],
+        education: [{ studyType: "BSc", endDate: 2019 }],
+      },
+      { asOf }
+    );
+
+    expect(candidate.skills).toEqual(["python"]);
+    expect(candidate.name).toBe("");
+    expect(warnings).toEqual(
+      expect.arrayContaining([
+        "basics.name must be a string; ignored",
+        "work must be an array; ignored",
+        "skills[0].level must be a string; ignored",
+        "skills[1].keywords must be an array of strings; ignored",
+        "skills[2] must be an object; ignored",
+        "education[0].endDate must be a string; ignored",
+      ])
+    );
+    expect(() => jsonResumeConverter.importJsonResume("resume")).not.toThrow();
+  });
+
+  it("should round-trip candidates through export and import", () => {
+    sampleCandidates.forEach((candidate) => {
+      const exported = jsonResumeConverter.exportJsonResume(candidate);
+      const { candidate: imported, unmatchedTerms } =
+        jsonResumeConverter.importJsonResume(exported, { asOf });
+
+      expect(imported).toEqual(candidate);
+      expect(unmatchedTerms).toEqual([]);
+    });
+  });
+
+  it("should keep experience IDs unique next to restored entries", () => {
+    const { candidate } = jsonResumeConverter.importJsonResume(
+      {
+        work: [
+          {
+            position: "React experience",
+            "x-matching": {
+              experienceId: "exp-2",
+              skillId: "react",
+              duration: 24,
+              complexityLevel: 4,
+              hasLeadershipRole: false,
+              technologies: ["React"],
+            },
+          },
+          {
+            position: "Python Developer",
+            startDate: "2020-01",
+            endDate: "2020-12",
+          },
+        ],
+      },
+      { asOf }
+    );
+
+    expect(candidate.experience.map((exp) => [exp.id, exp.skillId])).toEqual([
+      ["exp-2", "react"],
+      ["exp-1", "python"],
+    ]);
+  });
+
+  it("should drop malformed x-matching extensions with a warning", () => {
+    const { candidate, warnings } = jsonResumeConverter.importJsonResume(
+      {
+        basics: { name: "Ada Lovelace", email: "ada@example.com" },
+        work: [
+          {
+            position: "Python Developer",
+            startDate: "2022-01",
+            endDate: "2022-12",
+            "x-matching": {
+              experienceId: "exp-9",
+              skillId: "python",
+              duration: "forever",
+              complexityLevel: 3,
+              hasLeadershipRole: false,
+              technologies: ["Python"],
+            },
+          },
+        ],
+        skills: [
+          {
+            name: "Python",
+            "x-matching": { skillId: "python", evidenceLevel: 9 },
+          },
+        ],
+      },
+      { asOf }
+    );
+
+    expect(candidate.experience).toHaveLength(1);
+    expect(candidate.experience[0]).toMatchObject({
+      skillId: "python",
+      duration: 12,
+    });
+    expect(candidate.proficiencies).toBeUndefined();
+    expect(warnings).toEqual([
+      expect.stringMatching(/^work\[0\]\.x-matching ignored: .*duration/),
+      expect.stringMatching(
+        /^skills\[0\]\.x-matching ignored: .*evidenceLevel/
+      ),
+    ]);
+  });
+});
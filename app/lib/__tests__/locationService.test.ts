@@ -0,0 +1,79 @@
+import { locationService } from "../locationService";
+import { getAllCandidates } from "../../data/sampleCandidates";
+
+describe("locationService", () => {
+  it("should parse arrangements, gazetteer places and remote regions", () => {
+    expect(locationService.parseLocation("San Francisco, CA")).toEqual({
+      workArrangement: "onsite",
+      locations: ["San Francisco, CA"],
+      places: [
+        {
+          city: "san-francisco",
+          metro: "sf-bay-area",
+          countryCode: "US",
+          utcOffset: -8,
+        },
+      ],
+      remoteRegions: [],
+    });
+
+    const hybrid = locationService.parseLocation("Hybrid – London");
+    expect(hybrid.workArrangement).toBe("hybrid");
+    expect(hybrid.locations).toEqual(["London"]);
+    expect(hybrid.places.map((place) => place.city)).toEqual(["london"]);
+
+    expect(locationService.parseLocation("Remote (US only)")).toEqual({
+      workArrangement: "remote",
+      locations: [],
+      places: [],
+      remoteRegions: ["US"],
+    });
+    expect(
+      locationService.parseLocation("Remote - EU").remoteRegions
+    ).toContain("DE");
+    // Lower-case words are not read as short aliases such as "LA"
+    expect(locationService.resolvePlaces("la la land")).toEqual([]);
+  });
+
+  it("should score metro, relocation and timezone overlap", () => {
+    const candidate = {
+      ...getAllCandidates()[1],
+      location: "Oakland, CA",
+      preferences: undefined,
+    };
+    const sanJose = locationService.parseLocation("San Jose, CA");
+    expect(locationService.calculateLocationFit(candidate, sanJose)).toEqual({
+      score: 1,
+      match: "sameMetro",
+      timezoneOffsetHours: 0,
+      overlapHours: 8,
+    });
+
+    const berlin = locationService.parseLocation("Berlin, Germany");
+    expect(
+      locationService.calculateLocationFit(candidate, berlin)
+    ).toMatchObject({ score: 0, match: "none", timezoneOffsetHours: 9 });
+    expect(
+      locationService.calculateLocationFit(
+        { ...candidate, preferences: { willingToRelocate: true } },
+        berlin
+      )
+    ).toMatchObject({ score: 0.75, match: "relocation" });
+
+    const remoteUs = locationService.parseLocation("Remote (US only)");
+    expect(
+      locationService.calculateLocationFit(candidate, remoteUs)
+    ).toMatchObject({ score: 1, match: "remote", overlapHours: 8 });
+    expect(
+      locationService.calculateLocationFit(
+        { ...candidate, location: "Toronto" },
+        remoteUs
+      )
+    ).toMatchObject({ score: 0, match: "outsideRegion" });
+
+    const remoteNewYork = locationService.parseLocation("Remote - New York");
+    expect(
+      locationService.calculateLocationFit(candidate, remoteNewYork)
+    ).toMatchObject({ score: 0.63, overlapHours: 5, timezoneOffsetHours: 3 });
+  });
+});
@@ -1,6 +1,8 @@
 import { matchingService } from "../matchingService";
+import { repository } from "../repository";
 import { getAllJobs } from "../../data/sampleJobs";
 import { getAllCandidates } from "../../data/sampleCandidates";
+import { MatchingProgressEvent } from "../../types/matching";
 
 describe("matchingService", () => {
   it("should match a candidate to a job and return a valid response", async () => {
@@ -27,4 +29,133 @@ describe("matchingService", () => {
       })
     ).rejects.toThrow();
   });
+
+  it("should leave archived jobs out of candidate job matches", async () => {
+    const job = getAllJobs()[0];
+    const candidate = getAllCandidates()[0];
+    repository.saveJob({ ...job, archived: true });
+
+    try {
+      const results = await matchingService.matchCandidateAgainstAllJobs(
+        candidate.id
+      );
+      expect(results.map((result) => result.job.id)).not.toContain(job.id);
+      expect(results).toHaveLength(getAllJobs().length - 1);
+    } finally {
+      repository.saveJob(job);
+    }
+  });
+
+  it("should leave knocked-out candidates out of job shortlists unless asked", async () => {
+    const job = getAllJobs()[0];
+    repository.saveJob({ ...job, knockouts: { minTotalYears: 50 } });
+
+    try {
+      expect(await matchingService.findCandidatesForJob(job.id)).toEqual([]);
+
+      const results = await matchingService.findCandidatesForJob(job.id, 10, {
+        includeKnockedOut: true,
+      });
+      expect(results.length).toBeGreaterThan(0);
+      results.forEach((result) => {
+        expect(result.score.passesKnockouts).toBe(false);
+        expect(result.explanation).toContain("hard requirements");
+      });
+    } finally {
+      repository.saveJob(job);
+    }
+  });
+
+  it("should filter job matches on compensation fit", async () => {
+    const candidate = getAllCandidates()[0];
+    const all = await matchingService.matchCandidateAgainstAllJobs(
+      candidate.id
+    );
+    const filtered = await matchingService.matchCandidateAgainstAllJobs(
+      candidate.id,
+      { minCompensationFit: 0.9 }
+    );
+
+    expect(filtered.length).toBeGreaterThan(0);
+    expect(filtered.length).toBeLessThan(all.length);
+    filtered.forEach((result) => {
+      const compensation = result.score.mutualFit.compensation;
+      expect(compensation === null || compensation.score >= 0.9).toBe(true);
+    });
+  });
+
+  it("should drop candidates beyond a job's timezone offset limit", async () => {
+    const job = getAllJobs()[0]; // San Francisco
+    const candidate = getAllCandidates()[1];
+    repository.saveCandidate({ ...candidate, location: "Berlin, Germany" });
+
+    try {
+      const nearby = await matchingService.findCandidatesForJob(job.id, 10, {
+        maxTimezoneOffset: 3,
+      });
+      const ids = nearby.map((result) => result.candidate.id);
+      expect(ids).not.toContain(candidate.id);
+      expect(ids.length).toBe(getAllCandidates().length - 1);
+    } finally {
+      repository.saveCandidate(candidate);
+    }
+  });
+
+  it("should score a paginated job/candidate matrix with per-job top-k", async () => {
+    const jobIds = getAllJobs()
+      .slice(0, 2)
+      .map((job) => job.id);
+    const candidateIds = getAllCandidates().map((candidate) => candidate.id);
+
+    const firstPage = await matchingService.matchBatch({
+      jobIds,
+      candidateIds,
+      topK: 2,
+      limit: 3,
+    });
+    expect(firstPage.total).toBe(4);
+    expect(firstPage.cells).toHaveLength(3);
+    expect(firstPage.nextOffset).toBe(3);
+    expect(firstPage.cells.map((cell) => [cell.jobId, cell.rank])).toEqual([
+      [jobIds[0], 1],
+      [jobIds[0], 2],
+      [jobIds[1], 1],
+    ]);
+    expect(firstPage.cells[0].score.overallScore).toBeGreaterThanOrEqual(
+      firstPage.cells[1].score.overallScore
+    );
+
+    const lastPage = await matchingService.matchBatch({
+      jobIds,
+      candidateIds,
+      topK: 2,
+      offset: 3,
+      limit: 3,
+    });
+    expect(lastPage.cells).toHaveLength(1);
+    expect(lastPage.nextOffset).toBeNull();
+    expect(lastPage.cells[0].aiEnhanced).toBe(false);
+  });
+
+  it("should report each pipeline stage to a progress listener", async () => {
+    const events: MatchingProgressEvent[] = [];
+    await matchingService.match(
+      { jobId: getAllJobs()[0].id, candidateId: getAllCandidates()[0].id },
+      (event) => events.push(event)
+    );
+
+    const stages = events
+      .filter((event) => event.status === "completed")
+      .map((event) => event.stage);
+    expect(stages).toEqual([
+      "scoring",
+      "skillTransferability",
+      "culturalFit",
+      "learningPotential",
+      "experienceValidation",
+      "explanation",
+    ]);
+    expect(events[0]).toMatchObject({ stage: "scoring", status: "started" });
+    expect(events[1].partial).toHaveProperty("overallScore");
+  });
 });
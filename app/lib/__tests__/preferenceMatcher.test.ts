@@ -0,0 +1,43 @@
+import { preferenceMatcher } from "../preferenceMatcher";
+import { scoringEngine } from "../scoringEngine";
+import { getAllJobs } from "../../data/sampleJobs";
+import { getAllCandidates } from "../../data/sampleCandidates";
+
+describe("preferenceMatcher", () => {
+  it("should score how well a job fits the candidate's preferences", () => {
+    const [seniorReact, fullStack] = getAllJobs();
+    const candidate = getAllCandidates()[0];
+
+    // San Francisco, senior, 120k-150k: location and seniority fit, two thirds
+    // of the salary band reach the expected 130k, and the role is onsite
+    // against a hybrid/remote preference
+    const fit = preferenceMatcher.calculateMutualFit(candidate, seniorReact);
+    expect(fit.salary).toBe(0.92);
+    expect(fit.compensation?.status).toBe("partial");
+    expect(fit.location).toBe(1);
+    expect(fit.seniority).toBe(1);
+    expect(fit.workArrangement).toBe(0.5);
+    expect(fit.mismatches).toHaveLength(2);
+
+    // Remote mid-level role paying up to 110k
+    const remote = preferenceMatcher.calculateMutualFit(candidate, fullStack);
+    expect(remote.location).toBeNull();
+    expect(remote.workArrangement).toBe(1);
+    expect(remote.compensation?.status).toBe("below");
+    expect(remote.seniority).toBe(0.5);
+
+    const noPreferences = preferenceMatcher.calculateMutualFit(
+      { ...candidate, preferences: undefined },
+      fullStack
+    );
+    expect(noPreferences.score).toBe(1);
+    expect(noPreferences.mismatches).toEqual([]);
+
+    const score = scoringEngine.calculateMatchingScore(candidate, fullStack);
+    expect(score.mutualFit).toEqual(remote);
+    expect(score.combinedScore).toBeCloseTo(
+      score.overallScore * 0.75 + remote.score * 0.25,
+      1
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { createRepository } from "../repository";
+import { getAllCandidates } from "../../data/sampleCandidates";
+import { skills } from "../../data/skills";
+
+describe("repository", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "matching-repo-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("should seed an empty store from the sample data", () => {
+    const repository = createRepository({ dataDir, persist: true });
+    expect(repository.getAllCandidates()).toHaveLength(
+      getAllCandidates().length
+    );
+    expect(fs.existsSync(path.join(dataDir, "candidates.jsonl"))).toBe(true);
+  });
+
+  it("should persist writes across repository instances", () => {
+    const first = createRepository({ dataDir, persist: true });
+    const job = { ...first.getAllJobs()[0], id: "persisted-job" };
+    first.saveJob(job);
+    first.deleteCandidate("candidate-1");
+
+    const second = createRepository({ dataDir, persist: true });
+    expect(second.getJobById("persisted-job")).toEqual(job);
+    expect(second.getCandidateById("candidate-1")).toBeUndefined();
+  });
+
+  it("should persist skills taxonomy edits", () => {
+    const first = createRepository({ dataDir, persist: true });
+    const skill = { ...first.getSkillById("react")!, aliases: ["ReactJS"] };
+    first.saveSkill(skill);
+    first.saveSkillRelationship({
+      sourceSkill: "react",
+      targetSkill: "javascript",
+      relationshipType: "prerequisite",
+      strength: 0.95,
+    });
+    first.deleteSkillRelationship({
+      sourceSkill: "react",
+      targetSkill: "vue",
+      relationshipType: "alternative",
+    });
+
+    const second = createRepository({ dataDir, persist: true });
+    expect(second.getSkillById("react")).toEqual(skill);
+    const relationships = second.getAllSkillRelationships();
+    expect(relationships).toContainEqual({
+      sourceSkill: "react",
+      targetSkill: "javascript",
+      relationshipType: "prerequisite",
+      strength: 0.95,
+    });
+    expect(
+      relationships.some(
+        (rel) => rel.sourceSkill === "react" && rel.targetSkill === "vue"
+      )
+    ).toBe(false);
+  });
+
+  it("should not let callers mutate stored records through references", () => {
+    const first = createRepository({ dataDir, persist: true });
+    first.getCandidateById("candidate-1")!.name = "Mutated";
+    first.getAllJobs()[0].title = "Mutated";
+
+    const job = { ...first.getAllJobs()[1], id: "copied-job" };
+    first.saveJob(job);
+    job.title = "Mutated after save";
+    first.deleteCandidate("candidate-2");
+
+    const second = createRepository({ dataDir, persist: true });
+    expect(second.getCandidateById("candidate-1")?.name).not.toBe("Mutated");
+    expect(second.getAllJobs()[0].title).not.toBe("Mutated");
+    expect(second.getJobById("copied-job")?.title).not.toBe(
+      "Mutated after save"
+    );
+  });
+
+  it("should apply seed migrations to an existing skills store once", () => {
+    // The skills as stored before families: no family members or versions
+    const legacy = skills
+      .filter((skill) => !skill.parentSkill)
+      .map((skill) => {
+        const stored = { ...skill, aliases: [...skill.aliases] };
+        delete stored.versions;
+        if (skill.id === "react") stored.aliases.push("React Native");
+        if (skill.id === "angular") stored.aliases.push("AngularJS");
+        return stored;
+      });
+    fs.writeFileSync(
+      path.join(dataDir, "skills.jsonl"),
+      legacy.map((skill) => JSON.stringify(skill)).join("\n")
+    );
+
+    const first = createRepository({ dataDir, persist: true });
+    expect(first.getSkillById("react")?.aliases).not.toContain("React Native");
+    expect(first.getSkillById("angular")?.aliases).not.toContain("AngularJS");
+    expect(first.getSkillById("python")?.versions).toEqual({ min: 3 });
+    expect(first.getSkillById("python2")?.parentSkill).toBe("python");
+    first.deleteSkill("react-native");
+
+    const second = createRepository({ dataDir, persist: true });
+    expect(second.getSkillById("react-native")).toBeUndefined();
+    expect(second.getSkillById("angularjs")).toBeDefined();
+  });
+
+  it("should not migrate a store seeded with the current skills", () => {
+    const first = createRepository({ dataDir, persist: true });
+    first.deleteSkill("python2");
+
+    const second = createRepository({ dataDir, persist: true });
+    expect(second.getSkillById("python2")).toBeUndefined();
+  });
+});
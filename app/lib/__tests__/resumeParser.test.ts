@@ -0,0 +1,126 @@
+import { resumeParser } from "../resumeParser";
+
+const asOf = new Date(2024, 5, 15); // June 2024
+
+const plainResume = `Jane Doe
+jane.doe@example.com | +1 555 123 4567
+
+Summary
+Frontend engineer focused on React and TypeScript.
+
+Work Experience
+Senior Frontend Engineer, Acme Corp
+Jan 2021 – Present
+- Led a team of four building React dashboards
+- Migrated the codebase to TypeScript
+
+Software Engineer, Globex
+Mar 2018 - Dec 2020
+- Built Node.js services backed by PostgreSQL
+- Maintained React components
+
+Education
+B.S. in Computer Science
+State University, 2017
+`;
+
+const markdownResume = `# John Smith
+
+john@example.com
+
+## Experience
+
+### Machine Learning Engineer — DataCo (2019 – 2023)
+
+* Trained **PyTorch** models and served them with Docker
+
+## Projects
+
+* Kubernetes operator side project
+
+## Education
+
+* Master of Science in Statistics, Tech Institute, 2018
+`;
+
+describe("resumeParser", () => {
+  it("should build a candidate from a plain-text resume", () => {
+    const { candidate, warnings } = resumeParser.parseResume(plainResume, {
+      asOf,
+      candidateId: "parsed-1",
+    });
+
+    expect(warnings).toEqual([]);
+    expect(candidate.id).toBe("parsed-1");
+    expect(candidate.name).toBe("Jane Doe");
+    expect(candidate.email).toBe("jane.doe@example.com");
+    expect(candidate.summary).toContain("Frontend engineer");
+
+    const react = candidate.experience.find((exp) => exp.skillId === "react");
+    // Jan 2021 - Jun 2024 (42) plus Mar 2018 - Dec 2020 (34)
+    expect(react?.duration).toBe(76);
+    expect(react?.complexityLevel).toBe(4);
+    expect(react?.hasLeadershipRole).toBe(true);
+
+    const postgres = candidate.experience.find(
+      (exp) => exp.skillId === "postgresql"
+    );
+    expect(postgres?.duration).toBe(34);
+    expect(postgres?.complexityLevel).toBe(3);
+
+    expect(candidate.skills).toEqual(
+      expect.arrayContaining(["react", "typescript", "nodejs", "postgresql"])
+    );
+    expect(candidate.education).toEqual([
+      {
+        degree: "Bachelor of Science",
+        institution: "State University",
+        graduationYear: 2017,
+        field: "Computer Science",
+      },
+    ]);
+  });
+
+  it("should parse Markdown resumes and skip unrelated sections", () => {
+    const { candidate } = resumeParser.parseResume(markdownResume, { asOf });
+
+    expect(candidate.name).toBe("John Smith");
+    const pytorch = candidate.experience.find(
+      (exp) => exp.skillId === "pytorch"
+    );
+    expect(pytorch?.duration).toBe(48);
+    expect(candidate.skills).not.toContain("kubernetes");
+    expect(candidate.education[0]).toMatchObject({
+      degree: "Master of Science",
+      institution: "Tech Institute",
+      graduationYear: 2018,
+      field: "Statistics",
+    });
+  });
+
+  it("should recognise abbreviated degrees regardless of case", () => {
+    const { candidate } = resumeParser.parseResume(
+      `Sam Lee
+
+Education
+BA in History, State University, 2012
+M.A. in Economics, Tech Institute, 2014
+`,
+      { asOf }
+    );
+
+    expect(candidate.education.map((entry) => entry.degree)).toEqual([
+      "Bachelor of Arts",
+      "Master of Arts",
+    ]);
+  });
+
+  it("should compute durations from date range expressions", () => {
+    expect(resumeParser.parseDurationInMonths("Jan 2019 – Dec 2019")).toBe(12);
+    expect(resumeParser.parseDurationInMonths("03/2017 to 02/2018")).toBe(12);
+    expect(resumeParser.parseDurationInMonths("Jan 2019 - Present", asOf)).toBe(
+      66
+    );
+    expect(resumeParser.parseDurationInMonths("no dates here")).toBeNull();
+  });
+});
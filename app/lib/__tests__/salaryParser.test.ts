@@ -0,0 +1,88 @@
+import { salaryParser } from "../salaryParser";
+
+describe("salaryParser", () => {
+  it("should parse currency, amounts and pay period from salary text", () => {
+    expect(salaryParser.parseSalary("$120,000 - $150,000")).toEqual({
+      min: 120000,
+      max: 150000,
+      currency: "USD",
+      period: "year",
+    });
+    expect(salaryParser.parseSalary("€70k-85k per annum")).toEqual({
+      min: 70000,
+      max: 85000,
+      currency: "EUR",
+      period: "year",
+    });
+    expect(salaryParser.parseSalary("C$45.50/hr")).toEqual({
+      min: 45.5,
+      max: 45.5,
+      currency: "CAD",
+      period: "hour",
+    });
+    expect(salaryParser.parseSalary("GBP 4.500 - 5.000 monthly")).toEqual({
+      min: 4500,
+      max: 5000,
+      currency: "GBP",
+      period: "month",
+    });
+    expect(salaryParser.parseSalary("$60 - $80")?.period).toBe("hour");
+    expect(salaryParser.parseSalary("Competitive")).toBeNull();
+  });
+
+  it("should read only the first amount or range as the salary", () => {
+    expect(salaryParser.parseSalary("$120k-$150k + 401(k)")).toEqual({
+      min: 120000,
+      max: 150000,
+      currency: "USD",
+      period: "year",
+    });
+    expect(salaryParser.parseSalary("$90,000 to $110,000 + 10% bonus")).toEqual(
+      {
+        min: 90000,
+        max: 110000,
+        currency: "USD",
+        period: "year",
+      }
+    );
+    expect(salaryParser.parseSalary("£500 day rate, 3 days a week")).toEqual({
+      min: 500,
+      max: 500,
+      currency: "GBP",
+      period: "day",
+    });
+    expect(salaryParser.parseSalary("Competitive + 401(k) match")).toBeNull();
+    expect(salaryParser.parseSalary("Up to 5 weeks PTO")).toBeNull();
+    expect(salaryParser.parseSalary("120,000 - 150,000")).toBeNull();
+  });
+
+  it("should compare annualized, converted salaries with expectations", () => {
+    const hourly = salaryParser.parseSalary("$50 - $70 an hour");
+    expect(hourly && salaryParser.toAnnual(hourly)).toEqual({
+      min: 104000,
+      max: 145600,
+      currency: "USD",
+      period: "year",
+    });
+
+    const euros = salaryParser.parseSalary("€100,000 - €120,000");
+    expect(
+      salaryParser.calculateCompensationFit(euros, { salaryMin: 100000 })
+    ).toMatchObject({
+      status: "meets",
+      score: 1,
+      offeredMin: 108000,
+      currency: "USD",
+    });
+    expect(
+      salaryParser.calculateCompensationFit(hourly, { salaryMin: 150000 })
+    ).toMatchObject({ status: "below", score: 0.73 });
+    expect(
+      salaryParser.calculateCompensationFit(hourly, {
+        salaryMin: 100000,
+        currency: "XYZ",
+      })
+    ).toBeNull();
+    expect(salaryParser.calculateCompensationFit(hourly, {})).toBeNull();
+  });
+});
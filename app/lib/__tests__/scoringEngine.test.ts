@@ -1,4 +1,4 @@
-import { scoringEngine } from "../scoringEngine";
+import { scoringEngine, createScoringEngine } from "../scoringEngine";
 import { getAllJobs } from "../../data/sampleJobs";
 import { getAllCandidates } from "../../data/sampleCandidates";
 
@@ -14,4 +14,345 @@ describe("scoringEngine", () => {
     expect(score).toHaveProperty("potentialScore");
     expect(score).toHaveProperty("breakdown");
   });
+
+  it("should apply and echo back the job's weight profile", () => {
+    const job = { ...getAllJobs()[0], weightProfile: "junior" };
+    const candidate = getAllCandidates()[0];
+    const score = scoringEngine.calculateMatchingScore(candidate, job);
+    expect(score.weightProfile).toBe("junior");
+    expect(score.weights).toEqual(scoringEngine.getWeightProfile("junior"));
+
+    const defaultScore = scoringEngine.calculateMatchingScore(candidate, {
+      ...job,
+      weightProfile: undefined,
+    });
+    expect(defaultScore.weightProfile).toBe("default");
+    expect(defaultScore.weights.skillMatch).toBe(0.4);
+  });
+
+  it("should reject unknown profiles and weights that do not sum to 1", () => {
+    const engine = createScoringEngine();
+    const job = { ...getAllJobs()[0], weightProfile: "missing" };
+    expect(() =>
+      engine.calculateMatchingScore(getAllCandidates()[0], job)
+    ).toThrow(/invalid weight profile/);
+    for (const name of ["toString", "constructor", "__proto__"]) {
+      expect(() =>
+        engine.calculateMatchingScore(getAllCandidates()[0], {
+          ...job,
+          weightProfile: name,
+        })
+      ).toThrow(/invalid weight profile/);
+      expect(engine.getWeightProfile(name)).toBeUndefined();
+    }
+
+    expect(() =>
+      engine.registerWeightProfile("broken", {
+        skillMatch: 0.5,
+        experience: 0.5,
+        transferableSkills: 0.5,
+        potential: 0,
+      })
+    ).toThrow(/sum to 1/);
+
+    engine.registerWeightProfile("skills-only", {
+      skillMatch: 1,
+      experience: 0,
+      transferableSkills: 0,
+      potential: 0,
+    });
+    expect(engine.getWeightProfiles()).toHaveProperty("skills-only");
+  });
+
+  it("should weigh skill matches by proficiency against the required level", () => {
+    const job = {
+      ...getAllJobs()[0],
+      requirements: [
+        {
+          skillId: "react",
+          minDuration: 12,
+          requiredLevel: 4,
+          isRequired: true,
+        },
+      ],
+    };
+    const base = {
+      ...getAllCandidates()[0],
+      skills: ["react"],
+      experience: [],
+    };
+    const novice = {
+      ...base,
+      proficiencies: [{ skillId: "react", selfReportedLevel: 2 }],
+    };
+    const expert = {
+      ...base,
+      proficiencies: [
+        { skillId: "react", selfReportedLevel: 5, evidenceLevel: 5 },
+      ],
+    };
+
+    expect(scoringEngine.getSkillLevel("react", novice)).toBe(1);
+    expect(scoringEngine.getSkillLevel("react", expert)).toBe(5);
+    expect(scoringEngine.getSkillLevel("vue", expert)).toBe(0);
+
+    const noviceScore = scoringEngine.calculateMatchingScore(novice, job);
+    const expertScore = scoringEngine.calculateMatchingScore(expert, job);
+    expect(expertScore.skillMatchScore).toBeGreaterThan(
+      noviceScore.skillMatchScore
+    );
+    expect(noviceScore.breakdown.levelDeltas).toEqual([
+      { skillId: "react", requiredLevel: 4, candidateLevel: 1, delta: -3 },
+    ]);
+    expect(expertScore.breakdown.levelDeltas[0].delta).toBe(1);
+  });
+
+  it("should discount experience that ended long ago by category half-life", () => {
+    const asOf = new Date(2024, 5, 15); // June 2024
+    const experience = {
+      id: "exp",
+      skillId: "react",
+      duration: 60,
+      complexityLevel: 4,
+      hasLeadershipRole: false,
+      technologies: ["React"],
+    };
+
+    const stale = scoringEngine.calculateRecencyAdjustment(
+      { ...experience, startDate: "2013-06", endDate: "2018-06" },
+      asOf
+    );
+    expect(stale).toEqual({
+      effectiveDuration: 8, // three Frontend half-lives of 24 months
+      discountedMonths: 52,
+      monthsSinceUsed: 72,
+    });
+
+    const database = scoringEngine.calculateRecencyAdjustment(
+      {
+        ...experience,
+        skillId: "postgresql",
+        startDate: "2013-06",
+        endDate: "2018-06",
+      },
+      asOf
+    );
+    expect(database.effectiveDuration).toBeGreaterThan(stale.effectiveDuration);
+
+    expect(
+      scoringEngine.calculateRecencyAdjustment(
+        { ...experience, startDate: "2019-07" },
+        asOf
+      ).discountedMonths
+    ).toBe(0);
+    expect(scoringEngine.calculateRecencyAdjustment(experience, asOf)).toEqual({
+      effectiveDuration: 60,
+      discountedMonths: 0,
+    });
+  });
+
+  it("should measure recency from a later lastUsed date", () => {
+    const asOf = new Date(2024, 5, 15); // June 2024
+    const experience = {
+      id: "exp",
+      skillId: "react",
+      duration: 60,
+      complexityLevel: 4,
+      hasLeadershipRole: false,
+      technologies: ["React"],
+    };
+
+    const refreshed = scoringEngine.calculateRecencyAdjustment(
+      { ...experience, startDate: "2013-06", endDate: "2018-06" },
+      asOf,
+      "2024-06"
+    );
+    expect(refreshed).toEqual({
+      effectiveDuration: 60,
+      discountedMonths: 0,
+      monthsSinceUsed: 0,
+    });
+
+    // An earlier lastUsed does not override the experience's end date
+    expect(
+      scoringEngine.calculateRecencyAdjustment(
+        { ...experience, startDate: "2013-06", endDate: "2018-06" },
+        asOf,
+        "2016-01"
+      ).monthsSinceUsed
+    ).toBe(72);
+
+    // Undated experience decays from lastUsed
+    expect(
+      scoringEngine.calculateRecencyAdjustment(experience, asOf, "2022-06")
+    ).toEqual({
+      effectiveDuration: 30,
+      discountedMonths: 30,
+      monthsSinceUsed: 24,
+    });
+  });
+
+  it("should read date-only asOf values as UTC dates", () => {
+    // jest.config.js runs the suite in America/New_York, where UTC midnight
+    // on 1 January is still 31 December
+    const adjustment = scoringEngine.calculateRecencyAdjustment(
+      {
+        id: "exp",
+        skillId: "postgresql",
+        duration: 24,
+        complexityLevel: 3,
+        hasLeadershipRole: false,
+        technologies: ["PostgreSQL"],
+        startDate: "2022-01",
+        endDate: "2024-01",
+      },
+      new Date("2025-01-01")
+    );
+    expect(adjustment.monthsSinceUsed).toBe(12);
+  });
+
+  it("should treat a zero minimum duration as met", () => {
+    const candidate = {
+      ...getAllCandidates()[0],
+      experience: [
+        {
+          id: "exp-new",
+          skillId: "react",
+          duration: 0,
+          complexityLevel: 1,
+          hasLeadershipRole: false,
+          technologies: ["React"],
+        },
+      ],
+    };
+    const result = scoringEngine.calculateExperienceScore(
+      [
+        {
+          skillId: "react",
+          minDuration: 0,
+          requiredLevel: 1,
+          isRequired: true,
+        },
+      ],
+      candidate
+    );
+
+    expect(Number.isFinite(result.score)).toBe(true);
+    expect(result.gaps).toEqual([]);
+  });
+
+  it("should report recency-discounted months on experience gaps", () => {
+    const job = {
+      ...getAllJobs()[0],
+      requirements: [
+        {
+          skillId: "react",
+          minDuration: 48,
+          requiredLevel: 3,
+          isRequired: true,
+        },
+      ],
+    };
+    const candidate = {
+      ...getAllCandidates()[0],
+      skills: ["react"],
+      proficiencies: [],
+      experience: [
+        {
+          id: "exp",
+          skillId: "react",
+          duration: 60,
+          complexityLevel: 4,
+          hasLeadershipRole: false,
+          technologies: ["React"],
+          startDate: "2008-01",
+          endDate: "2012-12",
+        },
+      ],
+    };
+
+    const score = scoringEngine.calculateMatchingScore(candidate, job, {
+      asOf: new Date(2024, 5, 15),
+    });
+    const [gap] = score.breakdown.experienceGaps;
+    expect(gap.candidateDuration).toBe(60);
+    expect(gap.discountedMonths).toBe(59); // 138 months at a 24-month half-life
+    expect(gap.monthsSinceUsed).toBe(138);
+    expect(gap.gap).toBe(48 - (60 - gap.discountedMonths));
+  });
+
+  it("should evaluate date-sensitive indicators against the as-of date", () => {
+    const job = getAllJobs()[0];
+    const candidate = {
+      ...getAllCandidates()[0],
+      education: [
+        {
+          degree: "Bachelor of Science",
+          institution: "State University",
+          graduationYear: 2020,
+          field: "Computer Science",
+        },
+      ],
+    };
+
+    const score2024 = scoringEngine.calculateMatchingScore(candidate, job, {
+      asOf: new Date("2024-06-30"),
+    });
+    const score2030 = scoringEngine.calculateMatchingScore(candidate, job, {
+      asOf: new Date("2030-06-30"),
+    });
+    expect(score2024.asOf).toBe("2024-06-30T00:00:00.000Z");
+    expect(score2024.breakdown.potentialIndicators).toContain(
+      "Recent education"
+    );
+    expect(score2030.breakdown.potentialIndicators).not.toContain(
+      "Recent education"
+    );
+    expect(score2030.potentialScore).toBeLessThan(score2024.potentialScore);
+
+    const frozen = createScoringEngine({
+      clock: () => new Date("2024-06-30"),
+    });
+    expect(frozen.calculateMatchingScore(candidate, job)).toEqual(score2024);
+  });
+
+  it("should report knockout failures without changing the weighted score", () => {
+    const job = getAllJobs()[0];
+    const candidate = {
+      ...getAllCandidates()[0],
+      location: "Toronto, Canada",
+      workAuthorization: ["CA"],
+    };
+    const asOf = new Date("2024-06-30");
+
+    const knockedOut = scoringEngine.calculateMatchingScore(
+      candidate,
+      {
+        ...job,
+        knockouts: {
+          requiredSkills: ["python"],
+          minDegree: "phd",
+          locations: ["Berlin"],
+          workAuthorization: ["DE", "EU"],
+        },
+      },
+      { asOf }
+    );
+    expect(knockedOut.passesKnockouts).toBe(false);
+    expect(
+      knockedOut.breakdown.knockoutFailures.map((failure) => failure.rule)
+    ).toEqual(["requiredSkill", "minDegree", "location", "workAuthorization"]);
+    expect(knockedOut.overallScore).toBe(
+      scoringEngine.calculateMatchingScore(candidate, job, { asOf })
+        .overallScore
+    );
+
+    const remote = scoringEngine.calculateMatchingScore(
+      candidate,
+      { ...job, knockouts: { locations: ["Berlin"], remote: true } },
+      { asOf }
+    );
+    expect(remote.passesKnockouts).toBe(true);
+    expect(remote.breakdown.knockoutFailures).toEqual([]);
+  });
 });
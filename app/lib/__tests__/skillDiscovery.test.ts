@@ -0,0 +1,108 @@
+import { createSkillDiscovery } from "../skillDiscovery";
+import { skillNormalizer } from "../skillNormalizer";
+
+const record = (
+  discovery: ReturnType<typeof createSkillDiscovery>,
+  text: string,
+  source: "resume" | "job" = "resume"
+) =>
+  discovery.recordUnmatchedTerms(
+    skillNormalizer.extractSkillsFromText(text).unmatchedTerms,
+    text,
+    source
+  );
+
+describe("skillDiscovery", () => {
+  const discovery = createSkillDiscovery({
+    clock: () => new Date("2026-01-15T00:00:00Z"),
+  });
+
+  it("should count unmatched terms and phrases with example contexts", () => {
+    record(discovery, "Built desktop apps with Tauri and Svelte Kit.");
+    record(discovery, "We use Tauri for our desktop client.", "job");
+
+    const tauri = discovery
+      .getDiscoveries({ minCount: 2 })
+      .find((d) => d.id === "tauri");
+    expect(tauri).toMatchObject({
+      id: "tauri",
+      term: "Tauri",
+      count: 2,
+      sources: { resume: 1, job: 1 },
+      status: "pending",
+      firstSeen: "2026-01-15T00:00:00.000Z",
+    });
+    expect(tauri?.examples).toHaveLength(2);
+    expect(tauri?.examples[1].context).toContain("for our desktop client");
+
+    const ids = discovery.getDiscoveries({ minCount: 1 }).map((d) => d.id);
+    expect(ids).toContain("svelte kit");
+    expect(ids).not.toContain("with");
+    expect(ids).not.toContain("react");
+  });
+
+  it("should count a term once per document", () => {
+    const [entry] = record(
+      discovery,
+      "Zorblax Zorblax Zorblax. Everyone knows Zorblax."
+    ).filter((d) => d.id === "zorblax");
+
+    expect(entry.count).toBe(1);
+    expect(entry.sources.resume).toBe(1);
+  });
+
+  it("should skip stop words, numbers, e-mail addresses and known skills", () => {
+    const recorded = discovery.recordUnmatchedTerms(
+      ["the", "2019", "jane@example.com", "python", "experience"],
+      "the 2019 jane@example.com python experience",
+      "resume"
+    );
+
+    expect(recorded).toEqual([]);
+  });
+
+  it("should promote a discovery to a new skill", () => {
+    const { discovery: promoted, skill } = discovery.promoteDiscovery("tauri", {
+      category: "Frontend",
+    });
+
+    expect(skill).toMatchObject({ id: "tauri", canonicalName: "Tauri" });
+    expect(promoted).toMatchObject({
+      status: "promoted",
+      resolvedSkillId: "tauri",
+    });
+    expect(skillNormalizer.getSkillById("tauri")?.category).toBe("Frontend");
+    expect(() => discovery.promoteDiscovery("tauri")).toThrow(
+      /already promoted/
+    );
+  });
+
+  it("should add a discovery as an alias of an existing skill", () => {
+    record(discovery, "Server code runs on Bun");
+
+    const { skill } = discovery.aliasDiscovery("bun", "nodejs");
+
+    expect(skill.aliases).toContain("Bun");
+    expect(skillNormalizer.normalizeSkill("bun")).toBe("Node.js");
+  });
+
+  it("should keep counting ignored terms without listing them", () => {
+    discovery.ignoreDiscovery("svelte kit");
+    record(discovery, "Svelte Kit again");
+
+    expect(
+      discovery.getDiscoveries({ minCount: 1 }).map((d) => d.id)
+    ).not.toContain("svelte kit");
+    expect(discovery.getDiscoveries({ status: "ignored" })[0]).toMatchObject({
+      id: "svelte kit",
+      count: 2,
+    });
+  });
+
+  it("should report unknown discoveries", () => {
+    expect(() => discovery.ignoreDiscovery("missing")).toThrow(/not found/);
+    expect(() => discovery.aliasDiscovery("svelte kit", "missing")).toThrow(
+      /already ignored/
+    );
+  });
+});
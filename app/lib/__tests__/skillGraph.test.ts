@@ -0,0 +1,260 @@
+import { repository } from "../repository";
+import { skillGraph } from "../skillGraph";
+import { skillNormalizer } from "../skillNormalizer";
+import { scoringEngine } from "../scoringEngine";
+import { Candidate, JobRequirement } from "../../types/matching";
+
+describe("skillGraph", () => {
+  it("should find a multi-hop path between skills with no direct edge", () => {
+    const distance = skillGraph.getSkillDistance("vue", "angular");
+
+    expect(distance).not.toBeNull();
+    expect(distance?.hops).toBe(2);
+    expect(distance?.path.map((step) => step.to)).toEqual([
+      "javascript",
+      "angular",
+    ]);
+    expect(distance?.path[0].relationshipType).toBe("prerequisite");
+    // 0.8 (vue -> javascript) * 0.6 (javascript -> angular) * 0.8 hop decay
+    expect(distance?.strength).toBeCloseTo(0.384, 3);
+  });
+
+  it("should weaken strength with every hop", () => {
+    const direct = skillGraph.getSkillDistance("react", "javascript");
+    const twoHops = skillGraph.getSkillDistance("vue", "angular");
+
+    expect(direct?.hops).toBe(1);
+    expect(direct?.strength).toBeGreaterThan(twoHops?.strength || 0);
+    expect(skillGraph.getSkillDistance("react", "react")).toEqual({
+      from: "react",
+      to: "react",
+      hops: 0,
+      strength: 1,
+      path: [],
+    });
+  });
+
+  it("should not let a stronger, longer path hide a shorter one", () => {
+    const ids = ["hop-a", "hop-x", "hop-b", "hop-c", "hop-t"];
+    const edges: [string, string, number][] = [
+      ["hop-a", "hop-b", 0.5],
+      ["hop-a", "hop-x", 1],
+      ["hop-x", "hop-b", 1],
+      ["hop-b", "hop-c", 1],
+      ["hop-c", "hop-t", 1],
+    ];
+    ids.forEach((id) =>
+      repository.saveSkill({
+        id,
+        canonicalName: id,
+        aliases: [],
+        category: "Other",
+        relatedSkills: [],
+        difficultyLevel: 1,
+        timeToProficiency: 1,
+      })
+    );
+    edges.forEach(([sourceSkill, targetSkill, strength]) =>
+      repository.saveSkillRelationship({
+        sourceSkill,
+        targetSkill,
+        relationshipType: "related",
+        strength,
+      })
+    );
+    skillNormalizer.rebuildSkillMaps();
+    skillGraph.rebuild();
+
+    try {
+      // hop-a -> hop-x -> hop-b is stronger, but leaves hop-t 4 hops away
+      const distance = skillGraph.getSkillDistance("hop-a", "hop-t");
+      expect(distance?.hops).toBe(3);
+      expect(distance?.path.map((step) => step.to)).toEqual([
+        "hop-b",
+        "hop-c",
+        "hop-t",
+      ]);
+      expect(distance?.strength).toBeCloseTo(0.5 * 0.8 * 0.8, 3);
+    } finally {
+      edges.forEach(([sourceSkill, targetSkill]) =>
+        repository.deleteSkillRelationship({
+          sourceSkill,
+          targetSkill,
+          relationshipType: "related",
+        })
+      );
+      ids.forEach((id) => repository.deleteSkill(id));
+      skillNormalizer.rebuildSkillMaps();
+      skillGraph.rebuild();
+    }
+  });
+
+  it("should treat prerequisite edges as directional", () => {
+    // Express depends on Node.js: knowing Express implies Node.js, while
+    // Node.js only gives a head start on Express
+    const forward = skillGraph.getRelationshipStrength("express", "nodejs");
+    const reverse = skillGraph.getRelationshipStrength("nodejs", "express");
+
+    expect(forward).toBeCloseTo(0.9, 3);
+    expect(reverse).toBeLessThan(forward);
+  });
+
+  it("should return null for unknown or unconnected skills", () => {
+    expect(skillGraph.getSkillDistance("react", "unknown-skill")).toBeNull();
+    expect(skillGraph.getRelationshipStrength("react", "unknown-skill")).toBe(
+      0
+    );
+  });
+
+  it("should give transferable credit scaled by path strength", () => {
+    const requirements: JobRequirement[] = [
+      {
+        skillId: "angular",
+        minDuration: 12,
+        requiredLevel: 3,
+        isRequired: true,
+      },
+    ];
+    const withSkill = (skillId: string): Candidate => ({
+      id: `candidate-${skillId}`,
+      name: "Test Candidate",
+      email: "test@example.com",
+      skills: [skillId],
+      experience: [
+        {
+          id: `exp-${skillId}`,
+          skillId,
+          duration: 24,
+          complexityLevel: 3,
+          hasLeadershipRole: false,
+          technologies: [skillId],
+        },
+      ],
+      education: [],
+      summary: "Frontend developer",
+    });
+
+    const fromVue = scoringEngine.calculateTransferableSkillsScore(
+      requirements,
+      withSkill("vue")
+    );
+    const fromTypescript = scoringEngine.calculateTransferableSkillsScore(
+      requirements,
+      withSkill("typescript")
+    );
+
+    expect(fromVue.score).toBeGreaterThan(0);
+    expect(fromTypescript.score).toBeGreaterThan(fromVue.score);
+  });
+
+  it("should link family members to their parent and siblings", () => {
+    expect(skillGraph.getFamilyStrength("python2", "python")).toBe(0.8);
+    expect(skillGraph.getFamilyStrength("python", "python2")).toBe(0.8);
+    expect(skillGraph.getFamilyStrength("angularjs", "angular")).toBe(0.5);
+    expect(skillGraph.getFamilyStrength("react", "angular")).toBe(0);
+    expect(skillGraph.getSkillDistance("angularjs", "angular")?.path).toEqual([
+      {
+        from: "angularjs",
+        to: "angular",
+        relationshipType: "family",
+        strength: 0.5,
+      },
+    ]);
+  });
+
+  it("should give partial skill match credit for family members", () => {
+    const requirements: JobRequirement[] = [
+      {
+        skillId: "python",
+        minDuration: 12,
+        requiredLevel: 3,
+        isRequired: true,
+      },
+    ];
+    const withSkills = (skills: string[]): Candidate => ({
+      id: "candidate-family",
+      name: "Test Candidate",
+      email: "test@example.com",
+      skills,
+      experience: [],
+      education: [],
+      summary: "Backend developer",
+    });
+
+    const direct = scoringEngine.calculateSkillMatchScore(
+      requirements,
+      withSkills(["python"])
+    );
+    const family = scoringEngine.calculateSkillMatchScore(
+      requirements,
+      withSkills(["python2"])
+    );
+    const unrelated = scoringEngine.calculateSkillMatchScore(
+      requirements,
+      withSkills(["java"])
+    );
+
+    expect(family.score).toBeCloseTo(direct.score * 0.8, 5);
+    expect(family.relatedMatches).toEqual(["python"]);
+    expect(unrelated.score).toBeLessThan(family.score);
+  });
+
+  it("should order a learning path so prerequisites come first", () => {
+    const path = skillGraph.getLearningPath(["python"], "express");
+
+    expect(path?.steps.map((step) => step.skillId)).toEqual([
+      "javascript",
+      "nodejs",
+      "express",
+    ]);
+    expect(path?.steps[2].prerequisites).toEqual(["nodejs"]);
+    // Later steps get a head start from the skills learned before them
+    expect(path?.steps[2].headStartSkillId).toBeDefined();
+    expect(path?.steps[2].estimatedMonths).toBeLessThan(4);
+    expect(path?.totalMonths).toBe(
+      path?.steps.reduce((sum, step) => sum + step.estimatedMonths, 0)
+    );
+  });
+
+  it("should skip prerequisites implied by known skills", () => {
+    // Knowing Express implies Node.js and JavaScript
+    const path = skillGraph.getLearningPath(["express"], "jest");
+
+    expect(path?.steps.map((step) => step.skillId)).toEqual(["jest"]);
+    expect(skillGraph.getLearningPath(["express"], "nodejs")?.steps).toEqual(
+      []
+    );
+    expect(skillGraph.getLearningPath([], "unknown-skill")).toBeNull();
+  });
+
+  it("should measure prerequisite coverage and raise learnability", () => {
+    expect(skillGraph.getPrerequisiteCoverage("express", ["nodejs"])).toBe(1);
+    expect(skillGraph.getPrerequisiteCoverage("express", ["python"])).toBe(0);
+    expect(
+      skillGraph.getPrerequisiteCoverage("javascript", ["python"])
+    ).toBeNull();
+
+    const requirements: JobRequirement[] = [
+      {
+        skillId: "kubernetes",
+        minDuration: 12,
+        requiredLevel: 3,
+        isRequired: true,
+      },
+    ];
+    const withSkill = (skillId: string): Candidate => ({
+      id: `candidate-${skillId}`,
+      name: "Test Candidate",
+      email: "test@example.com",
+      skills: [skillId],
+      experience: [],
+      education: [],
+      summary: "Developer",
+    });
+    const learnability = (skillId: string) =>
+      scoringEngine.calculateExperienceScore(requirements, withSkill(skillId))
+        .gaps[0].learnability;
+
+    expect(learnability("docker")).toBeGreaterThan(learnability("java"));
+  });
+});
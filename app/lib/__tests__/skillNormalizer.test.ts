@@ -1,4 +1,5 @@
-import { skillNormalizer } from "../skillNormalizer";
+import { createSkillNormalizer, skillNormalizer } from "../skillNormalizer";
+import { repository } from "../repository";
 
 describe("skillNormalizer", () => {
   it("should normalize skill aliases to canonical form", () => {
@@ -7,6 +8,63 @@ describe("skillNormalizer", () => {
     expect(skillNormalizer.normalizeSkill("Node")).toBe("Node.js");
   });
 
+  it("should resolve misspelled skills by edit distance", () => {
+    expect(skillNormalizer.normalizeSkill("Kubernets")).toBe("Kubernetes");
+    expect(skillNormalizer.normalizeSkill("Postgress")).toBe("PostgreSQL");
+    expect(skillNormalizer.normalizeSkill("Tensorflw")).toBe("TensorFlow");
+    expect(skillNormalizer.normalizeSkill("Pyhton")).toBe("Python");
+    expect(skillNormalizer.normalizeSkill("Basket weaving")).toBe(
+      "Basket weaving"
+    );
+  });
+
+  it("should not resolve short or distant names", () => {
+    expect(skillNormalizer.findFuzzyMatch("jav")).toBeUndefined();
+    expect(skillNormalizer.findFuzzyMatch("sveltejs")).toBeUndefined();
+    // Ordinary words one edit away from a short skill name stay unmatched
+    expect(skillNormalizer.normalizeSkill("Reach")).toBe("Reach");
+    expect(skillNormalizer.normalizeSkill("Rusty")).toBe("Rusty");
+    expect(skillNormalizer.suggestSkills("Reach")[0]?.skill.id).toBe("react");
+  });
+
+  it("should apply a configurable threshold", () => {
+    const strict = createSkillNormalizer({ fuzzyThreshold: 0.95 });
+
+    expect(strict.normalizeSkill("Kubernets")).toBe("Kubernets");
+  });
+
+  it("should rank suggestions for did-you-mean", () => {
+    const [first] = skillNormalizer.suggestSkills("dockr");
+    expect(first).toMatchObject({ matchedName: "docker" });
+    expect(first.skill.id).toBe("docker");
+
+    const results = skillNormalizer.searchSkills("Kubernets");
+    expect(results[0]).toMatchObject({ matchType: "fuzzy" });
+    expect(results[0].skill.id).toBe("kubernetes");
+  });
+
+  it("should resolve versioned names to the right family member", () => {
+    expect(skillNormalizer.normalizeSkill("Angular 15")).toBe("Angular");
+    expect(skillNormalizer.normalizeSkill("Angular 1.x")).toBe("AngularJS");
+    expect(skillNormalizer.normalizeSkill("Python 3.11")).toBe("Python");
+    expect(skillNormalizer.normalizeSkill("Python 2.7")).toBe("Python 2");
+    expect(skillNormalizer.normalizeSkill("Java 17")).toBe("Java");
+  });
+
+  it("should resolve versions in extracted text but not durations", () => {
+    const result = skillNormalizer.extractSkillsFromText(
+      "Migrated Angular 1.x and Python 2.7 code; 5 years of Python 2 years ago"
+    );
+
+    expect(
+      result.mentions.map((mention) => [mention.text, mention.skillId])
+    ).toEqual([
+      ["Angular 1.x", "angularjs"],
+      ["Python 2.7", "python2"],
+      ["Python", "python"],
+    ]);
+  });
+
   it("should extract skills from text", () => {
     const text = "Experienced in React, Node.js, and TypeScript.";
     const result = skillNormalizer.extractSkillsFromText(text);
@@ -14,7 +72,85 @@ describe("skillNormalizer", () => {
     expect(result.skills).toContain("Node.js");
     expect(result.skills).toContain("TypeScript");
     expect(result.confidence).toBeGreaterThan(0);
-    expect(result.matchedTerms).toHaveLength(4); // react, js, typescript, node.js
+    expect(result.matchedTerms).toEqual(["react", "node.js", "typescript"]);
     expect(result.unmatchedTerms.length).toBeGreaterThan(0);
   });
+
+  it("should only match whole words", () => {
+    const result = skillNormalizer.extractSkillsFromText(
+      "Wrote JavaScript tests and Python scripts"
+    );
+
+    expect(result.skills).toEqual(["JavaScript", "Python"]);
+    expect(result.skills).not.toContain("Java");
+    expect(result.skills).not.toContain("TypeScript");
+  });
+
+  it("should keep punctuation that belongs to skill names", () => {
+    repository.saveSkill({
+      id: "cpp",
+      canonicalName: "C++",
+      aliases: ["CPP"],
+      category: "Backend",
+      relatedSkills: [],
+      difficultyLevel: 4,
+      timeToProficiency: 12,
+    });
+    skillNormalizer.rebuildSkillMaps();
+
+    const result = skillNormalizer.extractSkillsFromText(
+      "Ported C++ services to Node.js, skipping C entirely."
+    );
+
+    expect(result.skills).toEqual(["C++", "Node.js"]);
+  });
+
+  it("should prefer the longest multi-word phrase", () => {
+    const result = skillNormalizer.extractSkillsFromText(
+      "Deployed React Native apps on Amazon Web Services"
+    );
+
+    expect(result.mentions.map((mention) => mention.text)).toEqual([
+      "React Native",
+      "Amazon Web Services",
+    ]);
+    expect(result.skills).toEqual(["React Native", "AWS"]);
+  });
+
+  it("should report negated mentions separately", () => {
+    const result = skillNormalizer.extractSkillsFromText(
+      "No experience with Kubernetes or Docker, but strong AWS skills. " +
+        "Not only Python but also Vue."
+    );
+
+    expect(result.skills).toEqual(["AWS", "Python", "Vue.js"]);
+    expect(result.negatedSkills).toEqual(["Kubernetes", "Docker"]);
+  });
+
+  it("should return character offsets for each mention", () => {
+    const text = "Knows Go and React; uses react daily";
+    const result = skillNormalizer.extractSkillsFromText(text);
+
+    expect(result.mentions).toEqual([
+      {
+        skillId: "react",
+        skillName: "React",
+        text: "React",
+        start: 13,
+        end: 18,
+        negated: false,
+      },
+      {
+        skillId: "react",
+        skillName: "React",
+        text: "react",
+        start: 25,
+        end: 30,
+        negated: false,
+      },
+    ]);
+    result.mentions.forEach((mention) =>
+      expect(text.slice(mention.start, mention.end)).toBe(mention.text)
+    );
+  });
 });
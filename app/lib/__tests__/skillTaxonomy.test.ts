@@ -0,0 +1,134 @@
+import { skillTaxonomy } from "../skillTaxonomy";
+import { repository } from "../repository";
+import { skillGraph } from "../skillGraph";
+import { skillNormalizer } from "../skillNormalizer";
+import { taxonomyValidator } from "../taxonomyValidator";
+import { Skill } from "../../types/matching";
+
+const svelte: Skill = {
+  id: "svelte",
+  canonicalName: "Svelte",
+  aliases: ["SvelteJS"],
+  category: "Frontend",
+  relatedSkills: ["javascript"],
+  difficultyLevel: 2,
+  timeToProficiency: 3,
+};
+
+describe("skillTaxonomy", () => {
+  it("should add skills and relationships without a restart", () => {
+    skillTaxonomy.addSkill(svelte);
+    skillTaxonomy.addRelationship({
+      sourceSkill: "svelte",
+      targetSkill: "javascript",
+      relationshipType: "prerequisite",
+      strength: 0.8,
+    });
+
+    expect(skillNormalizer.normalizeSkill("sveltejs")).toBe("Svelte");
+    expect(skillNormalizer.getSkillById("svelte")).toEqual(svelte);
+    expect(skillGraph.getPrerequisites("svelte")).toHaveLength(1);
+    expect(() => skillTaxonomy.addSkill(svelte)).toThrow(/already exists/);
+  });
+
+  it("should update aliases and rebuild the normalizer", () => {
+    skillTaxonomy.updateSkill({ ...svelte, aliases: ["Svelte.js"] });
+
+    expect(skillNormalizer.normalizeSkill("svelte.js")).toBe("Svelte");
+    expect(skillNormalizer.searchSkills("sveltejs")[0].matchType).toBe("fuzzy");
+  });
+
+  it("should reject changes that introduce taxonomy errors", () => {
+    expect(() =>
+      skillTaxonomy.addSkill({ ...svelte, id: "sveltekit", aliases: ["JS"] })
+    ).toThrow(/Invalid taxonomy change.*"js"/);
+    expect(() =>
+      skillTaxonomy.addRelationship({
+        sourceSkill: "javascript",
+        targetSkill: "svelte",
+        relationshipType: "prerequisite",
+        strength: 0.5,
+      })
+    ).toThrow(/cycle/);
+
+    expect(repository.getSkillById("sveltekit")).toBeUndefined();
+    expect(skillGraph.getPrerequisites("javascript")).toEqual([]);
+  });
+
+  it("should only delete skills that nothing references", () => {
+    expect(() => skillTaxonomy.deleteSkill("react")).toThrow(/in use/);
+
+    expect(skillTaxonomy.deleteSkill("svelte")).toEqual({
+      skillId: "svelte",
+      relationshipsRemoved: 1,
+    });
+    expect(skillNormalizer.getSkillById("svelte")).toBeUndefined();
+    expect(
+      skillNormalizer.getSkillById("javascript")?.relatedSkills
+    ).not.toContain("svelte");
+  });
+
+  it("should merge one skill into another and rewrite references", () => {
+    const usingTensorflow = repository
+      .getAllCandidates()
+      .filter((candidate) => candidate.skills.includes("tensorflow"));
+
+    const result = skillTaxonomy.mergeSkills("tensorflow", "pytorch");
+
+    expect(result.mergedSkillId).toBe("tensorflow");
+    expect(result.candidatesUpdated).toBe(usingTensorflow.length);
+    expect(result.jobsUpdated).toBeGreaterThan(0);
+    expect(result.skill.aliases).toEqual(
+      expect.arrayContaining(["TensorFlow", "TF"])
+    );
+
+    expect(skillNormalizer.getSkillById("tensorflow")).toBeUndefined();
+    expect(skillNormalizer.normalizeSkill("tensorflow")).toBe("PyTorch");
+    usingTensorflow.forEach((candidate) => {
+      const updated = repository.getCandidateById(candidate.id);
+      expect(updated?.skills).toContain("pytorch");
+      expect(updated?.skills).not.toContain("tensorflow");
+      expect(
+        updated?.experience.some((exp) => exp.skillId === "tensorflow")
+      ).toBe(false);
+    });
+    expect(
+      repository
+        .getAllJobs()
+        .some((job) =>
+          job.requirements.some((req) => req.skillId === "tensorflow")
+        )
+    ).toBe(false);
+
+    // The tensorflow <-> pytorch alternative edge would now be a self-loop
+    expect(
+      repository
+        .getAllSkillRelationships()
+        .some((rel) => rel.sourceSkill === rel.targetSkill)
+    ).toBe(false);
+    expect(() => skillTaxonomy.mergeSkills("pytorch", "pytorch")).toThrow(
+      /Invalid merge/
+    );
+  });
+
+  it("should re-parent and persist family members when merging a family root", () => {
+    skillTaxonomy.addSkill({
+      id: "cpython",
+      canonicalName: "CPython",
+      aliases: [],
+      category: "Backend",
+      relatedSkills: [],
+      difficultyLevel: 2,
+      timeToProficiency: 3,
+    });
+
+    skillTaxonomy.mergeSkills("python", "cpython");
+
+    expect(repository.getSkillById("python2")?.parentSkill).toBe("cpython");
+    expect(
+      taxonomyValidator
+        .validateTaxonomy()
+        .issues.filter((issue) => issue.code === "DANGLING_PARENT_SKILL")
+    ).toEqual([]);
+  });
+});
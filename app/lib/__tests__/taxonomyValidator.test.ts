@@ -0,0 +1,153 @@
+import { taxonomyValidator } from "../taxonomyValidator";
+import { Skill, SkillRelationship } from "../../types/matching";
+
+const skill = (id: string, overrides: Partial<Skill> = {}): Skill => ({
+  id,
+  canonicalName: id.charAt(0).toUpperCase() + id.slice(1),
+  aliases: [],
+  category: "Programming",
+  relatedSkills: [],
+  difficultyLevel: 3,
+  timeToProficiency: 4,
+  ...overrides,
+});
+
+const prerequisite = (
+  sourceSkill: string,
+  targetSkill: string
+): SkillRelationship => ({
+  sourceSkill,
+  targetSkill,
+  relationshipType: "prerequisite",
+  strength: 0.8,
+});
+
+describe("taxonomyValidator", () => {
+  it("should find no errors in the bundled taxonomy", () => {
+    const result = taxonomyValidator.validateTaxonomy();
+
+    expect(result.issues.filter((issue) => issue.severity === "error")).toEqual(
+      []
+    );
+    expect(result.valid).toBe(true);
+    // relatedSkills still name ecosystem skills that have no entry yet
+    expect(
+      result.issues.some(
+        (issue) =>
+          issue.code === "DANGLING_RELATED_SKILL" &&
+          issue.message.includes('"redux"')
+      )
+    ).toBe(true);
+    // ...but skills added since the validator exists introduce none
+    expect(
+      result.issues.filter(
+        (issue) =>
+          issue.code === "DANGLING_RELATED_SKILL" &&
+          issue.skillIds.includes("spring")
+      )
+    ).toEqual([]);
+  });
+
+  it("should report dangling references, self-loops and asymmetry", () => {
+    const result = taxonomyValidator.validateTaxonomy(
+      [
+        skill("react", { relatedSkills: ["redux", "react", "javascript"] }),
+        skill("javascript"),
+      ],
+      [prerequisite("react", "jsx")]
+    );
+    const codes = result.issues.map((issue) => issue.code);
+
+    expect(codes).toEqual(
+      expect.arrayContaining([
+        "DANGLING_RELATED_SKILL",
+        "SELF_LOOP",
+        "ASYMMETRIC_RELATION",
+        "DANGLING_RELATIONSHIP",
+      ])
+    );
+    expect(result.valid).toBe(false);
+    expect(
+      result.issues.find((issue) => issue.code === "DANGLING_RELATIONSHIP")
+        ?.skillIds
+    ).toEqual(["jsx"]);
+  });
+
+  it("should report duplicate and colliding aliases", () => {
+    const result = taxonomyValidator.validateTaxonomy(
+      [
+        skill("react", { aliases: ["ReactJS", "reactjs"] }),
+        skill("jest", { aliases: ["Testing"] }),
+        skill("cypress", { aliases: ["testing"] }),
+        skill("react"),
+      ],
+      []
+    );
+
+    expect(result.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          code: "DUPLICATE_ALIAS",
+          severity: "warning",
+          skillIds: ["react"],
+        }),
+        expect.objectContaining({
+          code: "ALIAS_COLLISION",
+          severity: "error",
+          skillIds: ["jest", "cypress"],
+        }),
+        expect.objectContaining({ code: "DUPLICATE_SKILL_ID" }),
+      ])
+    );
+  });
+
+  it("should report prerequisite cycles once", () => {
+    const result = taxonomyValidator.validateTaxonomy(
+      [skill("a"), skill("b"), skill("c")],
+      [prerequisite("a", "b"), prerequisite("b", "c"), prerequisite("c", "a")]
+    );
+    const cycles = result.issues.filter(
+      (issue) => issue.code === "PREREQUISITE_CYCLE"
+    );
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].skillIds).toEqual(["a", "b", "c"]);
+    expect(cycles[0].message).toContain("a -> b -> c -> a");
+  });
+
+  it("should report out-of-range difficulty and strength", () => {
+    const result = taxonomyValidator.validateTaxonomy(
+      [skill("a", { difficultyLevel: 7 }), skill("b")],
+      [{ ...prerequisite("a", "b"), strength: 1.5 }]
+    );
+
+    expect(result.issues.map((issue) => issue.code)).toEqual([
+      "DIFFICULTY_OUT_OF_RANGE",
+      "STRENGTH_OUT_OF_RANGE",
+    ]);
+    expect(result.errorCount).toBe(2);
+    expect(result.warningCount).toBe(0);
+  });
+
+  it("should report broken families and overlapping versions", () => {
+    const result = taxonomyValidator.validateTaxonomy(
+      [
+        skill("lang", { versions: { min: 3 } }),
+        skill("lang2", { parentSkill: "lang", versions: { min: 2, max: 3 } }),
+        skill("lang1", { parentSkill: "lang2" }),
+        skill("orphan", { parentSkill: "missing", familyStrength: 2 }),
+        skill("legacy", { versions: { min: 5, max: 4 } }),
+      ],
+      []
+    );
+
+    expect(result.issues.map((issue) => issue.code)).toEqual([
+      "NESTED_FAMILY",
+      "DANGLING_PARENT_SKILL",
+      "STRENGTH_OUT_OF_RANGE",
+      "INVALID_VERSION_RANGE",
+      "OVERLAPPING_VERSIONS",
+    ]);
+    expect(result.issues[4].skillIds).toEqual(["lang", "lang2"]);
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  validateCandidate,
+  validateJob,
+  getValidationErrorBody,
+} from "../validation";
+import { getAllCandidates } from "../../data/sampleCandidates";
+import { getAllJobs } from "../../data/sampleJobs";
+
+describe("validation", () => {
+  it("should accept a well-formed candidate", () => {
+    const candidate = getAllCandidates()[0];
+    const result = validateCandidate(candidate);
+    expect(result.errors).toEqual([]);
+    expect(result.value).toEqual(candidate);
+  });
+
+  it("should reject unknown skill IDs with a dedicated code", () => {
+    const candidate = {
+      ...getAllCandidates()[0],
+      skills: ["react", "cobol"],
+    };
+    const result = validateCandidate(candidate);
+    expect(result.value).toBeNull();
+    expect(result.unknownSkillIds).toEqual(["cobol"]);
+    expect(getValidationErrorBody(result, "candidate").code).toBe(
+      "UNKNOWN_SKILL_ID"
+    );
+  });
+
+  it("should report invalid nested experience and education fields", () => {
+    const candidate = {
+      ...getAllCandidates()[0],
+      email: "not-an-email",
+      experience: [{ id: "exp", skillId: "react", duration: -1 }],
+      education: [{ degree: "BSc", institution: "MIT", field: "CS" }],
+    };
+    const result = validateCandidate(candidate);
+    expect(result.value).toBeNull();
+    expect(result.errors).toEqual(
+      expect.arrayContaining([
+        "email must be a valid email address",
+        "experience[0].duration must be a non-negative number of months",
+        "experience[0].complexityLevel must be an integer from 1 to 5",
+        "education[0].graduationYear must be a valid year",
+      ])
+    );
+  });
+
+  it("should validate job requirement ranges and skill IDs", () => {
+    const job = getAllJobs()[0];
+    expect(validateJob(job).value).toEqual(job);
+
+    const result = validateJob({
+      ...job,
+      requirements: [
+        {
+          skillId: "react",
+          minDuration: -6,
+          requiredLevel: 6,
+          isRequired: true,
+        },
+        {
+          skillId: "fortran",
+          minDuration: 12,
+          requiredLevel: 3,
+          isRequired: false,
+        },
+      ],
+    });
+    expect(result.value).toBeNull();
+    expect(result.errors).toEqual([
+      "requirements[0].minDuration must be a non-negative number of months",
+      "requirements[0].requiredLevel must be an integer from 1 to 5",
+      'requirements[1].skillId references unknown skill "fortran"',
+    ]);
+  });
+
+  it("should validate skill proficiency records against the skills list", () => {
+    const candidate = {
+      ...getAllCandidates()[0],
+      proficiencies: [
+        { skillId: "react", selfReportedLevel: 6 },
+        { skillId: "python", evidenceLevel: 3 },
+        { skillId: "jest", lastUsed: "last year" },
+      ],
+    };
+    const result = validateCandidate(candidate);
+    expect(result.value).toBeNull();
+    expect(result.errors).toEqual([
+      "proficiencies[0].selfReportedLevel must be an integer from 1 to 5",
+      "proficiencies[1].skillId must also be listed in skills",
+      "proficiencies[2].lastUsed must be a date in YYYY-MM or YYYY-MM-DD form",
+    ]);
+  });
+});
@@ -1,7 +1,7 @@
 import OpenAI from "openai";
 import crypto from "crypto";
 
-import { AIContext } from "../types/matching";
+import { AIContext, JobRequirement } from "../types/matching";
 import { config } from "./config";
 
 // Type definitions for better type safety
@@ -82,6 +82,7 @@ interface AIServiceState {
  * - Experience Validation: Assess credibility and complexity of experience claims
  * - Skill Transferability Analysis: Determine how well skills transfer to others
  * - Cultural Fit Assessment: Evaluate alignment with company culture
+ * - Requirement Refinement: Review requirements parsed from job descriptions
  *
  * @example
  * ```typescript
@@ -376,6 +377,13 @@ function createAIServiceInstance() {
     };
   }
 
+  function getMockRequirementRefinement(
+    draftRequirements: JobRequirement[]
+  ): JobRequirement[] {
+    // Without a model there is nothing to refine; keep the deterministic draft
+    return draftRequirements.map((requirement) => ({ ...requirement }));
+  }
+
   // Helper functions
   function calculateSkillSimilarity(skill1: string, skill2: string): number {
     const s1 = skill1.toLowerCase();
@@ -858,6 +866,88 @@ Respond ONLY with valid JSON.`;
     return getMockCulturalFit(candidateExperience, companyCulture, teamSize);
   }
 
+  async function refineJobRequirements(
+    jobDescription: string,
+    draftRequirements: JobRequirement[]
+  ): Promise<JobRequirement[]> {
+    if (state.isMockMode) {
+      return getMockRequirementRefinement(draftRequirements);
+    }
+
+    const prompt = `Review these requirements extracted from a job description:
+
+JOB DESCRIPTION: "${jobDescription}"
+DRAFT REQUIREMENTS: ${JSON.stringify(draftRequirements)}
+
+Provide a JSON response with exactly these fields:
+{
+  "requirements": [
+    {
+      "skillId": "string (use only skill IDs from the draft)",
+      "minDuration": number (minimum months of experience),
+      "requiredLevel": number (1-5, required proficiency),
+      "isRequired": boolean (false for nice-to-have skills),
+      "description": "string (short requirement summary)"
+    }
+  ]
+}
+
+Consider:
+- Whether each skill is truly required or a nice-to-have
+- Years of experience stated or implied by seniority
+- Proficiency level implied by the role and responsibilities
+- Do not invent skills that are not in the draft
+
+Respond ONLY with valid JSON.`;
+
+    const response = await makeOpenAICall(prompt, 800, 0.2);
+
+    if (response.success && response.data) {
+      try {
+        const parsed = validateAndParseJSON(
+          response.data,
+          "requirementRefinement"
+        );
+
+        if (!Array.isArray(parsed.requirements)) {
+          throw new Error("Missing requirements array");
+        }
+
+        const draftSkillIds = new Set(
+          draftRequirements.map((requirement) => requirement.skillId)
+        );
+
+        const refined = (parsed.requirements as Record<string, unknown>[])
+          .filter(
+            (item) =>
+              typeof item.skillId === "string" &&
+              draftSkillIds.has(item.skillId)
+          )
+          .map((item) => ({
+            skillId: item.skillId as string,
+            minDuration: Math.max(0, Number(item.minDuration) || 0),
+            requiredLevel: Math.max(
+              1,
+              Math.min(5, Math.round(Number(item.requiredLevel) || 3))
+            ),
+            isRequired: Boolean(item.isRequired),
+            ...(typeof item.description === "string" && {
+              description: item.description,
+            }),
+          }));
+
+        return refined.length > 0
+          ? refined
+          : getMockRequirementRefinement(draftRequirements);
+      } catch (parseError) {
+        console.error("Failed to parse AI response:", parseError);
+        return getMockRequirementRefinement(draftRequirements);
+      }
+    }
+
+    return getMockRequirementRefinement(draftRequirements);
+  }
+
   function setMockMode(enabled: boolean): void {
     state.isMockMode = enabled;
   }
@@ -882,6 +972,7 @@ Respond ONLY with valid JSON.`;
     generateGapAnalysis,
     analyzeSkillTransferability,
     assessCulturalFit,
+    refineJobRequirements,
     setMockMode,
     getStatus,
   };
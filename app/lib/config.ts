@@ -16,6 +16,10 @@ export const config = {
   apiBaseUrl:
     process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:3000/api",
 
+  // Data Configuration
+  dataDir: process.env.DATA_DIR || ".data",
+  persistData: process.env.NODE_ENV !== "test",
+
   // Environment
   isDevelopment: process.env.NODE_ENV === "development",
   isProduction: process.env.NODE_ENV === "production",
@@ -0,0 +1,402 @@
+import crypto from "crypto";
+
+import { repository } from "./repository";
+import { skillNormalizer } from "./skillNormalizer";
+import { validateCandidate } from "./validation";
+import { Candidate, Experience } from "../types/matching";
+
+// Type definitions for better type safety
+interface CsvColumnMapping {
+  id: string;
+  name: string;
+  email: string;
+  summary: string;
+  skills: string;
+  yearsPrefix: string;
+}
+
+interface CsvImporterConfig {
+  columns: CsvColumnMapping;
+  skillSeparator: RegExp;
+  defaultComplexityLevel: number;
+}
+
+interface CsvImportOptions {
+  columns?: Partial<CsvColumnMapping>;
+  dryRun?: boolean;
+}
+
+type CsvRowStatus = "created" | "updated" | "rejected";
+
+interface CsvRowReport {
+  row: number;
+  status: CsvRowStatus;
+  candidateId?: string;
+  email?: string;
+  reasons: string[];
+  warnings: string[];
+}
+
+interface CsvImportReport {
+  created: number;
+  updated: number;
+  rejected: number;
+  warnings: string[];
+  rows: CsvRowReport[];
+}
+
+/**
+ * Bulk candidate import from CSV spreadsheets.
+ *
+ * Each data row becomes one candidate. Column names are configurable; by
+ * default the importer reads `id`, `name`, `email`, `summary` and `skills`
+ * (semicolon-separated skill names), and every `years_<skill>` column is
+ * turned into an `Experience` for that skill with `duration` in months.
+ * Skill names are resolved through `skillNormalizer.normalizeSkill`.
+ *
+ * Rows are matched to existing candidates by email (case-insensitive). A
+ * match updates that candidate, keeping its ID, education and any experience
+ * the row does not mention; otherwise a new candidate is created. Rows that
+ * fail validation are rejected and the import carries on, so the returned
+ * report always lists every row with its outcome and reasons.
+ *
+ * @example
+ * ```typescript
+ * const report = csvImporter.importCandidates(csvText, {
+ *   columns: { name: "Full Name", skills: "Tech Stack" },
+ * });
+ * ```
+ */
+
+// Create CSV importer with configuration
+export function createCsvImporter(): ReturnType<
+  typeof createCsvImporterInstance
+> {
+  return createCsvImporterInstance();
+}
+
+function createCsvImporterInstance() {
+  // Configuration
+  const config: CsvImporterConfig = {
+    columns: {
+      id: "id",
+      name: "name",
+      email: "email",
+      summary: "summary",
+      skills: "skills",
+      yearsPrefix: "years_",
+    },
+    skillSeparator: /[;\n]/,
+    defaultComplexityLevel: 3,
+  };
+
+  /**
+   * Parse CSV text into rows of fields
+   *
+   * Supports quoted fields containing commas, line breaks and escaped
+   * quotes ("") as described in RFC 4180.
+   *
+   * @param text - The CSV content
+   * @returns Array of rows, each an array of raw field values
+   */
+  function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ",") {
+        row.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows.filter((fields) => fields.some((value) => value.trim()));
+  }
+
+  /**
+   * Import candidates from CSV into the repository
+   *
+   * @param text - The CSV content, with a header row
+   * @param options - Column mapping overrides and dry-run flag
+   * @returns CsvImportReport with the outcome of every row
+   */
+  function importCandidates(
+    text: string,
+    options: CsvImportOptions = {}
+  ): CsvImportReport {
+    const columns = { ...config.columns, ...options.columns };
+    const report: CsvImportReport = {
+      created: 0,
+      updated: 0,
+      rejected: 0,
+      warnings: [],
+      rows: [],
+    };
+
+    const [header, ...records] = parseCsv(text);
+    if (!header) {
+      report.warnings.push("CSV is empty");
+      return report;
+    }
+
+    const headings = header.map((heading) => heading.trim());
+    const columnIndex = (name: string) =>
+      headings.findIndex(
+        (heading) => heading.toLowerCase() === name.toLowerCase()
+      );
+
+    if (columnIndex(columns.email) === -1) {
+      report.warnings.push(`Missing required column "${columns.email}"`);
+      return report;
+    }
+
+    const yearsColumns = resolveYearsColumns(
+      headings,
+      columns.yearsPrefix,
+      report.warnings
+    );
+    const candidatesByEmail = new Map(
+      repository
+        .getAllCandidates()
+        .map((candidate) => [candidate.email.toLowerCase(), candidate])
+    );
+    const rowsByEmail = new Map<string, number>();
+    // IDs taken by earlier rows, so a dry run rejects the same clashes that
+    // saving would
+    const rowsById = new Map<string, number>();
+
+    records.forEach((fields, index) => {
+      const row = index + 2; // header is row 1
+      const cell = (name: string) => {
+        const position = columnIndex(name);
+        return position === -1 ? undefined : (fields[position] || "").trim();
+      };
+
+      const email = cell(columns.email) || "";
+      const reasons: string[] = [];
+      const warnings: string[] = [];
+
+      const previousRow = rowsByEmail.get(email.toLowerCase());
+      if (email && previousRow !== undefined) {
+        report.rows.push({
+          row,
+          status: "rejected",
+          email,
+          reasons: [
+            `Duplicate email, already imported from row ${previousRow}`,
+          ],
+          warnings,
+        });
+        report.rejected++;
+        return;
+      }
+
+      const skillIds = new Set<string>();
+      (cell(columns.skills) || "")
+        .split(config.skillSeparator)
+        .map((name) => name.trim())
+        .filter(Boolean)
+        .forEach((name) => {
+          const skillId = resolveSkillId(name);
+          if (skillId) {
+            skillIds.add(skillId);
+          } else {
+            warnings.push(`Unknown skill "${name}"`);
+          }
+        });
+
+      const experience: Experience[] = [];
+      yearsColumns.forEach(({ position, skillId, heading }) => {
+        const value = (fields[position] || "").trim();
+        if (!value) return;
+
+        const years = Number(value);
+        if (!Number.isFinite(years) || years < 0) {
+          reasons.push(`${heading} must be a non-negative number of years`);
+          return;
+        }
+
+        skillIds.add(skillId);
+        experience.push({
+          id: `exp-${skillId}`,
+          skillId,
+          duration: Math.round(years * 12),
+          complexityLevel: config.defaultComplexityLevel,
+          hasLeadershipRole: false,
+          technologies: [
+            skillNormalizer.getSkillById(skillId)?.canonicalName || skillId,
+          ],
+        });
+      });
+
+      const existing = email
+        ? candidatesByEmail.get(email.toLowerCase())
+        : undefined;
+      const draft = existing
+        ? mergeCandidate(existing, {
+            name: cell(columns.name),
+            summary: cell(columns.summary),
+            skillIds,
+            experience,
+          })
+        : {
+            id:
+              cell(columns.id) ||
+              `candidate-${crypto.randomUUID().slice(0, 8)}`,
+            name: cell(columns.name) || "",
+            email,
+            experience,
+            skills: Array.from(skillIds),
+            education: [],
+            summary: cell(columns.summary) || "",
+          };
+
+      const validation = validateCandidate(draft);
+      reasons.push(...validation.errors);
+
+      if (!existing && validation.value) {
+        const clash = repository.getCandidateById(validation.value.id);
+        const previousIdRow = rowsById.get(validation.value.id);
+        if (previousIdRow !== undefined) {
+          reasons.push(
+            `id ${validation.value.id} already imported from row ${previousIdRow}`
+          );
+        } else if (clash) {
+          reasons.push(
+            `id ${validation.value.id} already belongs to ${clash.email}`
+          );
+        }
+      }
+
+      if (reasons.length > 0 || !validation.value) {
+        report.rows.push({
+          row,
+          status: "rejected",
+          email: email || undefined,
+          reasons,
+          warnings,
+        });
+        report.rejected++;
+        return;
+      }
+
+      if (!options.dryRun) {
+        repository.saveCandidate(validation.value);
+      }
+      rowsByEmail.set(email.toLowerCase(), row);
+      rowsById.set(validation.value.id, row);
+
+      const status: CsvRowStatus = existing ? "updated" : "created";
+      report.rows.push({
+        row,
+        status,
+        candidateId: validation.value.id,
+        email,
+        reasons,
+        warnings,
+      });
+      report[status]++;
+    });
+
+    return report;
+  }
+
+  // Helper methods
+  function resolveSkillId(name: string): string | undefined {
+    const canonicalName = skillNormalizer.normalizeSkill(name);
+    return skillNormalizer.getSkillById(canonicalName.toLowerCase())?.id;
+  }
+
+  function resolveYearsColumns(
+    headings: string[],
+    prefix: string,
+    warnings: string[]
+  ): { position: number; skillId: string; heading: string }[] {
+    const columns: { position: number; skillId: string; heading: string }[] =
+      [];
+
+    headings.forEach((heading, position) => {
+      if (!heading.toLowerCase().startsWith(prefix.toLowerCase())) return;
+
+      const skillName = heading.slice(prefix.length).replace(/_/g, " ");
+      const skillId = resolveSkillId(skillName);
+      if (skillId) {
+        columns.push({ position, skillId, heading });
+      } else {
+        warnings.push(
+          `Column "${heading}" does not match a known skill and was ignored`
+        );
+      }
+    });
+
+    return columns;
+  }
+
+  function mergeCandidate(
+    existing: Candidate,
+    updates: {
+      name?: string;
+      summary?: string;
+      skillIds: Set<string>;
+      experience: Experience[];
+    }
+  ): Candidate {
+    const updatedSkills = new Set(updates.experience.map((exp) => exp.skillId));
+
+    return {
+      ...existing,
+      name: updates.name || existing.name,
+      summary: updates.summary || existing.summary,
+      skills: Array.from(new Set([...existing.skills, ...updates.skillIds])),
+      experience: [
+        ...existing.experience.filter((exp) => !updatedSkills.has(exp.skillId)),
+        ...updates.experience.map((exp) => {
+          const previous = existing.experience.find(
+            (entry) => entry.skillId === exp.skillId
+          );
+          return previous ? { ...previous, duration: exp.duration } : exp;
+        }),
+      ],
+    };
+  }
+
+  // Return the public API
+  return {
+    parseCsv,
+    importCandidates,
+  };
+}
+
+// Export a singleton instance for backward compatibility
+export const csvImporter = createCsvImporter();
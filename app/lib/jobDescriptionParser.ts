@@ -0,0 +1,515 @@
+import crypto from "crypto";
+
+import { skillNormalizer } from "./skillNormalizer";
+import { aiService } from "./aiService";
+import { validateJobRequirement } from "./validation";
+import { Job, JobRequirement } from "../types/matching";
+
+// Type definitions for better type safety
+type JobSection = "required" | "optional" | "responsibilities" | "other";
+
+interface SeniorityProfile {
+  pattern: RegExp;
+  level: number;
+  weightProfile?: string;
+}
+
+interface JobDescriptionParserConfig {
+  sectionHeadings: Record<Exclude<JobSection, "other">, string[]>;
+  maxHeadingLength: number;
+  seniorityProfiles: SeniorityProfile[];
+  defaultLevel: number;
+  defaultMinDurationByLevel: Record<number, number>;
+  optionalDurationFactor: number;
+  levelModifiers: { pattern: RegExp; delta: number }[];
+  numberWords: Record<string, number>;
+}
+
+interface JobDescriptionParseOptions {
+  jobId?: string;
+  title?: string;
+  company?: string;
+  location?: string;
+}
+
+interface JobDescriptionParseResult {
+  job: Job;
+  warnings: string[];
+  unmatchedTerms: string[];
+  aiRefined: boolean;
+}
+
+interface RequirementDraft {
+  requirement: JobRequirement;
+  explicitDuration: boolean;
+  inRequirementSection: boolean;
+}
+
+/**
+ * Job description parser that drafts structured jobs from free text.
+ *
+ * This module reads a job posting and produces a draft `Job` whose
+ * `requirements` array can be reviewed and saved instead of written by hand:
+ * - Splits the text into required ("Must have", "Requirements"), optional
+ *   ("Nice to have", "Bonus", "Preferred") and responsibilities sections,
+ *   including inline forms such as "Bonus: Docker experience"
+ * - Resolves skills on each line through the skill normalizer
+ * - Converts phrases like "3+ years of React" into `minDuration: 36`
+ * - Infers `requiredLevel` from seniority words in the title ("Senior",
+ *   "Lead", "Junior") adjusted by qualifiers such as "expert" or "familiarity"
+ *
+ * `parseJobDescription` is fully deterministic and works without OpenAI.
+ * `parseJobDescriptionWithAI` additionally asks the AI service to review the
+ * draft when it is not running in mock mode.
+ *
+ * @example
+ * ```typescript
+ * const parser = createJobDescriptionParser();
+ * const { job, warnings } = parser.parseJobDescription(postingText, {
+ *   company: "TechCorp Inc.",
+ * });
+ * ```
+ */
+
+// Create job description parser with configuration
+export function createJobDescriptionParser(): ReturnType<
+  typeof createJobDescriptionParserInstance
+> {
+  return createJobDescriptionParserInstance();
+}
+
+const BULLET_PATTERN = /^\s*(?:[-*•▪◦]|\d+\.)\s+/;
+
+function createJobDescriptionParserInstance() {
+  // Configuration
+  const config: JobDescriptionParserConfig = {
+    sectionHeadings: {
+      required: [
+        "must have",
+        "must-have",
+        "must haves",
+        "must-haves",
+        "requirements",
+        "required",
+        "required skills",
+        "required qualifications",
+        "minimum qualifications",
+        "qualifications",
+        "what you'll need",
+        "what you need",
+        "what we're looking for",
+        "you have",
+      ],
+      optional: [
+        "nice to have",
+        "nice-to-have",
+        "nice to haves",
+        "nice-to-haves",
+        "bonus",
+        "bonus points",
+        "preferred",
+        "preferred qualifications",
+        "preferred skills",
+        "pluses",
+        "plus",
+        "good to have",
+      ],
+      responsibilities: [
+        "responsibilities",
+        "key responsibilities",
+        "what you'll do",
+        "what you will do",
+        "your role",
+        "the role",
+        "duties",
+      ],
+    },
+    maxHeadingLength: 40,
+    seniorityProfiles: [
+      {
+        pattern: /\b(lead|principal|staff|architect|head of)\b/i,
+        level: 5,
+        weightProfile: "senior",
+      },
+      { pattern: /\b(senior|sr\.?)\b/i, level: 4, weightProfile: "senior" },
+      {
+        pattern: /\b(junior|jr\.?|entry[- ]level|graduate)\b/i,
+        level: 2,
+        weightProfile: "junior",
+      },
+      {
+        pattern: /\b(intern|internship|trainee|apprentice)\b/i,
+        level: 1,
+        weightProfile: "junior",
+      },
+    ],
+    defaultLevel: 3,
+    // Entry-level roles ask for no minimum; scoring treats 0 months as met
+    defaultMinDurationByLevel: { 1: 0, 2: 6, 3: 12, 4: 24, 5: 36 },
+    optionalDurationFactor: 0.5,
+    levelModifiers: [
+      {
+        pattern: /\b(expert|expertise|deep|advanced|mastery|extensive)\b/i,
+        delta: 1,
+      },
+      {
+        pattern: /\b(familiar|familiarity|exposure|basic|working knowledge)\b/i,
+        delta: -1,
+      },
+    ],
+    numberWords: {
+      one: 1,
+      two: 2,
+      three: 3,
+      four: 4,
+      five: 5,
+      six: 6,
+      seven: 7,
+      eight: 8,
+      nine: 9,
+      ten: 10,
+    },
+  };
+
+  const DURATION_PATTERN = new RegExp(
+    `(\\d+(?:\\.\\d+)?|${Object.keys(config.numberWords).join(
+      "|"
+    )})\\s*\\+?\\s*(?:(?:-|–|to)\\s*\\d+\\s*\\+?\\s*)?(years?|yrs?|months?|mos?)\\b`,
+    "i"
+  );
+
+  /**
+   * Parse a job description into a draft job (deterministic, no AI)
+   *
+   * @param text - The job description text
+   * @param options - Optional ID, title, company and location overrides
+   * @returns JobDescriptionParseResult with the draft job and warnings
+   */
+  function parseJobDescription(
+    text: string,
+    options: JobDescriptionParseOptions = {}
+  ): JobDescriptionParseResult {
+    const warnings: string[] = [];
+    const lines = text.split(/\r?\n/).map((line) => line.trim());
+
+    const title = options.title || findTitle(lines);
+    if (!title) {
+      warnings.push("Could not determine the job title");
+    }
+
+    const seniority = config.seniorityProfiles.find(({ pattern }) =>
+      pattern.test(title)
+    );
+    const baseLevel = seniority ? seniority.level : config.defaultLevel;
+
+    const drafts = new Map<string, RequirementDraft>();
+    const responsibilities: string[] = [];
+    const unmatchedTerms: string[] = [];
+    let hasRequirementSections = false;
+    let current: JobSection = "other";
+
+    for (const rawLine of lines) {
+      if (!rawLine) continue;
+
+      const line = rawLine.replace(/^#{1,6}\s+/, "").replace(/\*\*/g, "");
+      if (!options.title && line === title) continue;
+
+      const heading = matchHeading(line);
+
+      if (heading && heading.rest === "") {
+        current = heading.section;
+        if (current === "required" || current === "optional") {
+          hasRequirementSections = true;
+        }
+        continue;
+      }
+
+      const section = heading ? heading.section : current;
+      const content = (heading ? heading.rest : line)
+        .replace(BULLET_PATTERN, "")
+        .trim();
+
+      if (section === "responsibilities" && BULLET_PATTERN.test(rawLine)) {
+        responsibilities.push(content);
+      }
+
+      if (heading && (section === "required" || section === "optional")) {
+        hasRequirementSections = true;
+      }
+
+      // Classify sentence by sentence so "Python required. AWS is a plus."
+      // yields one required and one optional skill
+      for (const sentence of content.split(/(?<=[.;!?])\s+/)) {
+        const extraction = skillNormalizer.extractSkillsFromText(sentence);
+        unmatchedTerms.push(...extraction.unmatchedTerms);
+
+        for (const skillName of extraction.skills) {
+          const skillId = skillNormalizer.getSkillById(
+            skillName.toLowerCase()
+          )?.id;
+          if (!skillId) continue;
+
+          addRequirement(drafts, {
+            skillId,
+            section,
+            line: sentence,
+            baseLevel,
+          });
+        }
+      }
+    }
+
+    // Without explicit sections every mention is classified line by line;
+    // with sections, skills only mentioned elsewhere count as optional
+    if (hasRequirementSections) {
+      drafts.forEach((draft) => {
+        if (!draft.inRequirementSection) {
+          draft.requirement.isRequired = false;
+        }
+      });
+    }
+
+    const requirements = Array.from(drafts.values()).map((draft) => {
+      const { requirement } = draft;
+      if (!draft.explicitDuration) {
+        const defaultDuration =
+          config.defaultMinDurationByLevel[requirement.requiredLevel] ?? 12;
+        requirement.minDuration = requirement.isRequired
+          ? defaultDuration
+          : Math.round(defaultDuration * config.optionalDurationFactor);
+      }
+      return requirement;
+    });
+
+    if (requirements.length === 0) {
+      warnings.push("No known skills were found in the description");
+    }
+
+    const location = options.location || findLabeledValue(lines, "location");
+    if (!location) {
+      warnings.push("No location found");
+    }
+
+    const salary = findSalary(lines);
+
+    return {
+      job: {
+        id: options.jobId || `job-${crypto.randomUUID().slice(0, 8)}`,
+        title,
+        company: options.company || findLabeledValue(lines, "company"),
+        description: text.trim(),
+        requirements,
+        responsibilities,
+        location,
+        ...(salary && { salary }),
+        ...(seniority?.weightProfile && {
+          weightProfile: seniority.weightProfile,
+        }),
+      },
+      warnings,
+      unmatchedTerms,
+      aiRefined: false,
+    };
+  }
+
+  /**
+   * Parse a job description and refine the draft with the AI service
+   *
+   * Falls back to the deterministic draft in mock mode or when the AI
+   * response cannot be used.
+   *
+   * @param text - The job description text
+   * @param options - Optional ID, title, company and location overrides
+   * @returns JobDescriptionParseResult with the (possibly refined) draft job
+   */
+  async function parseJobDescriptionWithAI(
+    text: string,
+    options: JobDescriptionParseOptions = {}
+  ): Promise<JobDescriptionParseResult> {
+    const result = parseJobDescription(text, options);
+
+    if (
+      aiService.getStatus().isMockMode ||
+      result.job.requirements.length === 0
+    ) {
+      return result;
+    }
+
+    try {
+      const refined = await aiService.refineJobRequirements(
+        result.job.description,
+        result.job.requirements
+      );
+
+      const validRequirements = refined
+        .map((requirement) => validateJobRequirement(requirement).value)
+        .filter(Boolean) as JobRequirement[];
+
+      if (validRequirements.length > 0) {
+        return {
+          ...result,
+          job: { ...result.job, requirements: validRequirements },
+          aiRefined: true,
+        };
+      }
+
+      result.warnings.push("AI refinement returned no usable requirements");
+    } catch (error) {
+      console.error("AI requirement refinement failed:", error);
+      result.warnings.push("AI refinement failed; using deterministic draft");
+    }
+
+    return result;
+  }
+
+  /**
+   * Extract a minimum duration in months from a phrase
+   *
+   * @param text - Text such as "3+ years of React" or "six months"
+   * @returns Duration in months, or null if no duration was found
+   */
+  function parseMinDuration(text: string): number | null {
+    const match = text.match(DURATION_PATTERN);
+    if (!match) return null;
+
+    const amount =
+      config.numberWords[match[1].toLowerCase()] ?? parseFloat(match[1]);
+    const isMonths = /^mo/i.test(match[2]);
+
+    return Math.round(isMonths ? amount : amount * 12);
+  }
+
+  // Helper methods
+  function matchHeading(
+    line: string
+  ): { section: Exclude<JobSection, "other">; rest: string } | null {
+    const colonIndex = line.indexOf(":");
+    const label = (colonIndex >= 0 ? line.slice(0, colonIndex) : line)
+      .replace(BULLET_PATTERN, "")
+      .trim()
+      .toLowerCase();
+    const rest = colonIndex >= 0 ? line.slice(colonIndex + 1).trim() : "";
+
+    if (!label || label.length > config.maxHeadingLength) return null;
+
+    for (const [section, headings] of Object.entries(
+      config.sectionHeadings
+    ) as [Exclude<JobSection, "other">, string[]][]) {
+      if (headings.includes(label)) {
+        return { section, rest };
+      }
+    }
+
+    return null;
+  }
+
+  function classifyLine(section: JobSection, content: string): boolean {
+    if (section === "required") return true;
+    if (section === "optional") return false;
+    return !/\b(nice to have|bonus|preferred|a plus|is a plus|optional)\b/i.test(
+      content
+    );
+  }
+
+  function addRequirement(
+    drafts: Map<string, RequirementDraft>,
+    {
+      skillId,
+      section,
+      line,
+      baseLevel,
+    }: {
+      skillId: string;
+      section: JobSection;
+      line: string;
+      baseLevel: number;
+    }
+  ): void {
+    const isRequired = classifyLine(section, line);
+    const inRequirementSection =
+      section === "required" || section === "optional";
+    const duration = parseMinDuration(line);
+    const modifier = config.levelModifiers.find(({ pattern }) =>
+      pattern.test(line)
+    );
+    const requiredLevel = Math.max(
+      1,
+      Math.min(5, baseLevel + (modifier ? modifier.delta : 0))
+    );
+
+    const existing = drafts.get(skillId);
+
+    if (!existing) {
+      drafts.set(skillId, {
+        requirement: {
+          skillId,
+          minDuration: duration ?? 0,
+          requiredLevel,
+          isRequired,
+          description: line,
+        },
+        explicitDuration: duration !== null,
+        inRequirementSection,
+      });
+      return;
+    }
+
+    // A skill mentioned in several places keeps the strictest reading
+    const { requirement } = existing;
+    if (inRequirementSection && !existing.inRequirementSection) {
+      existing.inRequirementSection = true;
+      requirement.isRequired = isRequired;
+      requirement.description = line;
+    } else if (isRequired && !requirement.isRequired) {
+      requirement.isRequired = true;
+      requirement.description = line;
+    }
+    requirement.requiredLevel = Math.max(
+      requirement.requiredLevel,
+      requiredLevel
+    );
+    if (duration !== null) {
+      requirement.minDuration = existing.explicitDuration
+        ? Math.max(requirement.minDuration, duration)
+        : duration;
+      existing.explicitDuration = true;
+    }
+  }
+
+  function findTitle(lines: string[]): string {
+    const firstLine = lines.find(Boolean) || "";
+    const title = firstLine.replace(/^#{1,6}\s+/, "").replace(/\*\*/g, "");
+    return matchHeading(title) || /:/.test(title) ? "" : title;
+  }
+
+  function findLabeledValue(lines: string[], label: string): string {
+    const pattern = new RegExp(`^\\**${label}\\**\\s*:\\s*(.+)$`, "i");
+    for (const line of lines) {
+      const match = line.replace(BULLET_PATTERN, "").match(pattern);
+      if (match) return match[1].replace(/\*\*/g, "").trim();
+    }
+    return "";
+  }
+
+  function findSalary(lines: string[]): string {
+    for (const label of ["salary", "compensation", "pay"]) {
+      const value = findLabeledValue(lines, label);
+      if (value) return value;
+    }
+
+    const range = lines
+      .join("\n")
+      .match(/\$\s?\d[\d,.]*k?\s*(?:-|–|to)\s*\$?\s?\d[\d,.]*k?/i);
+    return range ? range[0] : "";
+  }
+
+  // Return the public API
+  return {
+    parseJobDescription,
+    parseJobDescriptionWithAI,
+    parseMinDuration,
+  };
+}
+
+// Export a singleton instance for backward compatibility
+export const jobDescriptionParser = createJobDescriptionParser();
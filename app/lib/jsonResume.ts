@@ -0,0 +1,780 @@
+import crypto from "crypto";
+
+import { skillNormalizer } from "./skillNormalizer";
+import {
+  validateCandidatePreferences,
+  validateExperience,
+  validateSkillProficiency,
+} from "./validation";
+import {
+  Candidate,
+  CandidatePreferences,
+  Education,
+  Experience,
+  SkillProficiency,
+} from "../types/matching";
+
+// Type definitions for better type safety
+interface JsonResumeConverterConfig {
+  schemaVersion: string;
+  extensionKey: string;
+  defaultComplexityLevel: number;
+  leadershipPattern: RegExp;
+  skillLevels: Record<string, number>;
+}
+
+interface JsonResumeWorkExtension {
+  experienceId: string;
+  skillId: string;
+  duration: number;
+  complexityLevel: number;
+  hasLeadershipRole: boolean;
+  technologies: string[];
+}
+
+export interface JsonResumeWork {
+  name?: string;
+  position?: string;
+  summary?: string;
+  highlights?: string[];
+  startDate?: string;
+  endDate?: string;
+  "x-matching"?: JsonResumeWorkExtension;
+  [key: string]: unknown;
+}
+
+export interface JsonResumeEducation {
+  institution?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+  [key: string]: unknown;
+}
+
+export interface JsonResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+  "x-matching"?: SkillProficiency;
+  [key: string]: unknown;
+}
+
+export interface JsonResume {
+  basics?: {
+    name?: string;
+    label?: string;
+    email?: string;
+    summary?: string;
+    [key: string]: unknown;
+  };
+  work?: JsonResumeWork[];
+  education?: JsonResumeEducation[];
+  skills?: JsonResumeSkill[];
+  meta?: {
+    version?: string;
+    lastModified?: string;
+    "x-matching"?: {
+      candidateId: string;
+      location?: string;
+      workAuthorization?: string[];
+      preferences?: CandidatePreferences;
+    };
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+interface JsonResumeImportOptions {
+  candidateId?: string;
+  asOf?: Date;
+}
+
+interface JsonResumeImportResult {
+  candidate: Candidate;
+  warnings: string[];
+  unmatchedTerms: string[];
+}
+
+interface MonthSpan {
+  start: number; // months since year 0
+  end: number; // exclusive
+  lastMonth: number; // month named by endDate
+  isCurrent: boolean;
+}
+
+/**
+ * Two-way converter between JSON Resume documents and candidates.
+ *
+ * Import follows the jsonresume.org schema:
+ * - `basics` supplies name, email and summary
+ * - each `work[]` entry is scanned for skills; its `highlights` become the
+ *   `projectDescription` and its `startDate`/`endDate` give the duration
+ *   (a missing `endDate` means the role is current)
+ * - `skills[].keywords` are resolved through `skillNormalizer.normalizeSkill`
+ *   and keywords that match no known skill are reported in `unmatchedTerms`;
+ *   a `level` such as "Advanced" becomes the self-reported proficiency
+ * - `education[]` maps `studyType`, `area` and `endDate` onto `Education`
+ *
+ * Export writes the same shape back. Fields that JSON Resume has no place for
+ * (skill ID, complexity, leadership, exact duration, proficiency evidence,
+ * job preferences) are kept in `x-matching` extensions on work and skill
+ * entries and on `meta`, so a candidate survives an export/import round trip
+ * unchanged.
+ *
+ * @example
+ * ```typescript
+ * const { candidate, unmatchedTerms } = jsonResumeConverter.importJsonResume(
+ *   document
+ * );
+ * const exported = jsonResumeConverter.exportJsonResume(candidate);
+ * ```
+ */
+
+// Create JSON Resume converter with configuration
+export function createJsonResumeConverter(): ReturnType<
+  typeof createJsonResumeConverterInstance
+> {
+  return createJsonResumeConverterInstance();
+}
+
+const ISO_DATE_PATTERN = /^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/;
+
+function createJsonResumeConverterInstance() {
+  // Configuration
+  const config: JsonResumeConverterConfig = {
+    schemaVersion: "v1.0.0",
+    extensionKey: "x-matching",
+    defaultComplexityLevel: 3,
+    leadershipPattern:
+      /\b(lead|led|leading|manager|managed|mentor|mentored|mentoring|head of|director|principal)\b/i,
+    skillLevels: {
+      beginner: 1,
+      novice: 1,
+      elementary: 2,
+      intermediate: 3,
+      advanced: 4,
+      expert: 5,
+      master: 5,
+    },
+  };
+
+  /**
+   * Convert a JSON Resume document into a candidate
+   *
+   * The document is untrusted input: fields with the wrong JSON type are
+   * dropped with a warning instead of failing the import.
+   *
+   * @param input - The JSON Resume document
+   * @param options - Candidate ID and reference date for current roles
+   * @returns JsonResumeImportResult with the candidate and any warnings
+   */
+  function importJsonResume(
+    input: unknown,
+    options: JsonResumeImportOptions = {}
+  ): JsonResumeImportResult {
+    const asOf = options.asOf || new Date();
+    const warnings: string[] = [];
+    const unmatchedTerms: string[] = [];
+    const document = sanitizeDocument(input, warnings);
+    const basics = document.basics || {};
+
+    if (!basics.name) {
+      warnings.push("basics.name is missing");
+    }
+    if (!basics.email) {
+      warnings.push("basics.email is missing");
+    }
+
+    const experience = importWork(document.work || [], asOf, warnings);
+
+    const skillIds = new Set(experience.map((exp) => exp.skillId));
+    const proficiencies = new Map<string, SkillProficiency>();
+    (document.skills || []).forEach((skill) => {
+      const keywords =
+        skill.keywords && skill.keywords.length > 0
+          ? skill.keywords
+          : skill.name
+          ? [skill.name]
+          : [];
+      const extension = skill[config.extensionKey] as
+        | SkillProficiency
+        | undefined;
+      const selfReportedLevel = skill.level
+        ? config.skillLevels[skill.level.trim().toLowerCase()]
+        : undefined;
+
+      keywords.forEach((keyword) => {
+        const skillId = resolveSkillId(keyword);
+        if (!skillId) {
+          if (!unmatchedTerms.includes(keyword)) unmatchedTerms.push(keyword);
+          return;
+        }
+
+        skillIds.add(skillId);
+        if (extension?.skillId === skillId) {
+          proficiencies.set(skillId, extension);
+        } else if (selfReportedLevel && !proficiencies.has(skillId)) {
+          proficiencies.set(skillId, { skillId, selfReportedLevel });
+        }
+      });
+    });
+
+    const education = importEducation(document.education || [], warnings);
+    const extension = document.meta?.["x-matching"];
+
+    return {
+      candidate: {
+        id:
+          options.candidateId ||
+          extension?.candidateId ||
+          `candidate-${crypto.randomUUID().slice(0, 8)}`,
+        name: basics.name || "",
+        email: basics.email || "",
+        experience,
+        skills: Array.from(skillIds),
+        ...(proficiencies.size > 0 && {
+          proficiencies: Array.from(proficiencies.values()),
+        }),
+        education,
+        summary: basics.summary || basics.label || "",
+        ...(extension?.location !== undefined && {
+          location: extension.location,
+        }),
+        ...(extension?.workAuthorization !== undefined && {
+          workAuthorization: extension.workAuthorization,
+        }),
+        ...(extension?.preferences !== undefined && {
+          preferences: extension.preferences,
+        }),
+      },
+      warnings,
+      unmatchedTerms,
+    };
+  }
+
+  /**
+   * Convert a candidate into a JSON Resume document
+   *
+   * @param candidate - The candidate to export
+   * @returns JSON Resume document that re-imports to the same candidate
+   */
+  function exportJsonResume(candidate: Candidate): JsonResume {
+    return {
+      basics: {
+        name: candidate.name,
+        email: candidate.email,
+        summary: candidate.summary,
+      },
+      work: candidate.experience.map((exp) => {
+        const skill = skillNormalizer.getSkillById(exp.skillId);
+        return {
+          position: skill ? `${skill.canonicalName} experience` : exp.skillId,
+          ...(exp.startDate !== undefined && { startDate: exp.startDate }),
+          ...(exp.endDate !== undefined && { endDate: exp.endDate }),
+          ...(exp.projectDescription !== undefined && {
+            highlights: [exp.projectDescription],
+          }),
+          [config.extensionKey]: {
+            experienceId: exp.id,
+            skillId: exp.skillId,
+            duration: exp.duration,
+            complexityLevel: exp.complexityLevel,
+            hasLeadershipRole: exp.hasLeadershipRole,
+            technologies: exp.technologies,
+          },
+        };
+      }),
+      education: candidate.education.map((edu) => ({
+        institution: edu.institution,
+        area: edu.field,
+        studyType: edu.degree,
+        endDate: String(edu.graduationYear),
+      })),
+      skills: candidate.skills.map((skillId) => {
+        const name =
+          skillNormalizer.getSkillById(skillId)?.canonicalName || skillId;
+        const proficiency = candidate.proficiencies?.find(
+          (entry) => entry.skillId === skillId
+        );
+        const level = Object.keys(config.skillLevels).find(
+          (label) =>
+            config.skillLevels[label] === proficiency?.selfReportedLevel
+        );
+        return {
+          name,
+          ...(level && { level: level[0].toUpperCase() + level.slice(1) }),
+          keywords: [name],
+          ...(proficiency && { [config.extensionKey]: proficiency }),
+        };
+      }),
+      meta: {
+        version: config.schemaVersion,
+        [config.extensionKey]: {
+          candidateId: candidate.id,
+          ...(candidate.location !== undefined && {
+            location: candidate.location,
+          }),
+          ...(candidate.workAuthorization !== undefined && {
+            workAuthorization: candidate.workAuthorization,
+          }),
+          ...(candidate.preferences !== undefined && {
+            preferences: candidate.preferences,
+          }),
+        },
+      },
+    };
+  }
+
+  // Helper methods
+  function sanitizeDocument(input: unknown, warnings: string[]): JsonResume {
+    const root = readObject(input, "resume", warnings) || {};
+    const basics = readObject(root.basics, "basics", warnings) || {};
+    const meta = readObject(root.meta, "meta", warnings) || {};
+    const metaExtension = readMetaExtension(
+      meta[config.extensionKey],
+      `meta.${config.extensionKey}`,
+      warnings
+    );
+
+    return {
+      basics: {
+        name: readString(basics.name, "basics.name", warnings),
+        label: readString(basics.label, "basics.label", warnings),
+        email: readString(basics.email, "basics.email", warnings),
+        summary: readString(basics.summary, "basics.summary", warnings),
+      },
+      work: readObjects(root.work, "work", warnings).map((work, index) => {
+        const path = `work[${index}]`;
+        const extension = readWorkExtension(
+          work[config.extensionKey],
+          `${path}.${config.extensionKey}`,
+          warnings
+        );
+        return {
+          name: readString(work.name, `${path}.name`, warnings),
+          position: readString(work.position, `${path}.position`, warnings),
+          summary: readString(work.summary, `${path}.summary`, warnings),
+          highlights: readStrings(
+            work.highlights,
+            `${path}.highlights`,
+            warnings
+          ),
+          startDate: readString(work.startDate, `${path}.startDate`, warnings),
+          endDate: readString(work.endDate, `${path}.endDate`, warnings),
+          ...(extension && { [config.extensionKey]: extension }),
+        };
+      }),
+      education: readObjects(root.education, "education", warnings).map(
+        (entry, index) => {
+          const path = `education[${index}]`;
+          return {
+            institution: readString(
+              entry.institution,
+              `${path}.institution`,
+              warnings
+            ),
+            area: readString(entry.area, `${path}.area`, warnings),
+            studyType: readString(
+              entry.studyType,
+              `${path}.studyType`,
+              warnings
+            ),
+            startDate: readString(
+              entry.startDate,
+              `${path}.startDate`,
+              warnings
+            ),
+            endDate: readString(entry.endDate, `${path}.endDate`, warnings),
+          };
+        }
+      ),
+      skills: readObjects(root.skills, "skills", warnings).map(
+        (skill, index) => {
+          const path = `skills[${index}]`;
+          const extension = readSkillExtension(
+            skill[config.extensionKey],
+            `${path}.${config.extensionKey}`,
+            warnings
+          );
+          return {
+            name: readString(skill.name, `${path}.name`, warnings),
+            level: readString(skill.level, `${path}.level`, warnings),
+            keywords: readStrings(skill.keywords, `${path}.keywords`, warnings),
+            ...(extension && { [config.extensionKey]: extension }),
+          };
+        }
+      ),
+      meta: {
+        ...(metaExtension && { [config.extensionKey]: metaExtension }),
+      },
+    };
+  }
+
+  // Extensions hold exact matching data, so a malformed one is dropped as a
+  // whole rather than partly trusted
+  function readWorkExtension(
+    value: unknown,
+    path: string,
+    warnings: string[]
+  ): JsonResumeWorkExtension | undefined {
+    const extension = readObject(value, path, warnings);
+    if (!extension) return undefined;
+
+    const { experienceId, ...fields } = extension;
+    const result = validateExperience({ ...fields, id: experienceId }, path);
+    if (!result.value) {
+      warnings.push(
+        `${path} ignored: ${result.errors
+          .map((error) => error.replace(`${path}.id `, `${path}.experienceId `))
+          .join("; ")}`
+      );
+      return undefined;
+    }
+
+    const { id, skillId, duration, complexityLevel, hasLeadershipRole } =
+      result.value;
+    return {
+      experienceId: id,
+      skillId,
+      duration,
+      complexityLevel,
+      hasLeadershipRole,
+      technologies: result.value.technologies,
+    };
+  }
+
+  function readSkillExtension(
+    value: unknown,
+    path: string,
+    warnings: string[]
+  ): SkillProficiency | undefined {
+    const extension = readObject(value, path, warnings);
+    if (!extension) return undefined;
+
+    const result = validateSkillProficiency(extension, path);
+    if (!result.value) {
+      warnings.push(`${path} ignored: ${result.errors.join("; ")}`);
+      return undefined;
+    }
+    return result.value;
+  }
+
+  function readMetaExtension(
+    value: unknown,
+    path: string,
+    warnings: string[]
+  ): NonNullable<JsonResume["meta"]>["x-matching"] {
+    const extension = readObject(value, path, warnings);
+    if (!extension) return undefined;
+
+    const candidateId = readString(
+      extension.candidateId,
+      `${path}.candidateId`,
+      warnings
+    );
+    if (!candidateId) return undefined;
+
+    const location = readString(
+      extension.location,
+      `${path}.location`,
+      warnings
+    );
+    const workAuthorization = readStrings(
+      extension.workAuthorization,
+      `${path}.workAuthorization`,
+      warnings
+    );
+    const preferences =
+      extension.preferences === undefined
+        ? undefined
+        : validateCandidatePreferences(
+            extension.preferences,
+            `${path}.preferences`
+          );
+    if (preferences && !preferences.value) {
+      warnings.push(
+        `${path}.preferences ignored: ${preferences.errors.join("; ")}`
+      );
+    }
+
+    return {
+      candidateId,
+      ...(location !== undefined && { location }),
+      ...(workAuthorization !== undefined && { workAuthorization }),
+      ...(preferences?.value && { preferences: preferences.value }),
+    };
+  }
+
+  function readObject(
+    value: unknown,
+    path: string,
+    warnings: string[]
+  ): Record<string, unknown> | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== "object" || Array.isArray(value)) {
+      warnings.push(`${path} must be an object; ignored`);
+      return undefined;
+    }
+    return value as Record<string, unknown>;
+  }
+
+  function readObjects(
+    value: unknown,
+    path: string,
+    warnings: string[]
+  ): Record<string, unknown>[] {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      warnings.push(`${path} must be an array; ignored`);
+      return [];
+    }
+    return value.flatMap((entry, index) => {
+      const object = readObject(entry, `${path}[${index}]`, warnings);
+      return object ? [object] : [];
+    });
+  }
+
+  function readString(
+    value: unknown,
+    path: string,
+    warnings: string[]
+  ): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== "string") {
+      warnings.push(`${path} must be a string; ignored`);
+      return undefined;
+    }
+    return value;
+  }
+
+  function readStrings(
+    value: unknown,
+    path: string,
+    warnings: string[]
+  ): string[] | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value)) {
+      warnings.push(`${path} must be an array of strings; ignored`);
+      return undefined;
+    }
+    const strings = value.filter(
+      (entry): entry is string => typeof entry === "string"
+    );
+    if (strings.length < value.length) {
+      warnings.push(`${path} entries that are not strings were ignored`);
+    }
+    return strings;
+  }
+
+  function resolveSkillId(term: string): string | undefined {
+    const canonicalName = skillNormalizer.normalizeSkill(term);
+    return skillNormalizer.getSkillById(canonicalName.toLowerCase())?.id;
+  }
+
+  function parseIsoDate(value: string | undefined): {
+    month: number;
+    yearOnly: boolean;
+  } | null {
+    const match = value?.match(ISO_DATE_PATTERN);
+    if (!match) return null;
+
+    const year = parseInt(match[1], 10);
+    const month = match[2] ? parseInt(match[2], 10) - 1 : 0;
+    return { month: year * 12 + month, yearOnly: !match[2] };
+  }
+
+  function formatMonth(month: number): string {
+    return `${Math.floor(month / 12)}-${String((month % 12) + 1).padStart(
+      2,
+      "0"
+    )}`;
+  }
+
+  // Month-precision ranges count both end months, year-only ranges do not
+  function parseSpan(work: JsonResumeWork, asOf: Date): MonthSpan | null {
+    const start = parseIsoDate(work.startDate);
+    if (!start) return null;
+
+    const end = work.endDate
+      ? parseIsoDate(work.endDate)
+      : {
+          month: asOf.getUTCFullYear() * 12 + asOf.getUTCMonth(),
+          yearOnly: false,
+        };
+    if (!end || end.month < start.month) return null;
+
+    const inclusive = !start.yearOnly && !end.yearOnly;
+    return {
+      start: start.month,
+      end: end.month + (inclusive ? 1 : 0),
+      lastMonth: end.month,
+      isCurrent: !work.endDate,
+    };
+  }
+
+  function importWork(
+    entries: JsonResumeWork[],
+    asOf: Date,
+    warnings: string[]
+  ): Experience[] {
+    const experience: Experience[] = [];
+    const bySkill = new Map<
+      string,
+      {
+        months: Set<number>;
+        firstMonth: number;
+        lastMonth: number;
+        isCurrent: boolean;
+        complexityLevel: number;
+        hasLeadershipRole: boolean;
+        projectDescription?: string;
+        technologies: Set<string>;
+      }
+    >();
+
+    // Restored experience keeps its ID; derived experience gets a fresh one
+    const usedIds = new Set<string>();
+    const nextExperienceId = () => {
+      let number = 1;
+      while (usedIds.has(`exp-${number}`)) number++;
+      usedIds.add(`exp-${number}`);
+      return `exp-${number}`;
+    };
+
+    entries.forEach((work, index) => {
+      const label = work.position || work.name || `work[${index}]`;
+      const projectDescription =
+        work.highlights && work.highlights.length > 0
+          ? work.highlights.join(" ")
+          : work.summary;
+      const extension = work[config.extensionKey] as
+        | JsonResumeWorkExtension
+        | undefined;
+
+      // Entries written by exportJsonResume carry the exact experience
+      if (extension && skillNormalizer.getSkillById(extension.skillId)) {
+        const id = usedIds.has(extension.experienceId)
+          ? nextExperienceId()
+          : extension.experienceId;
+        usedIds.add(id);
+        experience.push({
+          id,
+          skillId: extension.skillId,
+          duration: extension.duration,
+          complexityLevel: extension.complexityLevel,
+          hasLeadershipRole: extension.hasLeadershipRole,
+          ...(projectDescription !== undefined && { projectDescription }),
+          technologies: extension.technologies,
+          ...(work.startDate !== undefined && { startDate: work.startDate }),
+          ...(work.endDate !== undefined && { endDate: work.endDate }),
+        });
+        return;
+      }
+
+      const span = parseSpan(work, asOf);
+      if (!span) {
+        warnings.push(`Could not compute a duration for "${label}"`);
+        return;
+      }
+
+      const entryText = [
+        work.position,
+        work.summary,
+        ...(work.highlights || []),
+      ]
+        .filter(Boolean)
+        .join("\n");
+      const extraction = skillNormalizer.extractSkillsFromText(entryText);
+      if (extraction.skills.length === 0) {
+        warnings.push(`No known skills found in "${label}"`);
+        return;
+      }
+
+      const complexityLevel = config.defaultComplexityLevel;
+      const hasLeadershipRole = config.leadershipPattern.test(entryText);
+
+      for (const skillName of extraction.skills) {
+        const skillId = resolveSkillId(skillName);
+        if (!skillId) continue;
+
+        const existing = bySkill.get(skillId) || {
+          months: new Set<number>(),
+          firstMonth: span.start,
+          lastMonth: span.lastMonth,
+          isCurrent: false,
+          complexityLevel,
+          hasLeadershipRole,
+          technologies: new Set<string>(),
+        };
+        for (let month = span.start; month < span.end; month++) {
+          existing.months.add(month);
+        }
+        existing.firstMonth = Math.min(existing.firstMonth, span.start);
+        existing.lastMonth = Math.max(existing.lastMonth, span.lastMonth);
+        existing.isCurrent = existing.isCurrent || span.isCurrent;
+        existing.hasLeadershipRole =
+          existing.hasLeadershipRole || hasLeadershipRole;
+        existing.projectDescription =
+          existing.projectDescription || projectDescription;
+        extraction.skills.forEach((name) => existing.technologies.add(name));
+        bySkill.set(skillId, existing);
+      }
+    });
+
+    bySkill.forEach((data, skillId) => {
+      experience.push({
+        id: nextExperienceId(),
+        skillId,
+        duration: data.months.size,
+        complexityLevel: data.complexityLevel,
+        hasLeadershipRole: data.hasLeadershipRole,
+        ...(data.projectDescription !== undefined && {
+          projectDescription: data.projectDescription,
+        }),
+        technologies: Array.from(data.technologies),
+        startDate: formatMonth(data.firstMonth),
+        ...(!data.isCurrent && { endDate: formatMonth(data.lastMonth) }),
+      });
+    });
+
+    return experience;
+  }
+
+  function importEducation(
+    entries: JsonResumeEducation[],
+    warnings: string[]
+  ): Education[] {
+    const education: Education[] = [];
+
+    entries.forEach((entry, index) => {
+      const date = parseIsoDate(entry.endDate) || parseIsoDate(entry.startDate);
+      if (!entry.studyType || !date) {
+        warnings.push(
+          `Could not import education entry "${
+            entry.institution || `education[${index}]`
+          }"`
+        );
+        return;
+      }
+
+      education.push({
+        degree: entry.studyType,
+        institution: entry.institution || "",
+        graduationYear: Math.floor(date.month / 12),
+        field: entry.area || "",
+      });
+    });
+
+    return education;
+  }
+
+  // Return the public API
+  return {
+    importJsonResume,
+    exportJsonResume,
+  };
+}
+
+// Export a singleton instance for backward compatibility
+export const jsonResumeConverter = createJsonResumeConverter();
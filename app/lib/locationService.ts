@@ -0,0 +1,352 @@
+import { cities, countries, regions } from "../data/gazetteer";
+import {
+  Candidate,
+  GazetteerCity,
+  GazetteerCountry,
+  LocationFit,
+  ParsedLocation,
+  ResolvedPlace,
+  WorkArrangement,
+} from "../types/matching";
+
+// Type definitions for better type safety
+interface LocationServiceConfig {
+  workdayHours: number;
+  relocationFit: number;
+  minOverlapHours: number;
+  caseSensitiveAliasLength: number;
+}
+
+interface GazetteerEntry {
+  term: string;
+  pattern: RegExp;
+  city?: GazetteerCity;
+  country?: GazetteerCountry;
+}
+
+/**
+ * Location and timezone-aware matching backed by an offline gazetteer.
+ *
+ * `parseLocation` reads free-text locations such as "San Francisco, CA",
+ * "Hybrid – London" or "Remote (US only)" into a work arrangement, the
+ * places named (resolved against `data/gazetteer.ts`) and, for remote roles,
+ * the countries the role is limited to.
+ *
+ * `calculateLocationFit` compares a candidate with a job:
+ * - Onsite and hybrid roles fit fully when the candidate lives in the same
+ *   metro area or lists the job's city among their preferred locations,
+ *   partly when they are willing to relocate, and not at all otherwise
+ * - Remote roles must include the candidate's country when limited to a
+ *   region; beyond that the fit is the share of a working day the candidate
+ *   and the job's timezone have in common
+ *
+ * Short all-caps aliases ("SF", "UK", "DC") only match in capitals, so
+ * ordinary words are not mistaken for places. Timezones are standard-time
+ * UTC offsets.
+ *
+ * @example
+ * ```typescript
+ * const location = locationService.parseLocation("Remote (EU only)");
+ * const fit = locationService.calculateLocationFit(candidate, location);
+ * ```
+ */
+
+// Create location service with configuration
+export function createLocationService(): ReturnType<
+  typeof createLocationServiceInstance
+> {
+  return createLocationServiceInstance();
+}
+
+function createLocationServiceInstance() {
+  // Configuration
+  const config: LocationServiceConfig = {
+    workdayHours: 8,
+    relocationFit: 0.75,
+    minOverlapHours: 4,
+    caseSensitiveAliasLength: 3,
+  };
+
+  // Longest terms first so "New York City" wins over "New York"
+  const entries: GazetteerEntry[] = [
+    ...cities.flatMap((city) =>
+      [city.name, ...city.aliases].map((term) => ({
+        term,
+        pattern: buildPattern(term),
+        city,
+      }))
+    ),
+    ...countries.flatMap((country) =>
+      [country.name, ...country.aliases].map((term) => ({
+        term,
+        pattern: buildPattern(term),
+        country,
+      }))
+    ),
+  ].sort((a, b) => b.term.length - a.term.length);
+
+  /**
+   * Resolve every place named in a piece of text
+   *
+   * @param text - Free-text location
+   * @returns Places found, cities before countries, without duplicates
+   */
+  function resolvePlaces(text: string): ResolvedPlace[] {
+    let remaining = text;
+    const places: ResolvedPlace[] = [];
+    const countryCodes = new Set<string>();
+
+    for (const entry of entries) {
+      if (!entry.pattern.test(remaining)) continue;
+      // Blank out the match so shorter terms inside it are not matched again
+      remaining = remaining.replace(entry.pattern, " ");
+
+      if (entry.city) {
+        if (places.some((place) => place.city === entry.city?.id)) continue;
+        places.push({
+          city: entry.city.id,
+          ...(entry.city.metro && { metro: entry.city.metro }),
+          countryCode: entry.city.countryCode,
+          utcOffset: entry.city.utcOffset,
+        });
+        countryCodes.add(entry.city.countryCode);
+      } else if (entry.country && !countryCodes.has(entry.country.code)) {
+        places.push({
+          countryCode: entry.country.code,
+          utcOffset: entry.country.utcOffset,
+        });
+        countryCodes.add(entry.country.code);
+      }
+    }
+
+    // A country only adds information when none of its cities was named
+    return places.filter(
+      (place) =>
+        place.city ||
+        !places.some(
+          (other) => other.city && other.countryCode === place.countryCode
+        )
+    );
+  }
+
+  /**
+   * Parse a free-text job or candidate location
+   *
+   * @param text - Location such as "Hybrid – London" or "Remote (US only)"
+   * @returns ParsedLocation with arrangement, places and remote regions
+   */
+  function parseLocation(text: string): ParsedLocation {
+    const workArrangement: WorkArrangement = /\bremote\b/i.test(text)
+      ? "remote"
+      : /\bhybrid\b/i.test(text)
+      ? "hybrid"
+      : "onsite";
+
+    const place = text
+      .replace(/\([^)]*\)/g, "")
+      .replace(/\b(remote|hybrid|on-?site)\b/gi, "")
+      .replace(/^[\s\-–:/,]+|[\s\-–:/,]+$/g, "")
+      .trim();
+
+    const places = resolvePlaces(text);
+    const remoteRegions =
+      workArrangement === "remote" ? resolveRegions(text, places) : [];
+
+    return {
+      workArrangement,
+      locations: place ? [place] : [],
+      // A remote role limited to countries has no single location
+      places:
+        workArrangement === "remote"
+          ? places.filter((entry) => entry.city)
+          : places,
+      remoteRegions,
+    };
+  }
+
+  /**
+   * Count the working hours two timezones have in common
+   *
+   * @param offsetA - UTC offset in hours
+   * @param offsetB - UTC offset in hours
+   * @returns Shared hours of a standard working day
+   */
+  function getTimezoneOverlap(offsetA: number, offsetB: number): number {
+    return Math.max(
+      0,
+      config.workdayHours - getOffsetDifference(offsetA, offsetB)
+    );
+  }
+
+  /**
+   * Compare a candidate's location with a job's
+   *
+   * @param candidate - The candidate; uses `location` and `preferences`
+   * @param jobLocation - The job's parsed location
+   * @returns LocationFit, or null when there is not enough to compare
+   */
+  function calculateLocationFit(
+    candidate: Candidate,
+    jobLocation: ParsedLocation
+  ): LocationFit | null {
+    const home = candidate.location
+      ? resolvePlaces(candidate.location)[0]
+      : undefined;
+    const timezoneOffsetHours = home
+      ? getJobOffsetDifference(home, jobLocation)
+      : null;
+    const overlapHours =
+      timezoneOffsetHours === null
+        ? null
+        : Math.max(0, config.workdayHours - timezoneOffsetHours);
+    const fit = (score: number, match: LocationFit["match"]): LocationFit => ({
+      score: Math.round(score * 100) / 100,
+      match,
+      timezoneOffsetHours,
+      overlapHours,
+    });
+
+    if (jobLocation.workArrangement === "remote") {
+      if (!home) return null;
+      if (
+        jobLocation.remoteRegions.length > 0 &&
+        !jobLocation.remoteRegions.includes(home.countryCode)
+      ) {
+        return fit(0, "outsideRegion");
+      }
+      return fit(
+        overlapHours === null ? 1 : overlapHours / config.workdayHours,
+        "remote"
+      );
+    }
+
+    const preferred = (candidate.preferences?.locations || []).flatMap(
+      resolvePlaces
+    );
+    if (jobLocation.places.length === 0 || (!home && preferred.length === 0)) {
+      return null;
+    }
+
+    if (
+      home?.city &&
+      jobLocation.places.some((place) => samePlace(place, home))
+    ) {
+      return fit(1, "sameMetro");
+    }
+    if (
+      jobLocation.places.some((place) =>
+        preferred.some((entry) => samePlace(place, entry))
+      )
+    ) {
+      return fit(1, "preferredLocation");
+    }
+    if (candidate.preferences?.willingToRelocate) {
+      return fit(config.relocationFit, "relocation");
+    }
+    return fit(0, "none");
+  }
+
+  /**
+   * Describe a poor location fit for explanations
+   *
+   * @param fit - The location fit
+   * @param jobLocation - The job's parsed location
+   * @returns A short reason, or null when the fit is good
+   */
+  function describeMismatch(
+    fit: LocationFit,
+    jobLocation: ParsedLocation
+  ): string | null {
+    switch (fit.match) {
+      case "outsideRegion":
+        return `Remote role is limited to ${jobLocation.remoteRegions.join(
+          ", "
+        )}`;
+      case "none":
+        return `Job is in ${jobLocation.locations.join(
+          " or "
+        )} and the candidate is not open to relocating`;
+      case "relocation":
+        return `Candidate would need to relocate to ${jobLocation.locations.join(
+          " or "
+        )}`;
+      case "remote":
+        return fit.overlapHours !== null &&
+          fit.overlapHours < config.minOverlapHours
+          ? `Only ${fit.overlapHours} working hours overlap with the job's timezone`
+          : null;
+      default:
+        return null;
+    }
+  }
+
+  // Helper methods
+  function buildPattern(term: string): RegExp {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const caseSensitive =
+      term.length <= config.caseSensitiveAliasLength &&
+      term === term.toUpperCase();
+    return new RegExp(
+      `(^|[^\\p{L}])${escaped}(?=$|[^\\p{L}])`,
+      caseSensitive ? "u" : "iu"
+    );
+  }
+
+  function resolveRegions(text: string, places: ResolvedPlace[]): string[] {
+    const codes = new Set(
+      places.filter((place) => !place.city).map((place) => place.countryCode)
+    );
+    for (const [name, members] of Object.entries(regions)) {
+      if (new RegExp(`\\b${name}\\b`, "i").test(text)) {
+        members.forEach((code) => codes.add(code));
+      }
+    }
+    return Array.from(codes);
+  }
+
+  // Offset to the nearest of the job's cities, or, for a remote role limited
+  // to a region, to the nearest country in it (zero when the candidate lives
+  // in one of them)
+  function getJobOffsetDifference(
+    home: ResolvedPlace,
+    jobLocation: ParsedLocation
+  ): number | null {
+    if (jobLocation.places.length > 0) {
+      return Math.min(
+        ...jobLocation.places.map((place) =>
+          getOffsetDifference(home.utcOffset, place.utcOffset)
+        )
+      );
+    }
+    if (jobLocation.remoteRegions.includes(home.countryCode)) return 0;
+
+    const offsets = countries
+      .filter((country) => jobLocation.remoteRegions.includes(country.code))
+      .map((country) => getOffsetDifference(home.utcOffset, country.utcOffset));
+    return offsets.length > 0 ? Math.min(...offsets) : null;
+  }
+
+  function samePlace(a: ResolvedPlace, b: ResolvedPlace): boolean {
+    if (a.metro && b.metro) return a.metro === b.metro;
+    if (a.city && b.city) return a.city === b.city;
+    // A country-level place matches anything in that country
+    return a.countryCode === b.countryCode;
+  }
+
+  function getOffsetDifference(offsetA: number, offsetB: number): number {
+    const difference = Math.abs(offsetA - offsetB) % 24;
+    return Math.min(difference, 24 - difference);
+  }
+
+  // Return the public API
+  return {
+    resolvePlaces,
+    parseLocation,
+    getTimezoneOverlap,
+    calculateLocationFit,
+    describeMismatch,
+  };
+}
+
+// Export a singleton instance for backward compatibility
+export const locationService = createLocationService();
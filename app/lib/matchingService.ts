@@ -1,8 +1,7 @@
 import { scoringEngine } from "./scoringEngine";
 import { skillNormalizer } from "./skillNormalizer";
 import { aiService } from "./aiService";
-import { findJobById, getAllJobs } from "../data/sampleJobs";
-import { findCandidateById, getAllCandidates } from "../data/sampleCandidates";
+import { repository } from "./repository";
 import {
   Candidate,
   Job,
@@ -10,6 +9,11 @@ import {
   MatchingRequest,
   MatchingResponse,
   MatchingScore,
+  BatchMatchingRequest,
+  BatchMatchingCell,
+  BatchMatchingResponse,
+  MatchingStage,
+  MatchingProgressEvent,
 } from "../types/matching";
 
 // Type definitions for better type safety
@@ -50,12 +54,24 @@ interface AIAnalysis {
   experienceValidation: ExperienceValidation[];
 }
 
+type ProgressListener = (event: MatchingProgressEvent) => void;
+
+interface MatchFilterOptions {
+  includeKnockedOut?: boolean; // keep candidates failing a knockout
+  minCompensationFit?: number; // drop results whose known pay fit is lower
+  maxTimezoneOffset?: number; // drop candidates further away, in hours
+}
+
 interface MatchingServiceConfig {
   maxAnalysisSkills: number;
   maxAnalysisExperiences: number;
   confidenceBoostFactor: number;
   culturalFitWeight: number;
   transferabilityWeight: number;
+  maxBatchCells: number;
+  defaultBatchPageSize: number;
+  maxBatchPageSize: number;
+  maxAIBatchPageSize: number;
 }
 
 /**
@@ -96,16 +112,25 @@ function createMatchingServiceInstance() {
     confidenceBoostFactor: 0.1,
     culturalFitWeight: 0.05,
     transferabilityWeight: 0.1,
+    maxBatchCells: 10000,
+    defaultBatchPageSize: 50,
+    maxBatchPageSize: 200,
+    maxAIBatchPageSize: 10,
   };
 
-  // Main matching function that processes a matching request with enhanced AI analysis
-  async function match(request: MatchingRequest): Promise<MatchingResponse> {
+  // Main matching function that processes a matching request with enhanced AI analysis.
+  // The optional listener receives an event as each stage starts and finishes.
+  async function match(
+    request: MatchingRequest,
+    onProgress?: ProgressListener
+  ): Promise<MatchingResponse> {
     const startTime = Date.now();
+    const emit = createProgressEmitter(onProgress);
 
     try {
       // Get job and candidate data
-      const job = findJobById(request.jobId);
-      const candidate = findCandidateById(request.candidateId);
+      const job = repository.getJobById(request.jobId);
+      const candidate = repository.getCandidateById(request.candidateId);
 
       if (!job) {
         throw new Error(`Job with ID ${request.jobId} not found`);
@@ -116,12 +141,26 @@ function createMatchingServiceInstance() {
       }
 
       // Calculate matching score
-      const score = scoringEngine.calculateMatchingScore(candidate, job);
+      emit("scoring", "started");
+      const score = scoringEngine.calculateMatchingScore(candidate, job, {
+        asOf: parseAsOf(request.asOf),
+      });
+      emit(
+        "scoring",
+        "completed",
+        `Overall score ${Math.round(score.overallScore * 100)}%`,
+        score
+      );
 
       // Enhanced AI analysis
-      const aiAnalysis = await performEnhancedAIAnalysis(candidate, job);
+      const aiAnalysis = await performEnhancedAIAnalysis(
+        candidate,
+        job,
+        onProgress
+      );
 
       // Generate explanation with AI insights
+      emit("explanation", "started");
       const explanation = generateEnhancedExplanation(
         candidate,
         job,
@@ -147,6 +186,12 @@ function createMatchingServiceInstance() {
 
       const processingTime = Date.now() - startTime;
       const confidence = calculateEnhancedConfidence(score, aiAnalysis);
+      emit(
+        "explanation",
+        "completed",
+        `${recommendations.length} recommendations generated`,
+        { explanation, recommendations }
+      );
 
       return {
         result,
@@ -162,20 +207,23 @@ function createMatchingServiceInstance() {
     }
   }
 
-  // Match a candidate against all available jobs to find the best opportunities
+  // Match a candidate against all open (non-archived) jobs to find the best opportunities
   async function matchCandidateAgainstAllJobs(
-    candidateId: string
+    candidateId: string,
+    options: Pick<MatchFilterOptions, "minCompensationFit"> = {}
   ): Promise<MatchingResult[]> {
-    const candidate = findCandidateById(candidateId);
+    const candidate = repository.getCandidateById(candidateId);
     if (!candidate) {
       throw new Error(`Candidate with ID ${candidateId} not found`);
     }
 
-    const jobs = getAllJobs();
+    const jobs = repository.getAllJobs().filter((job) => !job.archived);
     const results: MatchingResult[] = [];
 
     for (const job of jobs) {
       const score = scoringEngine.calculateMatchingScore(candidate, job);
+      if (!meetsCompensationFilter(score, options.minCompensationFit)) continue;
+
       const explanation = generateExplanation(candidate, job, score);
       const recommendations = generateRecommendations(candidate, job, score);
 
@@ -188,25 +236,34 @@ function createMatchingServiceInstance() {
       });
     }
 
-    // Sort by overall score (descending)
-    return results.sort((a, b) => b.score.overallScore - a.score.overallScore);
+    // Sort by combined score (descending), so jobs that don't fit the
+    // candidate's preferences rank lower
+    return results.sort(
+      (a, b) => b.score.combinedScore - a.score.combinedScore
+    );
   }
 
-  // Find the best candidates for a specific job
+  // Find the best candidates for a specific job. Candidates failing the job's
+  // knockout criteria are left out unless includeKnockedOut is set.
   async function findCandidatesForJob(
     jobId: string,
-    limit: number = 10
+    limit: number = 10,
+    options: MatchFilterOptions = {}
   ): Promise<MatchingResult[]> {
-    const job = findJobById(jobId);
+    const job = repository.getJobById(jobId);
     if (!job) {
       throw new Error(`Job with ID ${jobId} not found`);
     }
 
-    const candidates = getAllCandidates();
+    const candidates = repository.getAllCandidates();
     const results: MatchingResult[] = [];
 
     for (const candidate of candidates) {
       const score = scoringEngine.calculateMatchingScore(candidate, job);
+      if (!score.passesKnockouts && !options.includeKnockedOut) continue;
+      if (!meetsCompensationFilter(score, options.minCompensationFit)) continue;
+      if (!meetsTimezoneFilter(score, options.maxTimezoneOffset)) continue;
+
       const explanation = generateExplanation(candidate, job, score);
       const recommendations = generateRecommendations(candidate, job, score);
 
@@ -225,6 +282,109 @@ function createMatchingServiceInstance() {
       .slice(0, limit);
   }
 
+  // Score every job/candidate pair in a batch and return one page of the matrix.
+  // All cells are scored up front (cheap) so ranking and top-k are exact; AI
+  // analysis, which is slow and rate limited, only runs for the returned page.
+  async function matchBatch(
+    request: BatchMatchingRequest
+  ): Promise<BatchMatchingResponse> {
+    const startTime = Date.now();
+    const jobIds = Array.from(new Set(request.jobIds));
+    const candidateIds = Array.from(new Set(request.candidateIds));
+    const asOf = parseAsOf(request.asOf);
+
+    if (jobIds.length * candidateIds.length > config.maxBatchCells) {
+      throw new Error(
+        `Batch is invalid: ${jobIds.length}×${candidateIds.length} exceeds the limit of ${config.maxBatchCells} cells`
+      );
+    }
+
+    const jobs = jobIds.map((jobId) => {
+      const job = repository.getJobById(jobId);
+      if (!job) throw new Error(`Job with ID ${jobId} not found`);
+      return job;
+    });
+    const candidates = candidateIds.map((candidateId) => {
+      const candidate = repository.getCandidateById(candidateId);
+      if (!candidate) {
+        throw new Error(`Candidate with ID ${candidateId} not found`);
+      }
+      return candidate;
+    });
+
+    // Rank candidates within each job, keeping the top k when requested
+    const scored = jobs.flatMap((job) =>
+      candidates
+        .map((candidate) => ({
+          job,
+          candidate,
+          score: scoringEngine.calculateMatchingScore(candidate, job, { asOf }),
+        }))
+        .sort((a, b) => b.score.overallScore - a.score.overallScore)
+        .slice(0, request.topK ?? candidates.length)
+        .map((entry, index) => ({ ...entry, rank: index + 1 }))
+    );
+
+    const maxPageSize = request.includeAI
+      ? config.maxAIBatchPageSize
+      : config.maxBatchPageSize;
+    const limit = Math.min(
+      request.limit ?? config.defaultBatchPageSize,
+      maxPageSize
+    );
+    const offset = request.offset ?? 0;
+    const page = scored.slice(offset, offset + limit);
+
+    const cells: BatchMatchingCell[] = [];
+    for (const { job, candidate, score, rank } of page) {
+      if (request.includeAI) {
+        const aiAnalysis = await performEnhancedAIAnalysis(candidate, job);
+        cells.push({
+          jobId: job.id,
+          candidateId: candidate.id,
+          rank,
+          score,
+          confidence: calculateEnhancedConfidence(score, aiAnalysis),
+          explanation: generateEnhancedExplanation(
+            candidate,
+            job,
+            score,
+            aiAnalysis
+          ),
+          recommendations: generateEnhancedRecommendations(
+            candidate,
+            job,
+            score,
+            aiAnalysis
+          ),
+          aiEnhanced: true,
+        });
+      } else {
+        cells.push({
+          jobId: job.id,
+          candidateId: candidate.id,
+          rank,
+          score,
+          confidence: calculateConfidence(score),
+          explanation: generateExplanation(candidate, job, score),
+          recommendations: generateRecommendations(candidate, job, score),
+          aiEnhanced: false,
+        });
+      }
+    }
+
+    return {
+      cells,
+      jobIds,
+      candidateIds,
+      total: scored.length,
+      offset,
+      limit,
+      nextOffset: offset + limit < scored.length ? offset + limit : null,
+      processingTime: Date.now() - startTime,
+    };
+  }
+
   // Generate explanation for the matching result
   function generateExplanation(
     candidate: Candidate,
@@ -295,9 +455,51 @@ function createMatchingServiceInstance() {
       )}. `;
     }
 
+    // Preference mismatches
+    if (score.mutualFit.mismatches.length > 0) {
+      explanation += `The role may not suit their preferences: ${score.mutualFit.mismatches.join(
+        "; "
+      )}. `;
+    }
+
+    // Knockout criteria
+    if (!score.passesKnockouts) {
+      explanation += `They do not meet the job's hard requirements: ${breakdown.knockoutFailures
+        .map((failure) => failure.reason)
+        .join("; ")}. `;
+    }
+
     return explanation;
   }
 
+  // Results whose salary could not be compared are kept: the filter only
+  // drops jobs known to pay less than the candidate expects
+  function meetsCompensationFilter(
+    score: MatchingScore,
+    minCompensationFit: number | undefined
+  ): boolean {
+    const compensation = score.mutualFit.compensation;
+    return (
+      minCompensationFit === undefined ||
+      !compensation ||
+      compensation.score >= minCompensationFit
+    );
+  }
+
+  // Candidates whose timezone is unknown are kept, as with compensation
+  function meetsTimezoneFilter(
+    score: MatchingScore,
+    maxTimezoneOffset: number | undefined
+  ): boolean {
+    const offset = score.mutualFit.locationFit?.timezoneOffsetHours;
+    return (
+      maxTimezoneOffset === undefined ||
+      offset === null ||
+      offset === undefined ||
+      offset <= maxTimezoneOffset
+    );
+  }
+
   // Generate recommendations for the candidate
   function generateRecommendations(
     candidate: Candidate,
@@ -353,11 +555,8 @@ function createMatchingServiceInstance() {
       );
     }
 
-    // Education recommendations
-    const hasRecentEducation = candidate.education.some(
-      (edu) => 2024 - edu.graduationYear <= 5
-    );
-    if (!hasRecentEducation) {
+    // Education recommendations, relative to the date the score was taken
+    if (!scoringEngine.hasRecentEducation(candidate, new Date(score.asOf))) {
       recommendations.push(
         "Consider pursuing additional education or certifications"
       );
@@ -399,10 +598,40 @@ function createMatchingServiceInstance() {
     return Math.max(0.3, Math.min(1.0, confidence));
   }
 
+  // Parse an optional ISO as-of date from a request
+  function parseAsOf(asOf?: string): Date | undefined {
+    if (asOf === undefined) return undefined;
+
+    const date = new Date(asOf);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Request has an invalid asOf date "${asOf}"`);
+    }
+    return date;
+  }
+
+  // Build a progress emitter; a no-op when nobody is listening
+  function createProgressEmitter(onProgress?: ProgressListener) {
+    return (
+      stage: MatchingStage,
+      status: MatchingProgressEvent["status"],
+      detail?: string,
+      partial?: unknown
+    ): void => {
+      onProgress?.({
+        stage,
+        status,
+        ...(detail !== undefined && { detail }),
+        ...(partial !== undefined && { partial }),
+        timestamp: new Date().toISOString(),
+      });
+    };
+  }
+
   // Perform enhanced AI analysis for candidate-job matching
   async function performEnhancedAIAnalysis(
     candidate: Candidate,
-    job: Job
+    job: Job,
+    onProgress?: ProgressListener
   ): Promise<AIAnalysis> {
     const analysis: AIAnalysis = {
       skillTransferability: [],
@@ -410,9 +639,12 @@ function createMatchingServiceInstance() {
       learningPotential: [],
       experienceValidation: [],
     };
+    const emit = createProgressEmitter(onProgress);
+    let stage: MatchingStage = "skillTransferability";
 
     try {
       // Analyze skill transferability for missing skills
+      emit(stage, "started");
       const missingSkills = job.requirements.filter(
         (req) => !candidate.skills.includes(req.skillId)
       );
@@ -446,7 +678,16 @@ function createMatchingServiceInstance() {
         }
       }
 
+      emit(
+        stage,
+        "completed",
+        `${analysis.skillTransferability.length} transferable skills analyzed`,
+        analysis.skillTransferability
+      );
+
       // Assess cultural fit
+      stage = "culturalFit";
+      emit(stage, "started");
       const candidateSummary = candidate.summary;
       const companyCulture = job.company; // Simplified - could be enhanced with actual company culture data
       const teamSize = "25"; // Simplified - could be enhanced with actual team size data
@@ -456,8 +697,18 @@ function createMatchingServiceInstance() {
         companyCulture,
         teamSize
       );
+      emit(
+        stage,
+        "completed",
+        `Cultural fit ${Math.round(
+          analysis.culturalFit.culturalFitScore * 100
+        )}%`,
+        analysis.culturalFit
+      );
 
       // Assess learning potential for missing skills
+      stage = "learningPotential";
+      emit(stage, "started");
       for (const missingSkill of missingSkills.slice(0, 2)) {
         const learningAssessment = await aiService.assessLearningPotential(
           missingSkill.skillId,
@@ -469,7 +720,16 @@ function createMatchingServiceInstance() {
         });
       }
 
+      emit(
+        stage,
+        "completed",
+        `${analysis.learningPotential.length} missing skills assessed`,
+        analysis.learningPotential
+      );
+
       // Validate experience claims
+      stage = "experienceValidation";
+      emit(stage, "started");
       for (const experience of candidate.experience.slice(
         0,
         config.maxAnalysisExperiences
@@ -484,8 +744,19 @@ function createMatchingServiceInstance() {
           ...validation,
         });
       }
+      emit(
+        stage,
+        "completed",
+        `${analysis.experienceValidation.length} experience claims validated`,
+        analysis.experienceValidation
+      );
     } catch (error) {
       console.error("Enhanced AI analysis failed:", error);
+      emit(
+        stage,
+        "failed",
+        error instanceof Error ? error.message : "Unknown error"
+      );
       // Continue with basic analysis if AI fails
     }
 
@@ -616,8 +887,8 @@ function createMatchingServiceInstance() {
 
   // Get skill suggestions for a candidate based on job requirements
   function getSkillSuggestions(candidateId: string, jobId: string): string[] {
-    const candidate = findCandidateById(candidateId);
-    const job = findJobById(jobId);
+    const candidate = repository.getCandidateById(candidateId);
+    const job = repository.getJobById(jobId);
 
     if (!candidate || !job) {
       return [];
@@ -655,6 +926,7 @@ function createMatchingServiceInstance() {
     match,
     matchCandidateAgainstAllJobs,
     findCandidatesForJob,
+    matchBatch,
     getSkillSuggestions,
     getJobSuggestions,
     getCandidateSuggestions,
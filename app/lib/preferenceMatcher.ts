@@ -0,0 +1,237 @@
+import { salaryParser } from "./salaryParser";
+import { locationService } from "./locationService";
+import {
+  Candidate,
+  Job,
+  JobAttributes,
+  MutualFit,
+  SeniorityLevel,
+  WorkArrangement,
+} from "../types/matching";
+
+// Type definitions for better type safety
+interface PreferenceMatcherConfig {
+  seniorityOrder: SeniorityLevel[];
+  seniorityPatterns: { pattern: RegExp; level: SeniorityLevel }[];
+  weightProfileSeniority: Record<string, SeniorityLevel>;
+  defaultSeniority: SeniorityLevel;
+  partialArrangementFit: number;
+  adjacentSeniorityFit: number;
+}
+
+/**
+ * Preference matching: how well a job fits the candidate.
+ *
+ * The scoring engine asks whether the candidate fits the job. This module
+ * asks the reverse question using the candidate's `preferences`:
+ * - Salary: the job's parsed range against the expected range
+ * - Location: metro, relocation and timezone fit from `locationService`
+ * - Work arrangement: onsite, hybrid or remote
+ * - Seniority: inferred from the job title against the preferred levels
+ *
+ * `Job.salary` and `Job.location` are free text, so they are parsed into a
+ * structured `JobAttributes` first; salaries go through `salaryParser`, so
+ * hourly rates and other currencies are compared as annual amounts in the
+ * candidate's currency. A factor that cannot be compared (no preference,
+ * unparseable salary, unknown currency) is reported as null
+ * and left out of the mutual fit score rather than counted against the job.
+ *
+ * @example
+ * ```typescript
+ * const fit = preferenceMatcher.calculateMutualFit(candidate, job);
+ * console.log(fit.score, fit.mismatches);
+ * ```
+ */
+
+// Create preference matcher with configuration
+export function createPreferenceMatcher(): ReturnType<
+  typeof createPreferenceMatcherInstance
+> {
+  return createPreferenceMatcherInstance();
+}
+
+function createPreferenceMatcherInstance() {
+  // Configuration
+  const config: PreferenceMatcherConfig = {
+    seniorityOrder: ["junior", "mid", "senior", "lead"],
+    seniorityPatterns: [
+      { pattern: /\b(lead|principal|staff|head|architect)\b/i, level: "lead" },
+      { pattern: /\b(senior|sr\.?)\b/i, level: "senior" },
+      {
+        pattern: /\b(junior|jr\.?|entry[- ]level|graduate)\b/i,
+        level: "junior",
+      },
+      { pattern: /\b(mid[- ]level|intermediate)\b/i, level: "mid" },
+    ],
+    weightProfileSeniority: { junior: "junior", senior: "senior" },
+    defaultSeniority: "mid",
+    partialArrangementFit: 0.5,
+    adjacentSeniorityFit: 0.5,
+  };
+
+  /**
+   * Infer the seniority of a job from its title and weight profile
+   *
+   * @param job - The job to inspect
+   * @returns The inferred seniority level
+   */
+  function inferSeniority(job: Job): SeniorityLevel {
+    const match = config.seniorityPatterns.find(({ pattern }) =>
+      pattern.test(job.title)
+    );
+    if (match) return match.level;
+
+    return (
+      (job.weightProfile && config.weightProfileSeniority[job.weightProfile]) ||
+      config.defaultSeniority
+    );
+  }
+
+  /**
+   * Parse a job's free-text fields into structured attributes
+   *
+   * @param job - The job to parse
+   * @returns JobAttributes with salary, arrangement, locations and seniority
+   */
+  function getJobAttributes(job: Job): JobAttributes {
+    return {
+      salary: salaryParser.parseSalary(job.salary),
+      ...locationService.parseLocation(job.location),
+      seniority: inferSeniority(job),
+    };
+  }
+
+  /**
+   * Calculate how well a job fits the candidate's preferences
+   *
+   * @param candidate - The candidate whose preferences are used
+   * @param job - The job to compare against
+   * @returns MutualFit with per-factor fits and the mismatches found
+   */
+  function calculateMutualFit(candidate: Candidate, job: Job): MutualFit {
+    const jobAttributes = getJobAttributes(job);
+    const preferences = candidate.preferences || {};
+    const mismatches: string[] = [];
+
+    const compensation = salaryParser.calculateCompensationFit(
+      jobAttributes.salary,
+      preferences
+    );
+    const salary = compensation ? compensation.score : null;
+    if (compensation && compensation.status !== "meets") {
+      mismatches.push(
+        `Salary of ${salaryParser.formatAmount(
+          compensation.offeredMin,
+          compensation.currency
+        )} to ${salaryParser.formatAmount(
+          compensation.offeredMax,
+          compensation.currency
+        )} a year ${
+          compensation.status === "partial" ? "only partly reaches" : "is below"
+        } the expected ${salaryParser.formatAmount(
+          compensation.expectedMin,
+          compensation.currency
+        )}`
+      );
+    }
+
+    let workArrangement: number | null = null;
+    if (preferences.workArrangements?.length) {
+      workArrangement = calculateArrangementFit(
+        jobAttributes.workArrangement,
+        preferences.workArrangements
+      );
+      if (workArrangement < 1) {
+        mismatches.push(
+          `Job is ${
+            jobAttributes.workArrangement
+          }, candidate prefers ${preferences.workArrangements.join(" or ")}`
+        );
+      }
+    }
+
+    const locationFit = locationService.calculateLocationFit(
+      candidate,
+      jobAttributes
+    );
+    const location = locationFit ? locationFit.score : null;
+    const locationMismatch =
+      locationFit &&
+      locationService.describeMismatch(locationFit, jobAttributes);
+    if (locationMismatch) mismatches.push(locationMismatch);
+
+    let seniority: number | null = null;
+    if (preferences.seniority?.length) {
+      seniority = calculateSeniorityFit(
+        jobAttributes.seniority,
+        preferences.seniority
+      );
+      if (seniority < 1) {
+        mismatches.push(
+          `Job is ${
+            jobAttributes.seniority
+          } level, candidate prefers ${preferences.seniority.join(" or ")}`
+        );
+      }
+    }
+
+    const factors = [salary, location, workArrangement, seniority].filter(
+      (value): value is number => value !== null
+    );
+    const score =
+      factors.length > 0
+        ? factors.reduce((sum, value) => sum + value, 0) / factors.length
+        : 1;
+
+    return {
+      score: Math.round(score * 100) / 100,
+      salary,
+      location,
+      workArrangement,
+      seniority,
+      compensation,
+      locationFit,
+      mismatches,
+      jobAttributes,
+    };
+  }
+
+  // Helper methods
+  function calculateArrangementFit(
+    offered: WorkArrangement,
+    preferred: WorkArrangement[]
+  ): number {
+    if (preferred.includes(offered)) return 1;
+    // Hybrid is halfway between onsite and remote
+    return offered === "hybrid" || preferred.includes("hybrid")
+      ? config.partialArrangementFit
+      : 0;
+  }
+
+  function calculateSeniorityFit(
+    offered: SeniorityLevel,
+    preferred: SeniorityLevel[]
+  ): number {
+    const offeredIndex = config.seniorityOrder.indexOf(offered);
+    const distance = Math.min(
+      ...preferred.map((level) =>
+        Math.abs(config.seniorityOrder.indexOf(level) - offeredIndex)
+      )
+    );
+    return distance === 0
+      ? 1
+      : distance === 1
+      ? config.adjacentSeniorityFit
+      : 0;
+  }
+
+  // Return the public API
+  return {
+    inferSeniority,
+    getJobAttributes,
+    calculateMutualFit,
+  };
+}
+
+// Export a singleton instance for backward compatibility
+export const preferenceMatcher = createPreferenceMatcher();
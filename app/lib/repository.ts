@@ -0,0 +1,463 @@
+import fs from "fs";
+import path from "path";
+
+import { config as appConfig } from "./config";
+import { sampleCandidates } from "../data/sampleCandidates";
+import { sampleJobs } from "../data/sampleJobs";
+import { skills, skillMigrations, skillRelationships } from "../data/skills";
+import {
+  Candidate,
+  Job,
+  Skill,
+  SkillDiscovery,
+  SkillRelationship,
+} from "../types/matching";
+
+// Type definitions for better type safety
+interface RepositoryConfig {
+  dataDir: string;
+  candidatesFile: string;
+  jobsFile: string;
+  skillsFile: string;
+  skillRelationshipsFile: string;
+  skillDiscoveriesFile: string;
+  skillMigrationsFile: string;
+  persist: boolean;
+}
+
+interface AppliedSkillMigration {
+  id: string;
+  appliedAt?: string; // unset for migrations already in the seed data
+}
+
+// Relationships have no ID of their own; the store keys them by their ends
+// and type
+type StoredSkillRelationship = SkillRelationship & { id: string };
+
+interface RecordStore<T extends { id: string }> {
+  getById: (id: string) => T | undefined;
+  getAll: () => T[];
+  save: (record: T) => T;
+  saveMany: (records: T[]) => T[];
+  remove: (id: string) => boolean;
+}
+
+/**
+ * Candidate, job and skill taxonomy repository backed by JSON-lines files.
+ *
+ * This module is the single source of truth for candidate and job records
+ * and for the skills taxonomy. Each collection is stored as one JSON
+ * document per line so records survive server restarts and the files stay
+ * easy to inspect and diff:
+ * - `<dataDir>/candidates.jsonl`
+ * - `<dataDir>/jobs.jsonl`
+ * - `<dataDir>/skills.jsonl`
+ * - `<dataDir>/skill-relationships.jsonl`
+ * - `<dataDir>/skill-discoveries.jsonl`
+ * - `<dataDir>/skill-migrations.jsonl`
+ *
+ * When a store file does not exist yet it is seeded from the bundled sample
+ * data. Changes to the bundled skills reach an existing skills store through
+ * `skillMigrations`, each applied once on first access and recorded in
+ * `skill-migrations.jsonl`. Records are loaded lazily on first access and every write rewrites
+ * the file atomically (write to a temp file, then rename).
+ *
+ * With `persist: false` the repository keeps everything in memory, which is
+ * what the test environment uses.
+ *
+ * @example
+ * ```typescript
+ * const repository = createRepository({ dataDir: "/var/lib/matching" });
+ * const candidate = repository.getCandidateById("candidate-1");
+ * repository.saveJob({ ...job, title: "Staff Engineer" });
+ * ```
+ */
+
+// Create repository with configuration
+export function createRepository(
+  options: Partial<RepositoryConfig> = {}
+): ReturnType<typeof createRepositoryInstance> {
+  return createRepositoryInstance(options);
+}
+
+function createRepositoryInstance(options: Partial<RepositoryConfig>) {
+  // Configuration
+  const config: RepositoryConfig = {
+    dataDir: appConfig.dataDir,
+    candidatesFile: "candidates.jsonl",
+    jobsFile: "jobs.jsonl",
+    skillsFile: "skills.jsonl",
+    skillRelationshipsFile: "skill-relationships.jsonl",
+    skillDiscoveriesFile: "skill-discoveries.jsonl",
+    skillMigrationsFile: "skill-migrations.jsonl",
+    persist: appConfig.persistData,
+    ...options,
+  };
+
+  const candidateStore = createRecordStore<Candidate>(
+    path.join(config.dataDir, config.candidatesFile),
+    sampleCandidates,
+    config.persist
+  );
+  const jobStore = createRecordStore<Job>(
+    path.join(config.dataDir, config.jobsFile),
+    sampleJobs,
+    config.persist
+  );
+  const skillsPath = path.join(config.dataDir, config.skillsFile);
+  // A store seeded now already has every migration in it
+  const skillsSeeded = !config.persist || !fs.existsSync(skillsPath);
+  const skillStore = createRecordStore<Skill>(
+    skillsPath,
+    skills,
+    config.persist
+  );
+  const skillMigrationStore = createRecordStore<AppliedSkillMigration>(
+    path.join(config.dataDir, config.skillMigrationsFile),
+    skillsSeeded ? skillMigrations.map(({ id }) => ({ id })) : [],
+    config.persist
+  );
+  let skillsMigrated = false;
+  const relationshipStore = createRecordStore<StoredSkillRelationship>(
+    path.join(config.dataDir, config.skillRelationshipsFile),
+    skillRelationships.map(toStoredRelationship),
+    config.persist
+  );
+  const discoveryStore = createRecordStore<SkillDiscovery>(
+    path.join(config.dataDir, config.skillDiscoveriesFile),
+    [],
+    config.persist
+  );
+
+  /**
+   * Get candidate by ID
+   *
+   * @param candidateId - The candidate ID to look up
+   * @returns Candidate if found, undefined otherwise
+   */
+  function getCandidateById(candidateId: string): Candidate | undefined {
+    return candidateStore.getById(candidateId);
+  }
+
+  /**
+   * Get all candidates
+   *
+   * @returns Array of all stored candidates
+   */
+  function getAllCandidates(): Candidate[] {
+    return candidateStore.getAll();
+  }
+
+  /**
+   * Create or replace a candidate
+   *
+   * @param candidate - The candidate to store
+   * @returns The stored candidate
+   */
+  function saveCandidate(candidate: Candidate): Candidate {
+    return candidateStore.save(candidate);
+  }
+
+  /**
+   * Delete a candidate
+   *
+   * @param candidateId - The candidate ID to delete
+   * @returns True if a candidate was deleted, false if it did not exist
+   */
+  function deleteCandidate(candidateId: string): boolean {
+    return candidateStore.remove(candidateId);
+  }
+
+  /**
+   * Get job by ID
+   *
+   * @param jobId - The job ID to look up
+   * @returns Job if found, undefined otherwise
+   */
+  function getJobById(jobId: string): Job | undefined {
+    return jobStore.getById(jobId);
+  }
+
+  /**
+   * Get all jobs
+   *
+   * @returns Array of all stored jobs
+   */
+  function getAllJobs(): Job[] {
+    return jobStore.getAll();
+  }
+
+  /**
+   * Create or replace a job
+   *
+   * @param job - The job to store
+   * @returns The stored job
+   */
+  function saveJob(job: Job): Job {
+    return jobStore.save(job);
+  }
+
+  /**
+   * Delete a job
+   *
+   * @param jobId - The job ID to delete
+   * @returns True if a job was deleted, false if it did not exist
+   */
+  function deleteJob(jobId: string): boolean {
+    return jobStore.remove(jobId);
+  }
+
+  /**
+   * Get skill by ID
+   *
+   * @param skillId - The skill ID to look up
+   * @returns Skill if found, undefined otherwise
+   */
+  function getSkillById(skillId: string): Skill | undefined {
+    migrateSkills();
+    return skillStore.getById(skillId);
+  }
+
+  /**
+   * Get all skills in the taxonomy
+   *
+   * @returns Array of all stored skills
+   */
+  function getAllSkills(): Skill[] {
+    migrateSkills();
+    return skillStore.getAll();
+  }
+
+  /**
+   * Create or replace a skill
+   *
+   * @param skill - The skill to store
+   * @returns The stored skill
+   */
+  function saveSkill(skill: Skill): Skill {
+    migrateSkills();
+    return skillStore.save(skill);
+  }
+
+  /**
+   * Delete a skill
+   *
+   * @param skillId - The skill ID to delete
+   * @returns True if a skill was deleted, false if it did not exist
+   */
+  function deleteSkill(skillId: string): boolean {
+    migrateSkills();
+    return skillStore.remove(skillId);
+  }
+
+  /**
+   * Get all relationships between skills
+   *
+   * @returns Array of all stored relationships
+   */
+  function getAllSkillRelationships(): SkillRelationship[] {
+    return relationshipStore.getAll().map(fromStoredRelationship);
+  }
+
+  /**
+   * Create or replace a relationship; relationships are identified by their
+   * source, target and type
+   *
+   * @param relationship - The relationship to store
+   * @returns The stored relationship
+   */
+  function saveSkillRelationship(
+    relationship: SkillRelationship
+  ): SkillRelationship {
+    relationshipStore.save(toStoredRelationship(relationship));
+    return relationship;
+  }
+
+  /**
+   * Delete a relationship
+   *
+   * @param relationship - Source, target and type of the relationship
+   * @returns True if a relationship was deleted, false if it did not exist
+   */
+  function deleteSkillRelationship(
+    relationship: Omit<SkillRelationship, "strength">
+  ): boolean {
+    return relationshipStore.remove(getRelationshipKey(relationship));
+  }
+
+  /**
+   * Get a skill discovery by ID
+   *
+   * @param discoveryId - The discovery ID (its lowercased term)
+   * @returns SkillDiscovery if found, undefined otherwise
+   */
+  function getSkillDiscoveryById(
+    discoveryId: string
+  ): SkillDiscovery | undefined {
+    return discoveryStore.getById(discoveryId);
+  }
+
+  /**
+   * Get all skill discoveries
+   *
+   * @returns Array of all stored discoveries
+   */
+  function getAllSkillDiscoveries(): SkillDiscovery[] {
+    return discoveryStore.getAll();
+  }
+
+  /**
+   * Create or replace skill discoveries in one write
+   *
+   * @param discoveries - The discoveries to store
+   * @returns The stored discoveries
+   */
+  function saveSkillDiscoveries(
+    discoveries: SkillDiscovery[]
+  ): SkillDiscovery[] {
+    return discoveryStore.saveMany(discoveries);
+  }
+
+  // Helper methods
+  function migrateSkills(): void {
+    if (skillsMigrated) return;
+    skillsMigrated = true;
+
+    skillMigrations
+      .filter((migration) => !skillMigrationStore.getById(migration.id))
+      .forEach((migration) => {
+        const changed = migration.apply(skillStore.getAll());
+        if (changed.length > 0) skillStore.saveMany(changed);
+        skillMigrationStore.save({
+          id: migration.id,
+          appliedAt: new Date().toISOString(),
+        });
+      });
+  }
+
+  // Return the public API
+  return {
+    getCandidateById,
+    getAllCandidates,
+    saveCandidate,
+    deleteCandidate,
+    getJobById,
+    getAllJobs,
+    saveJob,
+    deleteJob,
+    getSkillById,
+    getAllSkills,
+    saveSkill,
+    deleteSkill,
+    getAllSkillRelationships,
+    saveSkillRelationship,
+    deleteSkillRelationship,
+    getSkillDiscoveryById,
+    getAllSkillDiscoveries,
+    saveSkillDiscoveries,
+  };
+}
+
+function getRelationshipKey(
+  relationship: Omit<SkillRelationship, "strength">
+): string {
+  return `${relationship.sourceSkill}->${relationship.targetSkill}:${relationship.relationshipType}`;
+}
+
+function toStoredRelationship(
+  relationship: SkillRelationship
+): StoredSkillRelationship {
+  return { id: getRelationshipKey(relationship), ...relationship };
+}
+
+function fromStoredRelationship(
+  stored: StoredSkillRelationship
+): SkillRelationship {
+  const { sourceSkill, targetSkill, relationshipType, strength } = stored;
+  return { sourceSkill, targetSkill, relationshipType, strength };
+}
+
+// Generic JSON-lines record store keyed by record ID
+function createRecordStore<T extends { id: string }>(
+  filePath: string,
+  seed: T[],
+  persist: boolean
+): RecordStore<T> {
+  // Records are copied on the way in and out, so callers that mutate what
+  // they hold cannot change stored state behind the store's back
+  let records: Map<string, T> | null = null;
+
+  function load(): Map<string, T> {
+    if (records) return records;
+
+    records = new Map();
+
+    if (persist && fs.existsSync(filePath)) {
+      const lines = fs.readFileSync(filePath, "utf8").split("\n");
+      lines.forEach((line, index) => {
+        if (!line.trim()) return;
+        try {
+          const record = JSON.parse(line) as T;
+          records?.set(record.id, record);
+        } catch (error) {
+          console.error(
+            `Skipping malformed record at ${filePath}:${index + 1}:`,
+            error
+          );
+        }
+      });
+      return records;
+    }
+
+    seed.forEach((record) => records?.set(record.id, structuredClone(record)));
+    flush();
+    return records;
+  }
+
+  function flush(): void {
+    if (!persist || !records) return;
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const content = Array.from(records.values())
+      .map((record) => JSON.stringify(record))
+      .join("\n");
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, content ? `${content}\n` : "", "utf8");
+    fs.renameSync(tempPath, filePath);
+  }
+
+  function getById(id: string): T | undefined {
+    const record = load().get(id);
+    return record && structuredClone(record);
+  }
+
+  function getAll(): T[] {
+    return Array.from(load().values(), (record) => structuredClone(record));
+  }
+
+  function save(record: T): T {
+    load().set(record.id, structuredClone(record));
+    flush();
+    return structuredClone(record);
+  }
+
+  function saveMany(batch: T[]): T[] {
+    const loaded = load();
+    batch.forEach((record) => loaded.set(record.id, structuredClone(record)));
+    flush();
+    return structuredClone(batch);
+  }
+
+  function remove(id: string): boolean {
+    const deleted = load().delete(id);
+    if (deleted) {
+      flush();
+    }
+    return deleted;
+  }
+
+  return { getById, getAll, save, saveMany, remove };
+}
+
+// Export a singleton instance for backward compatibility
+export const repository = createRepository();
@@ -0,0 +1,660 @@
+import crypto from "crypto";
+
+import { skillNormalizer } from "./skillNormalizer";
+import { Candidate, Education, Experience } from "../types/matching";
+
+// Type definitions for better type safety
+type ResumeFormat = "text" | "markdown";
+
+type ResumeSection = "summary" | "experience" | "education" | "skills";
+
+interface ResumeParserConfig {
+  sectionHeadings: Record<ResumeSection, string[]>;
+  ignoredHeadings: string[];
+  maxHeadingLength: number;
+  seniorityLevels: { pattern: RegExp; level: number }[];
+  defaultComplexityLevel: number;
+  leadershipPattern: RegExp;
+  degreeAliases: { pattern: RegExp; degree: string }[];
+  institutionPattern: RegExp;
+}
+
+interface ResumeParseOptions {
+  format?: ResumeFormat;
+  candidateId?: string;
+  asOf?: Date;
+}
+
+interface ResumeParseResult {
+  candidate: Candidate;
+  warnings: string[];
+  unmatchedTerms: string[];
+}
+
+interface MonthStamp {
+  year: number;
+  month: number; // 0-11
+}
+
+interface DateRange {
+  start: MonthStamp;
+  end: MonthStamp;
+  isCurrent: boolean;
+  yearOnly: boolean;
+  matchedText: string;
+}
+
+interface WorkEntry {
+  title: string;
+  body: string[];
+  range: DateRange;
+}
+
+/**
+ * Resume text parser that builds structured candidates.
+ *
+ * This module turns a pasted CV (plain text or Markdown) into a `Candidate`:
+ * - Splits the document into summary, work history, education and skills
+ *   sections using common heading names
+ * - Detects work entries by their date ranges ("Jan 2019 – Present",
+ *   "03/2017 - 12/2018", "2015 to 2017") and computes durations in months
+ * - Resolves skills mentioned in each entry through the skill normalizer
+ *   and merges them into one `Experience` per skill, without double counting
+ *   overlapping roles
+ * - Infers complexity from seniority words and flags leadership roles
+ *
+ * Parsing is best-effort: anything that could not be interpreted is reported
+ * in `warnings` rather than failing the whole document.
+ *
+ * @example
+ * ```typescript
+ * const parser = createResumeParser();
+ * const { candidate, warnings } = parser.parseResume(cvText, {
+ *   format: "markdown",
+ * });
+ * ```
+ */
+
+// Create resume parser with configuration
+export function createResumeParser(): ReturnType<
+  typeof createResumeParserInstance
+> {
+  return createResumeParserInstance();
+}
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const DATE_PATTERN = `(?:(${MONTH_NAMES.join(
+  "|"
+)})[a-z]*\\.?\\s+|(\\d{1,2})\\/)?(\\d{4})`;
+
+const DATE_RANGE_PATTERN = new RegExp(
+  `${DATE_PATTERN}\\s*(?:-|–|—|to|until)\\s*(?:${DATE_PATTERN}|(present|current|now|today))`,
+  "i"
+);
+
+const EMAIL_PATTERN = /[^\s@<>()[\]]+@[^\s@<>()[\]]+\.[a-z]{2,}/i;
+
+const BULLET_PATTERN = /^\s*(?:[-*•▪◦]|\d+\.)\s+/;
+
+function createResumeParserInstance() {
+  // Configuration
+  const config: ResumeParserConfig = {
+    sectionHeadings: {
+      summary: ["summary", "profile", "about", "about me", "objective"],
+      experience: [
+        "experience",
+        "work experience",
+        "professional experience",
+        "work history",
+        "employment",
+        "employment history",
+        "career history",
+      ],
+      education: ["education", "academic background", "qualifications"],
+      skills: ["skills", "technical skills", "core skills", "technologies"],
+    },
+    ignoredHeadings: [
+      "projects",
+      "certifications",
+      "languages",
+      "interests",
+      "hobbies",
+      "awards",
+      "publications",
+      "references",
+      "volunteering",
+    ],
+    maxHeadingLength: 40,
+    seniorityLevels: [
+      {
+        pattern:
+          /\b(lead|principal|staff|architect|head|director|manager|vp)\b/i,
+        level: 5,
+      },
+      { pattern: /\b(senior|sr\.?)\b/i, level: 4 },
+      { pattern: /\b(junior|jr\.?|associate|graduate)\b/i, level: 2 },
+      { pattern: /\b(intern|internship|trainee|apprentice)\b/i, level: 1 },
+    ],
+    defaultComplexityLevel: 3,
+    leadershipPattern:
+      /\b(lead|led|leading|manager|managed|mentor|mentored|mentoring|head of|director|principal)\b/i,
+    degreeAliases: [
+      { pattern: /\b(ph\.?d|doctorate|doctor of)\b/i, degree: "PhD" },
+      { pattern: /\bmba\b/i, degree: "Master of Business Administration" },
+      { pattern: /\b(m\.?sc?|m\.s\.)(?=\s|,|$)/i, degree: "Master of Science" },
+      { pattern: /\bm\.?a\.?(?=\s|,|$)/i, degree: "Master of Arts" },
+      { pattern: /\bmaster'?s? of science\b/i, degree: "Master of Science" },
+      { pattern: /\bmaster'?s? of arts\b/i, degree: "Master of Arts" },
+      { pattern: /\bmaster'?s?\b/i, degree: "Master" },
+      {
+        pattern: /\b(b\.?sc?|b\.s\.)(?=\s|,|$)/i,
+        degree: "Bachelor of Science",
+      },
+      { pattern: /\bb\.?a\.?(?=\s|,|$)/i, degree: "Bachelor of Arts" },
+      { pattern: /\bb\.?eng\.?\b/i, degree: "Bachelor of Engineering" },
+      {
+        pattern: /\bbachelor'?s? of science\b/i,
+        degree: "Bachelor of Science",
+      },
+      { pattern: /\bbachelor'?s? of arts\b/i, degree: "Bachelor of Arts" },
+      {
+        pattern: /\bbachelor'?s? of engineering\b/i,
+        degree: "Bachelor of Engineering",
+      },
+      { pattern: /\bbachelor'?s?\b/i, degree: "Bachelor" },
+      { pattern: /\bassociate'?s? degree\b/i, degree: "Associate" },
+      { pattern: /\bdiploma\b/i, degree: "Diploma" },
+      { pattern: /\bcertificat(e|ion)\b/i, degree: "Certificate" },
+    ],
+    institutionPattern:
+      /\b(university|college|institute|school|academy|polytechnic)\b/i,
+  };
+
+  /**
+   * Parse resume text into a structured candidate
+   *
+   * @param text - The resume content
+   * @param options - Format, candidate ID and reference date for "Present"
+   * @returns ResumeParseResult with the candidate and any parse warnings
+   */
+  function parseResume(
+    text: string,
+    options: ResumeParseOptions = {}
+  ): ResumeParseResult {
+    const format = options.format || detectFormat(text);
+    const asOf = options.asOf || new Date();
+    const warnings: string[] = [];
+
+    const lines = (format === "markdown" ? stripMarkdown(text) : text)
+      .split(/\r?\n/)
+      .map((line) => line.replace(/\s+$/, ""));
+
+    const { header, sections } = splitSections(lines);
+
+    const name = header.find((line) => isNameLine(line)) || "";
+    if (!name) {
+      warnings.push("Could not determine the candidate's name");
+    }
+
+    const emailMatch = text.match(EMAIL_PATTERN);
+    if (!emailMatch) {
+      warnings.push("No email address found");
+    }
+
+    if (!sections.experience) {
+      warnings.push("No work history section found");
+    }
+
+    const workEntries = parseWorkEntries(
+      sections.experience || [],
+      asOf,
+      warnings
+    );
+    const experience = buildExperience(workEntries);
+
+    if (!sections.education) {
+      warnings.push("No education section found");
+    }
+    const education = parseEducation(sections.education || [], warnings);
+
+    const summary = (sections.summary || [])
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .join(" ");
+
+    const skillText = [
+      ...(sections.skills || []),
+      ...(sections.summary || []),
+    ].join("\n");
+    const extraction = skillNormalizer.extractSkillsFromText(skillText);
+    const skillIds = new Set(experience.map((exp) => exp.skillId));
+    extraction.skills.forEach((skillName) => {
+      const skillId = resolveSkillId(skillName);
+      if (skillId) skillIds.add(skillId);
+    });
+
+    return {
+      candidate: {
+        id:
+          options.candidateId || `candidate-${crypto.randomUUID().slice(0, 8)}`,
+        name,
+        email: emailMatch ? emailMatch[0] : "",
+        experience,
+        skills: Array.from(skillIds),
+        education,
+        summary,
+      },
+      warnings,
+      unmatchedTerms: extraction.unmatchedTerms,
+    };
+  }
+
+  /**
+   * Compute the duration of a date range expression in months
+   *
+   * @param text - Text containing a range such as "Jan 2019 – Present"
+   * @param asOf - Reference date used for open-ended ranges
+   * @returns Duration in months, or null if no range was found
+   */
+  function parseDurationInMonths(
+    text: string,
+    asOf: Date = new Date()
+  ): number | null {
+    const range = parseDateRange(text, asOf);
+    return range ? monthsBetween(range) : null;
+  }
+
+  // Helper methods
+  function detectFormat(text: string): ResumeFormat {
+    return /^\s{0,3}#{1,6}\s+\S/m.test(text) ? "markdown" : "text";
+  }
+
+  function stripMarkdown(text: string): string {
+    return text
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      .replace(/(\*\*|__)(.*?)\1/g, "$2")
+      .replace(/(^|[^*])\*(?!\s)([^*]+)\*/g, "$1$2")
+      .replace(/`([^`]+)`/g, "$1")
+      .replace(/^\s*>\s?/gm, "")
+      .replace(/^\s*(-{3,}|\*{3,}|_{3,})\s*$/gm, "");
+  }
+
+  function matchSectionHeading(text: string): ResumeSection | null | "other" {
+    const heading = text
+      .trim()
+      .replace(/[:\s]+$/, "")
+      .toLowerCase();
+    if (!heading || heading.length > config.maxHeadingLength) return null;
+
+    for (const [section, headings] of Object.entries(
+      config.sectionHeadings
+    ) as [ResumeSection, string[]][]) {
+      if (headings.includes(heading)) {
+        return section;
+      }
+    }
+
+    return config.ignoredHeadings.includes(heading) ? "other" : null;
+  }
+
+  function splitSections(lines: string[]): {
+    header: string[];
+    sections: Partial<Record<ResumeSection, string[]>>;
+  } {
+    const header: string[] = [];
+    const sections: Partial<Record<ResumeSection, string[]>> = {};
+    let current: ResumeSection | "other" | null = null;
+    let currentLevel = 0;
+
+    for (const line of lines) {
+      const markdownHeading = line.match(/^\s{0,3}(#{1,6})\s+(.*)$/);
+      const level = markdownHeading ? markdownHeading[1].length : 0;
+      const text = markdownHeading ? markdownHeading[2] : line;
+      const section = matchSectionHeading(text);
+
+      if (section) {
+        current = section;
+        currentLevel = level;
+        if (section !== "other") {
+          sections[section] = sections[section] || [];
+        }
+        continue;
+      }
+
+      // An unrecognised Markdown heading at the same or a higher level
+      // (e.g. "## Projects" after "## Experience") closes the section
+      if (markdownHeading && current && level <= currentLevel) {
+        current = "other";
+        continue;
+      }
+
+      if (current === "other") continue;
+
+      if (current) {
+        sections[current]?.push(text);
+      } else if (text.trim()) {
+        header.push(text.trim());
+      }
+    }
+
+    return { header, sections };
+  }
+
+  function isNameLine(line: string): boolean {
+    return (
+      !EMAIL_PATTERN.test(line) &&
+      !/\d{3}/.test(line) &&
+      !/https?:\/\//i.test(line) &&
+      line.split(/\s+/).length <= 5
+    );
+  }
+
+  function parseMonthStamp(
+    monthName: string | undefined,
+    monthNumber: string | undefined,
+    year: string
+  ): { stamp: MonthStamp; hasMonth: boolean } {
+    let month = 0;
+    let hasMonth = false;
+
+    if (monthName) {
+      month = MONTH_NAMES.indexOf(monthName.toLowerCase().slice(0, 3));
+      hasMonth = true;
+    } else if (monthNumber) {
+      month = Math.min(11, Math.max(0, parseInt(monthNumber, 10) - 1));
+      hasMonth = true;
+    }
+
+    return { stamp: { year: parseInt(year, 10), month }, hasMonth };
+  }
+
+  function parseDateRange(text: string, asOf: Date): DateRange | null {
+    const match = text.match(DATE_RANGE_PATTERN);
+    if (!match) return null;
+
+    const start = parseMonthStamp(match[1], match[2], match[3]);
+    const isCurrent = Boolean(match[7]);
+
+    let end: { stamp: MonthStamp; hasMonth: boolean };
+    if (isCurrent) {
+      end = {
+        stamp: { year: asOf.getUTCFullYear(), month: asOf.getUTCMonth() },
+        hasMonth: true,
+      };
+    } else {
+      end = parseMonthStamp(match[4], match[5], match[6]);
+    }
+
+    return {
+      start: start.stamp,
+      end: end.stamp,
+      isCurrent,
+      yearOnly: !start.hasMonth && !end.hasMonth,
+      matchedText: match[0],
+    };
+  }
+
+  function monthIndex(stamp: MonthStamp): number {
+    return stamp.year * 12 + stamp.month;
+  }
+
+  function monthsBetween(range: DateRange): number {
+    // Month-precision ranges are inclusive ("Jan 2019 - Dec 2019" is 12 months)
+    const months =
+      monthIndex(range.end) -
+      monthIndex(range.start) +
+      (range.yearOnly ? 0 : 1);
+    return Math.max(0, months);
+  }
+
+  function parseWorkEntries(
+    lines: string[],
+    asOf: Date,
+    warnings: string[]
+  ): WorkEntry[] {
+    const anchors: { index: number; range: DateRange }[] = [];
+    lines.forEach((line, index) => {
+      const range = parseDateRange(line, asOf);
+      if (range) anchors.push({ index, range });
+    });
+
+    if (lines.some((line) => line.trim()) && anchors.length === 0) {
+      warnings.push("No date ranges found in work history");
+    }
+
+    // An entry's title is the date line itself when it carries other text,
+    // otherwise the closest non-bullet line above it
+    const titleIndexes = anchors.map((anchor, position) => {
+      const remainder = lines[anchor.index]
+        .replace(anchor.range.matchedText, "")
+        .replace(/[()|,–—-]/g, " ")
+        .trim();
+      if (remainder.length > 3) return anchor.index;
+
+      const floor = position > 0 ? anchors[position - 1].index + 1 : 0;
+      for (let i = anchor.index - 1; i >= floor; i--) {
+        if (!lines[i].trim()) continue;
+        return BULLET_PATTERN.test(lines[i]) ? anchor.index : i;
+      }
+      return anchor.index;
+    });
+
+    return anchors.map((anchor, position) => {
+      const titleIndex = titleIndexes[position];
+      const nextTitleIndex =
+        position + 1 < anchors.length
+          ? titleIndexes[position + 1]
+          : lines.length;
+
+      const title = [lines[titleIndex], lines[anchor.index]]
+        .filter((line, i, all) => all.indexOf(line) === i)
+        .map((line) =>
+          line
+            .replace(anchor.range.matchedText, "")
+            .replace(/[()|]/g, " ")
+            .trim()
+        )
+        .filter(Boolean)
+        .join(" ");
+
+      const body = lines
+        .slice(anchor.index + 1, nextTitleIndex)
+        .map((line) => line.replace(BULLET_PATTERN, "").trim())
+        .filter(Boolean);
+
+      if (monthsBetween(anchor.range) === 0) {
+        warnings.push(`Could not compute a duration for "${title}"`);
+      }
+
+      return { title, body, range: anchor.range };
+    });
+  }
+
+  function inferComplexityLevel(title: string): number {
+    for (const { pattern, level } of config.seniorityLevels) {
+      if (pattern.test(title)) return level;
+    }
+    return config.defaultComplexityLevel;
+  }
+
+  function resolveSkillId(skillName: string): string | undefined {
+    return skillNormalizer.getSkillById(skillName.toLowerCase())?.id;
+  }
+
+  // Total months covered by a set of ranges, counting overlaps once
+  function unionMonths(ranges: DateRange[]): number {
+    const covered = new Set<number>();
+    ranges.forEach((range) => {
+      const start = monthIndex(range.start);
+      const end = start + monthsBetween(range);
+      for (let month = start; month < end; month++) {
+        covered.add(month);
+      }
+    });
+    return covered.size;
+  }
+
+  function buildExperience(entries: WorkEntry[]): Experience[] {
+    const bySkill = new Map<
+      string,
+      {
+        ranges: DateRange[];
+        complexityLevel: number;
+        hasLeadershipRole: boolean;
+        latest: WorkEntry;
+        technologies: Set<string>;
+      }
+    >();
+
+    for (const entry of entries) {
+      const entryText = [entry.title, ...entry.body].join("\n");
+      const extraction = skillNormalizer.extractSkillsFromText(entryText);
+      const complexityLevel = inferComplexityLevel(entry.title);
+      const hasLeadershipRole = config.leadershipPattern.test(entryText);
+
+      for (const skillName of extraction.skills) {
+        const skillId = resolveSkillId(skillName);
+        if (!skillId) continue;
+
+        const existing = bySkill.get(skillId);
+        if (!existing) {
+          bySkill.set(skillId, {
+            ranges: [entry.range],
+            complexityLevel,
+            hasLeadershipRole,
+            latest: entry,
+            technologies: new Set(extraction.skills),
+          });
+          continue;
+        }
+
+        existing.ranges.push(entry.range);
+        existing.complexityLevel = Math.max(
+          existing.complexityLevel,
+          complexityLevel
+        );
+        existing.hasLeadershipRole =
+          existing.hasLeadershipRole || hasLeadershipRole;
+        if (
+          monthIndex(entry.range.end) > monthIndex(existing.latest.range.end)
+        ) {
+          existing.latest = entry;
+        }
+        extraction.skills.forEach((name) => existing.technologies.add(name));
+      }
+    }
+
+    return Array.from(bySkill.entries()).map(([skillId, data], index) => {
+      const earliest = data.ranges.reduce((first, range) =>
+        monthIndex(range.start) < monthIndex(first.start) ? range : first
+      );
+
+      return {
+        id: `exp-${index + 1}`,
+        skillId,
+        duration: unionMonths(data.ranges),
+        complexityLevel: data.complexityLevel,
+        hasLeadershipRole: data.hasLeadershipRole,
+        projectDescription:
+          data.latest.body.join(" ") || data.latest.title || undefined,
+        technologies: Array.from(data.technologies),
+        startDate: formatMonthStamp(earliest.start),
+        ...(!data.latest.range.isCurrent && {
+          endDate: formatMonthStamp(data.latest.range.end),
+        }),
+      };
+    });
+  }
+
+  function formatMonthStamp(stamp: MonthStamp): string {
+    return `${stamp.year}-${String(stamp.month + 1).padStart(2, "0")}`;
+  }
+
+  function parseEducation(lines: string[], warnings: string[]): Education[] {
+    const blocks: string[][] = [];
+
+    for (const rawLine of lines) {
+      const line = rawLine.replace(BULLET_PATTERN, "").trim();
+      if (!line) continue;
+
+      const startsEntry = config.degreeAliases.some(({ pattern }) =>
+        pattern.test(line)
+      );
+      if (startsEntry || blocks.length === 0) {
+        blocks.push([line]);
+      } else {
+        blocks[blocks.length - 1].push(line);
+      }
+    }
+
+    const education: Education[] = [];
+    for (const block of blocks) {
+      const text = block.join(", ");
+      const alias = config.degreeAliases.find(({ pattern }) =>
+        pattern.test(text)
+      );
+      const years = text.match(/\b(19|20)\d{2}\b/g);
+
+      if (!alias || !years) {
+        warnings.push(`Could not parse education entry "${block[0]}"`);
+        continue;
+      }
+
+      const segments = text
+        .split(/\s*(?:,|\||–|—|\s-\s)\s*/)
+        .map((segment) => segment.trim())
+        .filter(Boolean);
+
+      const institution =
+        segments.find((segment) => config.institutionPattern.test(segment)) ||
+        segments.find(
+          (segment) => !alias.pattern.test(segment) && !/\d{4}/.test(segment)
+        ) ||
+        "";
+
+      // Look for the field after the degree phrase ("B.S. in Physics")
+      const fieldMatch = text
+        .replace(alias.pattern, "")
+        .match(
+          /\b(?:in|of)\s+([A-Z][A-Za-z&/ ]+?)(?=\s*(?:,|\||–|—|\(|\s-\s|\d|$))/
+        );
+      const field =
+        fieldMatch && !config.institutionPattern.test(fieldMatch[1])
+          ? fieldMatch[1].trim()
+          : "";
+
+      education.push({
+        degree: alias.degree,
+        institution,
+        graduationYear: parseInt(years[years.length - 1], 10),
+        field,
+      });
+    }
+
+    return education;
+  }
+
+  // Return the public API
+  return {
+    parseResume,
+    parseDurationInMonths,
+  };
+}
+
+// Export a singleton instance for backward compatibility
+export const resumeParser = createResumeParser();
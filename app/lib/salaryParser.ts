@@ -0,0 +1,293 @@
+import {
+  CandidatePreferences,
+  CompensationFit,
+  SalaryPeriod,
+  SalaryRange,
+} from "../types/matching";
+
+// Type definitions for better type safety
+interface SalaryParserConfig {
+  defaultCurrency: string;
+  currencySymbols: [string, string][];
+  currencyCodes: string[];
+  usdRates: Record<string, number>;
+  periodsPerYear: Record<SalaryPeriod, number>;
+  periodPatterns: { pattern: RegExp; period: SalaryPeriod }[];
+  nonSalarySuffix: RegExp;
+  rangeSeparator: RegExp;
+  hourlyThreshold: number;
+  partialFitFloor: number;
+  belowFitFactor: number;
+}
+
+/**
+ * Salary parsing and compensation band comparison.
+ *
+ * `parseSalary` turns free-text salaries into a `SalaryRange`:
+ * - Currency from ISO codes ("EUR 60,000") or symbols ("£", "C$", "€")
+ * - The first amount or range ("120k-150k", "$90,000 to $110,000"); later
+ *   numbers such as "+ 10% bonus" or "401(k)" are ignored
+ * - Amounts with thousands separators or a "k" suffix
+ * - Pay period from phrases such as "per hour", "/hr", "monthly" or
+ *   "per annum"; bare amounts under `hourlyThreshold` are read as hourly
+ *
+ * Ranges can be converted to annual amounts in another currency with a
+ * static FX table, which lets `calculateCompensationFit` compare any job
+ * salary against a candidate's expected annual salary. The table is
+ * approximate and offline by design: it is meant for ranking, not payroll.
+ *
+ * @example
+ * ```typescript
+ * const range = salaryParser.parseSalary("£45 - £55 per hour");
+ * const annual = salaryParser.toAnnual(range, "USD");
+ * ```
+ */
+
+// Create salary parser with configuration
+export function createSalaryParser(): ReturnType<
+  typeof createSalaryParserInstance
+> {
+  return createSalaryParserInstance();
+}
+
+function createSalaryParserInstance() {
+  // Configuration
+  const config: SalaryParserConfig = {
+    defaultCurrency: "USD",
+    // Longer symbols first so "C$" is not read as "$"
+    currencySymbols: [
+      ["US$", "USD"],
+      ["CA$", "CAD"],
+      ["C$", "CAD"],
+      ["A$", "AUD"],
+      ["$", "USD"],
+      ["€", "EUR"],
+      ["£", "GBP"],
+      ["¥", "JPY"],
+      ["₹", "INR"],
+    ],
+    currencyCodes: ["USD", "EUR", "GBP", "CAD", "AUD", "CHF", "JPY", "INR"],
+    // Value of one unit in US dollars
+    usdRates: {
+      USD: 1,
+      EUR: 1.08,
+      GBP: 1.27,
+      CAD: 0.73,
+      AUD: 0.66,
+      CHF: 1.12,
+      JPY: 0.0067,
+      INR: 0.012,
+    },
+    periodsPerYear: { hour: 2080, day: 260, week: 52, month: 12, year: 1 },
+    periodPatterns: [
+      {
+        pattern: /(\bper|\ban|\ba|\/)\s*(hour|hr|h)\b|hourly|p\/h/i,
+        period: "hour",
+      },
+      { pattern: /(\bper|\ba|\/)\s*day\b|daily|day rate/i, period: "day" },
+      { pattern: /(\bper|\ba|\/)\s*(week|wk)\b|weekly/i, period: "week" },
+      { pattern: /(\bper|\ba|\/)\s*(month|mo)\b|monthly/i, period: "month" },
+      {
+        pattern: /(\bper|\ba|\/)\s*(year|yr|annum)\b|annual|yearly|\bp\.a\./i,
+        period: "year",
+      },
+    ],
+    // Numbers that are not pay: "401(k)", "10% bonus", "5 weeks PTO"
+    nonSalarySuffix: /^\s*(\(k\)|%|(weeks?|days?|years?|yrs?)\b(?!\s*rate))/i,
+    // Text allowed between the two amounts of a range, e.g. " - $" or " to "
+    rangeSeparator: /^\s*(-|–|to)\s*\S{0,3}\s*$/i,
+    hourlyThreshold: 500,
+    partialFitFloor: 0.75,
+    belowFitFactor: 0.75,
+  };
+
+  /**
+   * Parse a free-text salary such as "$120,000 - $150,000" or "€45/hr"
+   *
+   * @param text - The salary text
+   * @returns SalaryRange, or null when no amount with a currency or "k"
+   * suffix is found
+   */
+  function parseSalary(text: string | undefined): SalaryRange | null {
+    if (!text) return null;
+
+    const amounts = Array.from(
+      text.matchAll(/(\d[\d.,]*)\s*([kK](?![a-zA-Z]))?/g),
+      (match) => ({
+        value: parseAmount(match[1]) * (match[2] ? 1000 : 1),
+        hasK: Boolean(match[2]),
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length,
+      })
+    ).filter(
+      ({ value, end }) =>
+        Number.isFinite(value) &&
+        value > 0 &&
+        !config.nonSalarySuffix.test(text.slice(end))
+    );
+
+    if (amounts.length === 0) return null;
+
+    // Only the first amount, or the range it opens, is the salary
+    const [first, next] = amounts;
+    const range =
+      next && config.rangeSeparator.test(text.slice(first.end, next.start))
+        ? [first, next]
+        : [first];
+
+    const currency = findCurrency(text);
+    if (!currency && !range.some(({ hasK }) => hasK)) return null;
+
+    const min = Math.min(...range.map(({ value }) => value));
+    const max = Math.max(...range.map(({ value }) => value));
+    const period =
+      config.periodPatterns.find(({ pattern }) => pattern.test(text))?.period ||
+      (max < config.hourlyThreshold ? "hour" : "year");
+
+    return {
+      min,
+      max,
+      currency: currency || config.defaultCurrency,
+      period,
+    };
+  }
+
+  /**
+   * Convert an amount between currencies using the static FX table
+   *
+   * @param amount - The amount to convert
+   * @param from - ISO 4217 code of the amount
+   * @param to - ISO 4217 code to convert to
+   * @returns The converted amount, or null if either currency is unknown
+   */
+  function convertCurrency(
+    amount: number,
+    from: string,
+    to: string
+  ): number | null {
+    const fromRate = config.usdRates[from];
+    const toRate = config.usdRates[to];
+    if (fromRate === undefined || toRate === undefined) return null;
+
+    return (amount * fromRate) / toRate;
+  }
+
+  /**
+   * Express a salary range as an annual amount in the given currency
+   *
+   * @param range - The parsed salary range
+   * @param currency - Target currency, defaults to the range's own
+   * @returns Annual SalaryRange, or null if the currency cannot be converted
+   */
+  function toAnnual(
+    range: SalaryRange,
+    currency: string = range.currency
+  ): SalaryRange | null {
+    const factor = config.periodsPerYear[range.period];
+    const min = convertCurrency(range.min * factor, range.currency, currency);
+    const max = convertCurrency(range.max * factor, range.currency, currency);
+    if (min === null || max === null) return null;
+
+    return {
+      min: Math.round(min),
+      max: Math.round(max),
+      currency,
+      period: "year",
+    };
+  }
+
+  /**
+   * Compare a job's salary with a candidate's expected annual salary
+   *
+   * The job range "meets" the expectation when even its minimum reaches the
+   * expected minimum, is "partial" when only the top of the band does, and
+   * is "below" otherwise.
+   *
+   * @param range - The job's parsed salary range
+   * @param preferences - The candidate's preferences
+   * @returns CompensationFit, or null when the two cannot be compared
+   */
+  function calculateCompensationFit(
+    range: SalaryRange | null,
+    preferences: CandidatePreferences
+  ): CompensationFit | null {
+    if (!range || preferences.salaryMin === undefined) return null;
+
+    const currency = preferences.currency || config.defaultCurrency;
+    const offered = toAnnual(range, currency);
+    if (!offered) return null;
+
+    const expectedMin = preferences.salaryMin;
+    let score: number;
+    let status: CompensationFit["status"];
+    if (offered.min >= expectedMin) {
+      score = 1;
+      status = "meets";
+    } else if (offered.max >= expectedMin) {
+      // Credit the share of the band that reaches the expectation
+      const share = (offered.max - expectedMin) / (offered.max - offered.min);
+      score = config.partialFitFloor + (1 - config.partialFitFloor) * share;
+      status = "partial";
+    } else {
+      score = config.belowFitFactor * (offered.max / expectedMin);
+      status = "below";
+    }
+
+    return {
+      score: Math.round(score * 100) / 100,
+      status,
+      offeredMin: offered.min,
+      offeredMax: offered.max,
+      expectedMin,
+      ...(preferences.salaryMax !== undefined && {
+        expectedMax: preferences.salaryMax,
+      }),
+      currency,
+    };
+  }
+
+  /**
+   * Format an amount for display, e.g. "130,000 USD"
+   *
+   * @param amount - The amount
+   * @param currency - ISO 4217 code
+   * @returns Formatted amount
+   */
+  function formatAmount(amount: number, currency: string): string {
+    return `${Math.round(amount).toLocaleString("en-US")} ${currency}`;
+  }
+
+  // Helper methods
+  function parseAmount(raw: string): number {
+    const value = raw.replace(/[.,]$/, "");
+    // "120,000" and "60.000" use separators for thousands; "45.50" is decimal
+    if (/^\d{1,3}([.,]\d{3})+$/.test(value)) {
+      return Number(value.replace(/[.,]/g, ""));
+    }
+    return Number(value.replace(/,/g, ""));
+  }
+
+  function findCurrency(text: string): string | null {
+    const code = config.currencyCodes.find((entry) =>
+      new RegExp(`\\b${entry}\\b`, "i").test(text)
+    );
+    if (code) return code;
+
+    const symbol = config.currencySymbols.find(([entry]) =>
+      text.includes(entry)
+    );
+    return symbol ? symbol[1] : null;
+  }
+
+  // Return the public API
+  return {
+    parseSalary,
+    convertCurrency,
+    toAnnual,
+    calculateCompensationFit,
+    formatAmount,
+  };
+}
+
+// Export a singleton instance for backward compatibility
+export const salaryParser = createSalaryParser();
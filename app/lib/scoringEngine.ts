@@ -1,4 +1,6 @@
 import { skillNormalizer } from "./skillNormalizer";
+import { preferenceMatcher } from "./preferenceMatcher";
+import { skillGraph } from "./skillGraph";
 import {
   Candidate,
   Job,
@@ -7,22 +9,46 @@ import {
   ScoreBreakdown,
   ExperienceGap,
   Experience,
+  ScoringWeights,
+  LevelDelta,
+  KnockoutCriteria,
+  KnockoutFailure,
+  SkillProficiency,
 } from "../types/matching";
 
 // Type definitions for better type safety
-interface ScoringWeights {
-  skillMatch: number;
-  experience: number;
-  transferableSkills: number;
-  potential: number;
-}
-
 interface ScoringConfig {
-  weights: ScoringWeights;
+  defaultWeightProfile: string;
+  weightProfiles: Record<string, ScoringWeights>;
+  weightSumTolerance: number;
   defaultCacheExpiryMinutes: number;
   maxRelatedSkillsBonus: number;
   experienceNormalizationMonths: number;
   degreeLevels: Record<string, number>;
+  selfReportedWeight: number;
+  unverifiedClaimPenalty: number;
+  defaultSkillLevel: number;
+  minDirectMatchCredit: number;
+  recencyHalfLifeMonths: Record<string, number>;
+  defaultRecencyHalfLifeMonths: number;
+  recentEducationYears: number;
+  mutualFitWeight: number;
+  minTransferStrength: number;
+  prerequisiteLearnabilityBonus: number;
+}
+
+interface ScoringEngineOptions {
+  clock: () => Date;
+}
+
+interface ScoringOptions {
+  asOf?: Date;
+}
+
+interface RecencyAdjustment {
+  effectiveDuration: number;
+  discountedMonths: number;
+  monthsSinceUsed?: number;
 }
 
 interface SkillMatchResult {
@@ -30,6 +56,7 @@ interface SkillMatchResult {
   directMatches: string[];
   relatedMatches: string[];
   missingSkills: string[];
+  levelDeltas: LevelDelta[];
 }
 
 interface ExperienceResult {
@@ -59,12 +86,54 @@ interface PotentialResult {
  * simple skill matching to consider multiple factors that contribute to
  * job-candidate fit:
  *
- * Scoring Weights:
+ * Scoring Weights (default profile):
  * - Skill Match (40%): Direct and related skill matches
  * - Experience (30%): Depth and relevance of experience
  * - Transferable Skills (20%): Skills that can transfer to required skills
  * - Potential (10%): Learning ability, growth trajectory, education
  *
+ * Jobs can reference a named weight profile (e.g. "junior", "senior",
+ * "research") through `Job.weightProfile` to shift emphasis between factors.
+ * The profile used is echoed back in the resulting `MatchingScore`.
+ *
+ * Skill depth comes from the candidate's proficiency records: the level
+ * backed by evidence (or, failing that, the complexity of their work on the
+ * skill) is blended with the self-reported level and compared against each
+ * requirement's `requiredLevel`. The per-skill differences are reported as
+ * `breakdown.levelDeltas`.
+ *
+ * Related and transferable skills come from `skillGraph`, so relatedness can
+ * run over several hops of the knowledge graph. Each candidate skill counts
+ * in proportion to the strength of its path to the required skill, and paths
+ * weaker than `minTransferStrength` are ignored.
+ *
+ * A candidate who lacks a required skill but has another member of its
+ * family (a parent, child or sibling, such as Python 2 for Python) gets
+ * partial direct-match credit, scaled by the family strength and their level
+ * in that member. The requirement is reported as a related match.
+ *
+ * The learnability of a missing skill also follows the graph's prerequisite
+ * edges: the more of a skill's prerequisites the candidate already has, the
+ * larger the `prerequisiteLearnabilityBonus` it gets.
+ *
+ * Experience that carries dates loses weight the longer ago it ended: its
+ * duration is halved every `recencyHalfLifeMonths` for the skill's category,
+ * so fast-moving areas such as Frontend decay faster than Database. The
+ * months removed are reported on each `ExperienceGap`.
+ *
+ * Knockout criteria on a job (`Job.knockouts`) are hard filters: they do not
+ * change the weighted score, but any failure sets `passesKnockouts: false`
+ * and is listed in `breakdown.knockoutFailures`.
+ *
+ * The reverse direction, how well the job fits the candidate's preferences,
+ * is reported as `mutualFit`. `combinedScore` blends it into `overallScore`
+ * with `mutualFitWeight` and is what candidate-side rankings sort on.
+ *
+ * Date-sensitive factors (recency decay, "recent education") are evaluated
+ * against an as-of date: `options.asOf` when given, otherwise the engine's
+ * clock. The date used is echoed back as `MatchingScore.asOf`, so historical
+ * scores can be reproduced for audits.
+ *
  * The scoring system provides explainable results with detailed breakdowns
  * showing matched skills, missing skills, experience gaps, and potential indicators.
  *
@@ -78,21 +147,45 @@ interface PotentialResult {
  */
 
 // Create scoring engine with configuration
-export function createScoringEngine(): ReturnType<
-  typeof createScoringEngineInstance
-> {
-  return createScoringEngineInstance();
+export function createScoringEngine(
+  options: Partial<ScoringEngineOptions> = {}
+): ReturnType<typeof createScoringEngineInstance> {
+  return createScoringEngineInstance(options);
 }
 
-function createScoringEngineInstance() {
+function createScoringEngineInstance(options: Partial<ScoringEngineOptions>) {
+  const clock = options.clock || (() => new Date());
+
   // Configuration
   const config: ScoringConfig = {
-    weights: {
-      skillMatch: 0.4,
-      experience: 0.3,
-      transferableSkills: 0.2,
-      potential: 0.1,
+    defaultWeightProfile: "default",
+    weightProfiles: {
+      default: {
+        skillMatch: 0.4,
+        experience: 0.3,
+        transferableSkills: 0.2,
+        potential: 0.1,
+      },
+      junior: {
+        skillMatch: 0.3,
+        experience: 0.15,
+        transferableSkills: 0.25,
+        potential: 0.3,
+      },
+      senior: {
+        skillMatch: 0.35,
+        experience: 0.45,
+        transferableSkills: 0.15,
+        potential: 0.05,
+      },
+      research: {
+        skillMatch: 0.3,
+        experience: 0.2,
+        transferableSkills: 0.25,
+        potential: 0.25,
+      },
     },
+    weightSumTolerance: 0.001,
     defaultCacheExpiryMinutes: 5,
     maxRelatedSkillsBonus: 0.3,
     experienceNormalizationMonths: 24,
@@ -105,51 +198,95 @@ function createScoringEngineInstance() {
       diploma: 0.5,
       certificate: 0.25,
     },
+    selfReportedWeight: 0.3,
+    unverifiedClaimPenalty: 1,
+    defaultSkillLevel: 2,
+    minDirectMatchCredit: 0.5,
+    recencyHalfLifeMonths: {
+      Frontend: 24,
+      "AI/ML": 24,
+      Cloud: 36,
+      DevOps: 36,
+      Backend: 48,
+      Testing: 48,
+      Programming: 60,
+      Database: 84,
+    },
+    defaultRecencyHalfLifeMonths: 48,
+    recentEducationYears: 5,
+    mutualFitWeight: 0.25,
+    minTransferStrength: 0.2,
+    prerequisiteLearnabilityBonus: 0.4,
   };
 
   /**
    * Calculate the overall matching score between a candidate and job.
    *
    * This is the main scoring function that combines multiple factors:
-   * 1. Skill match score (40% weight) - direct and related skill matches
-   * 2. Experience score (30% weight) - depth and relevance of experience
-   * 3. Transferable skills score (20% weight) - skills that can transfer
-   * 4. Potential score (10% weight) - learning ability and growth trajectory
+   * 1. Skill match score - direct and related skill matches
+   * 2. Experience score - depth and relevance of experience
+   * 3. Transferable skills score - skills that can transfer
+   * 4. Potential score - learning ability and growth trajectory
+   *
+   * Factors are weighted by the job's weight profile (40/30/20/10 by default).
    *
    * The function returns a comprehensive score object with:
    * - Overall score (weighted average of all factors)
    * - Individual factor scores for transparency
+   * - The weight profile and weights that were applied
    * - Detailed breakdown for explainability
    *
    * @param candidate - The candidate to evaluate
    * @param job - The job to match against
+   * @param options - Optional as-of date for date-sensitive factors
    * @returns MatchingScore - Complete scoring result with breakdown
    */
   function calculateMatchingScore(
     candidate: Candidate,
-    job: Job
+    job: Job,
+    options: ScoringOptions = {}
   ): MatchingScore {
+    const asOf = options.asOf || clock();
     const skillMatchResult = calculateSkillMatchScore(
       job.requirements,
       candidate
     );
     const experienceResult = calculateExperienceScore(
       job.requirements,
-      candidate
+      candidate,
+      asOf
     );
     const transferableSkillsResult = calculateTransferableSkillsScore(
       job.requirements,
       candidate
     );
-    const potentialResult = calculatePotentialScore(candidate);
+    const potentialResult = calculatePotentialScore(candidate, asOf);
+
+    const weightProfile = job.weightProfile || config.defaultWeightProfile;
+    const weights = findWeightProfile(weightProfile);
+    if (!weights) {
+      throw new Error(
+        `Job ${job.id} references invalid weight profile "${weightProfile}"`
+      );
+    }
 
     const overallScore =
-      skillMatchResult.score * config.weights.skillMatch +
-      experienceResult.score * config.weights.experience +
-      transferableSkillsResult.score * config.weights.transferableSkills +
-      potentialResult.score * config.weights.potential;
+      skillMatchResult.score * weights.skillMatch +
+      experienceResult.score * weights.experience +
+      transferableSkillsResult.score * weights.transferableSkills +
+      potentialResult.score * weights.potential;
 
-    const breakdown = generateScoreBreakdown(job.requirements, candidate);
+    const breakdown = generateScoreBreakdown(
+      job.requirements,
+      candidate,
+      asOf,
+      job.knockouts
+    );
+
+    const mutualFit = preferenceMatcher.calculateMutualFit(candidate, job);
+    const combinedScore =
+      overallScore * (1 - config.mutualFitWeight) +
+      mutualFit.score * config.mutualFitWeight;
 
     return {
       overallScore: Math.round(overallScore * 100) / 100,
@@ -158,12 +295,98 @@ function createScoringEngineInstance() {
       transferableSkillsScore:
         Math.round(transferableSkillsResult.score * 100) / 100,
       potentialScore: Math.round(potentialResult.score * 100) / 100,
+      weightProfile,
+      weights: { ...weights },
+      asOf: asOf.toISOString(),
+      passesKnockouts: breakdown.knockoutFailures.length === 0,
+      mutualFit,
+      combinedScore: Math.round(combinedScore * 100) / 100,
       breakdown,
     };
   }
 
   /**
-   * Calculate skill match score (40% weight)
+   * Validate a set of scoring weights
+   *
+   * @param weights - The weights to validate
+   * @returns Array of validation errors (empty if the weights are valid)
+   */
+  function validateWeights(weights: ScoringWeights): string[] {
+    const errors: string[] = [];
+    const values = [
+      weights.skillMatch,
+      weights.experience,
+      weights.transferableSkills,
+      weights.potential,
+    ];
+
+    if (values.some((value) => typeof value !== "number" || isNaN(value))) {
+      errors.push("All weights must be numbers");
+      return errors;
+    }
+
+    if (values.some((value) => value < 0 || value > 1)) {
+      errors.push("Each weight must be between 0 and 1");
+    }
+
+    const sum = values.reduce((total, value) => total + value, 0);
+    if (Math.abs(sum - 1) > config.weightSumTolerance) {
+      errors.push(
+        `Weights must sum to 1 (got ${Math.round(sum * 1000) / 1000})`
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * Register (or replace) a named weight profile
+   *
+   * @param name - Profile name that jobs can reference
+   * @param weights - Factor weights, which must sum to 1
+   */
+  function registerWeightProfile(name: string, weights: ScoringWeights): void {
+    if (!name.trim()) {
+      throw new Error("Weight profile name is required");
+    }
+
+    const errors = validateWeights(weights);
+    if (errors.length > 0) {
+      throw new Error(
+        `Weight profile "${name}" is invalid: ${errors.join(", ")}`
+      );
+    }
+
+    config.weightProfiles[name] = { ...weights };
+  }
+
+  /**
+   * Get the weights for a named profile
+   *
+   * @param name - Profile name
+   * @returns ScoringWeights if the profile exists, undefined otherwise
+   */
+  function getWeightProfile(name: string): ScoringWeights | undefined {
+    const weights = findWeightProfile(name);
+    return weights ? { ...weights } : undefined;
+  }
+
+  /**
+   * Get all registered weight profiles
+   *
+   * @returns Map of profile names to weights
+   */
+  function getWeightProfiles(): Record<string, ScoringWeights> {
+    return Object.fromEntries(
+      Object.entries(config.weightProfiles).map(([name, weights]) => [
+        name,
+        { ...weights },
+      ])
+    );
+  }
+
+  /**
+   * Calculate skill match score
    *
    * @param requirements - Job requirements to match against
    * @param candidate - Candidate to evaluate
@@ -178,6 +401,7 @@ function createScoringEngineInstance() {
     const directMatches: string[] = [];
     const relatedMatches: string[] = [];
     const missingSkills: string[] = [];
+    const levelDeltas: LevelDelta[] = [];
 
     for (const requirement of requirements) {
       const weight = requirement.isRequired ? 2 : 1;
@@ -186,9 +410,24 @@ function createScoringEngineInstance() {
       const candidateSkill = findCandidateSkill(requirement.skillId, candidate);
 
       if (candidateSkill) {
-        // Direct match
-        totalScore += weight * 1.0;
+        // Direct match, scaled by how well the proficiency meets the level
+        const candidateLevel = getSkillLevel(requirement.skillId, candidate);
+        const levelScore = calculateLevelAlignment(
+          candidateLevel,
+          requirement.requiredLevel
+        );
+        totalScore +=
+          weight *
+          (config.minDirectMatchCredit +
+            (1 - config.minDirectMatchCredit) * levelScore);
         directMatches.push(requirement.skillId);
+        levelDeltas.push({
+          skillId: requirement.skillId,
+          requiredLevel: requirement.requiredLevel,
+          candidateLevel,
+          delta:
+            Math.round((candidateLevel - requirement.requiredLevel) * 10) / 10,
+        });
 
         // Related skills bonus
         const relatedBonus = calculateRelatedSkillsBonus(
@@ -197,14 +436,16 @@ function createScoringEngineInstance() {
         );
         totalScore += weight * relatedBonus * config.maxRelatedSkillsBonus;
       } else {
-        // Check for related skills
+        // Check for related skills and family members, whichever is worth
+        // more
         const relatedBonus = calculateRelatedSkillsBonus(
           requirement.skillId,
           candidate
         );
-        totalScore += weight * relatedBonus * 0.5;
+        const familyCredit = calculateFamilyCredit(requirement, candidate);
+        totalScore += weight * Math.max(relatedBonus * 0.5, familyCredit);
 
-        if (relatedBonus > 0) {
+        if (relatedBonus > 0 || familyCredit > 0) {
           relatedMatches.push(requirement.skillId);
         } else {
           missingSkills.push(requirement.skillId);
@@ -217,19 +458,22 @@ function createScoringEngineInstance() {
       directMatches,
       relatedMatches,
       missingSkills,
+      levelDeltas,
     };
   }
 
   /**
-   * Calculate experience score (30% weight)
+   * Calculate experience score
    *
    * @param requirements - Job requirements to match against
    * @param candidate - Candidate to evaluate
+   * @param asOf - Reference date for recency decay
    * @returns ExperienceResult with score and detailed breakdown
    */
   function calculateExperienceScore(
     requirements: JobRequirement[],
-    candidate: Candidate
+    candidate: Candidate,
+    asOf: Date = clock()
   ): ExperienceResult {
     let totalScore = 0;
     let totalWeight = 0;
@@ -244,13 +488,19 @@ function createScoringEngineInstance() {
 
       if (experience) {
         relevantExperience.push(experience);
-
-        // Duration factor (0-1)
-        const durationScore = Math.min(
-          experience.duration / requirement.minDuration,
-          1.0
+        const recency = calculateRecencyAdjustment(
+          experience,
+          asOf,
+          findProficiency(requirement.skillId, candidate)?.lastUsed
         );
 
+        // Duration factor (0-1), after recency decay; a requirement with no
+        // minimum duration is always met
+        const durationScore =
+          requirement.minDuration > 0
+            ? Math.min(recency.effectiveDuration / requirement.minDuration, 1)
+            : 1;
+
         // Complexity factor (0-1)
         const complexityScore = experience.complexityLevel / 5.0;
 
@@ -259,7 +509,7 @@ function createScoringEngineInstance() {
 
         // Level alignment factor
         const levelScore = calculateLevelAlignment(
-          experience.complexityLevel,
+          getSkillLevel(requirement.skillId, candidate),
           requirement.requiredLevel
         );
 
@@ -268,14 +518,25 @@ function createScoringEngineInstance() {
         totalScore += weight * experienceScore;
 
         // Calculate gap if any
-        const gap = Math.max(0, requirement.minDuration - experience.duration);
+        const gap = Math.max(
+          0,
+          requirement.minDuration - recency.effectiveDuration
+        );
         if (gap > 0) {
           gaps.push({
             skillId: requirement.skillId,
             requiredDuration: requirement.minDuration,
             candidateDuration: experience.duration,
+            discountedMonths: recency.discountedMonths,
+            ...(recency.monthsSinceUsed !== undefined && {
+              monthsSinceUsed: recency.monthsSinceUsed,
+            }),
             gap,
-            learnability: calculateLearnability(requirement.skillId, candidate),
+            learnability: calculateLearnability(
+              requirement.skillId,
+              candidate,
+              asOf
+            ),
           });
         }
       } else {
@@ -286,8 +547,13 @@ function createScoringEngineInstance() {
           skillId: requirement.skillId,
           requiredDuration: requirement.minDuration,
           candidateDuration: 0,
+          discountedMonths: 0,
           gap: requirement.minDuration,
-          learnability: calculateLearnability(requirement.skillId, candidate),
+          learnability: calculateLearnability(
+            requirement.skillId,
+            candidate,
+            asOf
+          ),
         });
       }
     }
@@ -300,7 +566,7 @@ function createScoringEngineInstance() {
   }
 
   /**
-   * Calculate transferable skills score (20% weight)
+   * Calculate transferable skills score
    *
    * @param requirements - Job requirements to match against
    * @param candidate - Candidate to evaluate
@@ -348,7 +614,13 @@ function createScoringEngineInstance() {
             1.0
           );
 
-          return baseTransferability * experienceFactor;
+          // Weaker, longer paths through the skill graph transfer less
+          const pathStrength = skillGraph.getRelationshipStrength(
+            skill.skillId,
+            requirement.skillId
+          );
+
+          return baseTransferability * experienceFactor * pathStrength;
         });
 
         transferabilityScores.push(...scores);
@@ -368,17 +640,20 @@ function createScoringEngineInstance() {
   }
 
   /**
-   * Calculate potential score (10% weight)
+   * Calculate potential score
    *
    * @param candidate - Candidate to evaluate
    * @returns PotentialResult with score and detailed breakdown
    */
-  function calculatePotentialScore(candidate: Candidate): PotentialResult {
+  function calculatePotentialScore(
+    candidate: Candidate,
+    asOf: Date = clock()
+  ): PotentialResult {
     // Education factor
     const educationScore = calculateEducationScore(candidate.education);
 
     // Learning indicators
-    const learningScore = calculateLearningIndicators(candidate);
+    const learningScore = calculateLearningIndicators(candidate, asOf);
 
     // Growth trajectory
     const growthScore = calculateGrowthTrajectory(candidate);
@@ -405,7 +680,7 @@ function createScoringEngineInstance() {
       indicators.push("Diverse skill set");
     }
 
-    if (candidate.education.some((edu) => 2024 - edu.graduationYear <= 5)) {
+    if (hasRecentEducation(candidate, asOf)) {
       indicators.push("Recent education");
     }
 
@@ -423,15 +698,23 @@ function createScoringEngineInstance() {
    *
    * @param requirements - Job requirements to match against
    * @param candidate - Candidate to evaluate
+   * @param asOf - Reference date for date-sensitive factors
+   * @param knockouts - Optional knockout criteria to check
    * @returns ScoreBreakdown with comprehensive analysis
    */
   function generateScoreBreakdown(
     requirements: JobRequirement[],
-    candidate: Candidate
+    candidate: Candidate,
+    asOf: Date = clock(),
+    knockouts?: KnockoutCriteria
   ): ScoreBreakdown {
     const skillMatchResult = calculateSkillMatchScore(requirements, candidate);
-    const experienceResult = calculateExperienceScore(requirements, candidate);
-    const potentialResult = calculatePotentialScore(candidate);
+    const experienceResult = calculateExperienceScore(
+      requirements,
+      candidate,
+      asOf
+    );
+    const potentialResult = calculatePotentialScore(candidate, asOf);
 
     const matchedSkills = skillMatchResult.directMatches;
     const missingSkills = skillMatchResult.missingSkills;
@@ -460,10 +743,261 @@ function createScoringEngineInstance() {
       experienceGaps,
       potentialIndicators,
       riskFactors,
+      levelDeltas: skillMatchResult.levelDeltas,
+      knockoutFailures: evaluateKnockouts(candidate, knockouts, asOf),
     };
   }
 
+  /**
+   * Get a candidate's effective proficiency level for a skill
+   *
+   * Evidence (the proficiency record's `evidenceLevel`, or the highest
+   * complexity of their experience with the skill) is blended with the
+   * self-reported level. Self-reported levels without evidence count one
+   * level lower.
+   *
+   * @param skillId - The skill to look up
+   * @param candidate - The candidate to evaluate
+   * @returns Level on the 1-5 scale, or 0 if the candidate lacks the skill
+   */
+  function getSkillLevel(skillId: string, candidate: Candidate): number {
+    if (!findCandidateSkill(skillId, candidate)) return 0;
+
+    const proficiency = findProficiency(skillId, candidate);
+    const experienceLevels = candidate.experience
+      .filter((exp) => exp.skillId === skillId)
+      .map((exp) => exp.complexityLevel);
+    const evidenceLevel =
+      proficiency?.evidenceLevel ??
+      (experienceLevels.length > 0 ? Math.max(...experienceLevels) : undefined);
+    const selfReportedLevel = proficiency?.selfReportedLevel;
+
+    let level: number;
+    if (evidenceLevel !== undefined && selfReportedLevel !== undefined) {
+      level =
+        evidenceLevel * (1 - config.selfReportedWeight) +
+        selfReportedLevel * config.selfReportedWeight;
+    } else if (evidenceLevel !== undefined) {
+      level = evidenceLevel;
+    } else if (selfReportedLevel !== undefined) {
+      level = Math.max(1, selfReportedLevel - config.unverifiedClaimPenalty);
+    } else {
+      level = config.defaultSkillLevel;
+    }
+
+    return Math.round(level * 10) / 10;
+  }
+
+  /**
+   * Discount an experience's duration by how long ago the skill was last used
+   *
+   * The skill counts as last used when the experience ended, or at the
+   * proficiency record's `lastUsed` date if that is later. Undated experience
+   * with no `lastUsed` is taken at face value. Ongoing experience (a start
+   * date without an end date) is treated as current.
+   *
+   * @param experience - The experience entry to adjust
+   * @param asOf - Reference date for "now"
+   * @param lastUsed - The candidate's `lastUsed` date for the skill, if any
+   * @returns RecencyAdjustment with the effective and discounted months
+   */
+  function calculateRecencyAdjustment(
+    experience: Experience,
+    asOf: Date = clock(),
+    lastUsed?: string
+  ): RecencyAdjustment {
+    if (!experience.startDate && !experience.endDate && !lastUsed) {
+      return { effectiveDuration: experience.duration, discountedMonths: 0 };
+    }
+
+    const now = asOf.getUTCFullYear() * 12 + asOf.getUTCMonth();
+    const endedAt = experience.endDate
+      ? parseMonth(experience.endDate)
+      : experience.startDate
+      ? now
+      : -Infinity;
+    const end = lastUsed ? Math.max(endedAt, parseMonth(lastUsed)) : endedAt;
+    const monthsSinceUsed = Math.max(0, now - end);
+
+    const category = skillNormalizer.getSkillById(experience.skillId)?.category;
+    const halfLife =
+      (category && config.recencyHalfLifeMonths[category]) ||
+      config.defaultRecencyHalfLifeMonths;
+    const effectiveDuration = Math.round(
+      experience.duration * Math.pow(0.5, monthsSinceUsed / halfLife)
+    );
+
+    return {
+      effectiveDuration,
+      discountedMonths: experience.duration - effectiveDuration,
+      monthsSinceUsed,
+    };
+  }
+
+  /**
+   * Check a candidate against a job's knockout criteria
+   *
+   * Missing candidate data (no location, no work authorization) fails the
+   * corresponding rule, since eligibility cannot be confirmed.
+   *
+   * @param candidate - The candidate to evaluate
+   * @param knockouts - The job's knockout criteria
+   * @param asOf - Reference date for ongoing experience
+   * @returns Array of failed knockouts (empty if the candidate passes)
+   */
+  function evaluateKnockouts(
+    candidate: Candidate,
+    knockouts: KnockoutCriteria | undefined,
+    asOf: Date = clock()
+  ): KnockoutFailure[] {
+    if (!knockouts) return [];
+
+    const failures: KnockoutFailure[] = [];
+
+    for (const skillId of knockouts.requiredSkills || []) {
+      if (!findCandidateSkill(skillId, candidate)) {
+        const name = skillNormalizer.getSkillById(skillId)?.canonicalName;
+        failures.push({
+          rule: "requiredSkill",
+          reason: `Missing required skill ${name || skillId}`,
+        });
+      }
+    }
+
+    if (knockouts.minTotalYears !== undefined) {
+      const totalYears = calculateTotalExperienceMonths(candidate, asOf) / 12;
+      if (totalYears < knockouts.minTotalYears) {
+        failures.push({
+          rule: "minTotalYears",
+          reason: `${Math.round(totalYears * 10) / 10} years of experience, ${
+            knockouts.minTotalYears
+          } required`,
+        });
+      }
+    }
+
+    if (knockouts.minDegree) {
+      const requiredLevel = getDegreeLevel(knockouts.minDegree);
+      const highestLevel = Math.max(
+        0,
+        ...candidate.education.map((edu) => getDegreeLevel(edu.degree))
+      );
+      if (highestLevel < requiredLevel) {
+        failures.push({
+          rule: "minDegree",
+          reason: `Requires at least a ${knockouts.minDegree} degree`,
+        });
+      }
+    }
+
+    if (knockouts.locations?.length && !knockouts.remote) {
+      const location = candidate.location?.toLowerCase();
+      if (!location) {
+        failures.push({
+          rule: "location",
+          reason: "Candidate location not provided",
+        });
+      } else if (
+        !knockouts.locations.some((entry) =>
+          location.includes(entry.toLowerCase())
+        )
+      ) {
+        failures.push({
+          rule: "location",
+          reason: `Based in ${
+            candidate.location
+          }, role requires ${knockouts.locations.join(" or ")}`,
+        });
+      }
+    }
+
+    if (knockouts.workAuthorization?.length) {
+      const authorized = (candidate.workAuthorization || []).map((entry) =>
+        entry.toLowerCase()
+      );
+      if (
+        !knockouts.workAuthorization.some((entry) =>
+          authorized.includes(entry.toLowerCase())
+        )
+      ) {
+        failures.push({
+          rule: "workAuthorization",
+          reason: `Not authorized to work in ${knockouts.workAuthorization.join(
+            " or "
+          )}`,
+        });
+      }
+    }
+
+    return failures;
+  }
+
+  /**
+   * Estimate a candidate's total career length in months
+   *
+   * Experience entries are per skill and usually overlap, so they are not
+   * summed: dated entries contribute the union of their months, undated ones
+   * their single longest duration, and the larger of the two is used.
+   *
+   * @param candidate - The candidate to evaluate
+   * @param asOf - Reference date for ongoing experience
+   * @returns Total months of experience
+   */
+  function calculateTotalExperienceMonths(
+    candidate: Candidate,
+    asOf: Date = clock()
+  ): number {
+    const now = asOf.getUTCFullYear() * 12 + asOf.getUTCMonth();
+    const datedMonths = new Set<number>();
+    let longestUndated = 0;
+
+    for (const exp of candidate.experience) {
+      if (!exp.startDate) {
+        longestUndated = Math.max(longestUndated, exp.duration);
+        continue;
+      }
+
+      const end = exp.endDate ? parseMonth(exp.endDate) : now;
+      for (let month = parseMonth(exp.startDate); month <= end; month++) {
+        datedMonths.add(month);
+      }
+    }
+
+    return Math.max(datedMonths.size, longestUndated);
+  }
+
+  /**
+   * Check whether a candidate graduated recently
+   *
+   * @param candidate - The candidate to evaluate
+   * @param asOf - Reference date for "now"
+   * @returns True if any degree was completed within `recentEducationYears`
+   */
+  function hasRecentEducation(
+    candidate: Candidate,
+    asOf: Date = clock()
+  ): boolean {
+    return candidate.education.some(
+      (edu) =>
+        asOf.getUTCFullYear() - edu.graduationYear <=
+        config.recentEducationYears
+    );
+  }
+
   // Helper methods
+  // Own keys only, so names such as "toString" do not resolve to inherited
+  // Object.prototype members
+  function findWeightProfile(name: string): ScoringWeights | undefined {
+    return Object.hasOwn(config.weightProfiles, name)
+      ? config.weightProfiles[name]
+      : undefined;
+  }
+
+  function parseMonth(date: string): number {
+    const [year, month] = date.split("-").map((part) => parseInt(part, 10));
+    return year * 12 + (month || 1) - 1;
+  }
+
   function findCandidateSkill(
     skillId: string,
     candidate: Candidate
@@ -471,6 +1005,13 @@ function createScoringEngineInstance() {
     return candidate.skills.find((skill) => skill === skillId);
   }
 
+  function findProficiency(
+    skillId: string,
+    candidate: Candidate
+  ): SkillProficiency | undefined {
+    return candidate.proficiencies?.find((entry) => entry.skillId === skillId);
+  }
+
   function findRelevantExperience(
     skillId: string,
     candidate: Candidate
@@ -486,11 +1027,13 @@ function createScoringEngineInstance() {
     if (!requiredSkill) return [];
 
     return candidate.experience.filter((exp) => {
-      const candidateSkill = skillNormalizer.getSkillById(exp.skillId);
-      if (!candidateSkill) return false;
+      if (exp.skillId === skillId) return false;
 
-      // Check if skills are related
-      return skillNormalizer.areSkillsRelated(skillId, exp.skillId);
+      // Check if skills are related, directly or through the skill graph
+      return (
+        skillGraph.getRelationshipStrength(exp.skillId, skillId) >=
+        config.minTransferStrength
+      );
     });
   }
 
@@ -501,19 +1044,52 @@ function createScoringEngineInstance() {
     const relatedSkills = findTransferableSkills(requiredSkillId, candidate);
     if (relatedSkills.length === 0) return 0;
 
-    // Calculate average experience level of related skills
+    // Calculate average experience level of related skills, weighted by how
+    // closely each one is related
     const avgExperience =
-      relatedSkills.reduce((sum, skill) => sum + skill.duration, 0) /
-      relatedSkills.length;
+      relatedSkills.reduce(
+        (sum, skill) =>
+          sum +
+          skill.duration *
+            skillGraph.getRelationshipStrength(skill.skillId, requiredSkillId),
+        0
+      ) / relatedSkills.length;
     return Math.min(avgExperience / config.experienceNormalizationMonths, 1.0);
   }
 
+  // Direct-match credit for the best family member the candidate has,
+  // scaled by how closely that member is related
+  function calculateFamilyCredit(
+    requirement: JobRequirement,
+    candidate: Candidate
+  ): number {
+    return candidate.skills.reduce((best, skillId) => {
+      const strength = skillGraph.getFamilyStrength(
+        skillId,
+        requirement.skillId
+      );
+      if (strength === 0) return best;
+
+      const levelScore = calculateLevelAlignment(
+        getSkillLevel(skillId, candidate),
+        requirement.requiredLevel
+      );
+      const credit =
+        strength *
+        (config.minDirectMatchCredit +
+          (1 - config.minDirectMatchCredit) * levelScore);
+      return Math.max(best, credit);
+    }, 0);
+  }
+
+  // Falling short of the required level costs a fifth per level; exceeding
+  // it is not penalised
   function calculateLevelAlignment(
     candidateLevel: number,
     requiredLevel: number
   ): number {
-    const levelDiff = Math.abs(candidateLevel - requiredLevel);
-    return Math.max(0, 1 - levelDiff / 5);
+    const shortfall = Math.max(0, requiredLevel - candidateLevel);
+    return Math.max(0, 1 - shortfall / 5);
   }
 
   function calculateEducationScore(
@@ -541,7 +1117,10 @@ function createScoringEngineInstance() {
     return 0;
   }
 
-  function calculateLearningIndicators(candidate: Candidate): number {
+  function calculateLearningIndicators(
+    candidate: Candidate,
+    asOf: Date
+  ): number {
     let indicators = 0;
     let total = 0;
 
@@ -552,10 +1131,7 @@ function createScoringEngineInstance() {
     total += 1;
 
     // Check for recent education
-    const recentEducation = candidate.education.some(
-      (edu) => 2024 - edu.graduationYear <= 5
-    );
-    if (recentEducation) {
+    if (hasRecentEducation(candidate, asOf)) {
       indicators += 1;
     }
     total += 1;
@@ -593,7 +1169,8 @@ function createScoringEngineInstance() {
 
   function calculateLearnability(
     skillId: string,
-    candidate: Candidate
+    candidate: Candidate,
+    asOf: Date
   ): number {
     const skill = skillNormalizer.getSkillById(skillId);
     if (!skill) return 0.5;
@@ -602,9 +1179,20 @@ function createScoringEngineInstance() {
     const baseLearnability = 1 - skill.difficultyLevel / 5;
 
     // Adjust based on candidate's learning indicators
-    const learningIndicators = calculateLearningIndicators(candidate);
-
-    return Math.min(1, baseLearnability + learningIndicators * 0.3);
+    const learningIndicators = calculateLearningIndicators(candidate, asOf);
+
+    // Having the groundwork makes a skill much easier to pick up
+    const prerequisiteCoverage = skillGraph.getPrerequisiteCoverage(skillId, [
+      ...candidate.skills,
+      ...candidate.experience.map((exp) => exp.skillId),
+    ]);
+    const prerequisiteBonus =
+      (prerequisiteCoverage || 0) * config.prerequisiteLearnabilityBonus;
+
+    return Math.min(
+      1,
+      baseLearnability + learningIndicators * 0.3 + prerequisiteBonus
+    );
   }
 
   // Return the public API
@@ -615,6 +1203,16 @@ function createScoringEngineInstance() {
     calculateTransferableSkillsScore,
     calculatePotentialScore,
     generateScoreBreakdown,
+    validateWeights,
+    registerWeightProfile,
+    getWeightProfile,
+    getWeightProfiles,
+    getSkillLevel,
+    calculateRecencyAdjustment,
+    hasRecentEducation,
+    evaluateKnockouts,
+    calculateTotalExperienceMonths,
+    getDegreeLevel,
   };
 }
 
@@ -0,0 +1,341 @@
+import { repository } from "./repository";
+import { skillNormalizer } from "./skillNormalizer";
+import { skillTaxonomy } from "./skillTaxonomy";
+import { validateSkill } from "./validation";
+import {
+  Skill,
+  SkillDiscovery,
+  SkillDiscoverySource,
+  SkillDiscoveryStatus,
+} from "../types/matching";
+
+// Type definitions for better type safety
+interface SkillDiscoveryConfig {
+  minTermLength: number;
+  maxNgramLength: number;
+  maxExamples: number;
+  contextRadius: number;
+  defaultMinCount: number;
+  stopWords: Set<string>;
+  draftSkill: Pick<Skill, "category" | "difficultyLevel" | "timeToProficiency">;
+}
+
+interface SkillDiscoveryOptions {
+  clock: () => Date;
+}
+
+interface DiscoveryQuery {
+  status?: SkillDiscoveryStatus;
+  minCount?: number;
+  limit?: number;
+}
+
+/**
+ * Queue of possible new skills found in parsed documents.
+ *
+ * Resume and job description parsing reports the words that match no known
+ * skill (`unmatchedTerms`). `recordUnmatchedTerms` collects them, together
+ * with runs of up to `maxNgramLength` consecutive unmatched words such as
+ * "svelte kit", and counts how many documents each is seen in. It keeps a
+ * few example contexts for each term. Stop words, numbers, e-mail addresses and terms
+ * that already resolve to a skill are skipped.
+ *
+ * Curators review the queue and resolve each entry:
+ * - `promoteDiscovery` adds the term to the taxonomy as a new skill
+ * - `aliasDiscovery` adds the term as an alias of an existing skill
+ * - `ignoreDiscovery` keeps counting the term but hides it from review
+ *
+ * Promotions and aliases go through `skillTaxonomy`, so they are validated,
+ * persisted and picked up by the normalizer straight away.
+ *
+ * @example
+ * ```typescript
+ * const parsed = resumeParser.parseResume(text);
+ * skillDiscovery.recordUnmatchedTerms(parsed.unmatchedTerms, text, "resume");
+ * const queue = skillDiscovery.getDiscoveries({ minCount: 3 });
+ * ```
+ */
+
+// Create skill discovery queue with configuration
+export function createSkillDiscovery(
+  options: Partial<SkillDiscoveryOptions> = {}
+): ReturnType<typeof createSkillDiscoveryInstance> {
+  return createSkillDiscoveryInstance(options);
+}
+
+function createSkillDiscoveryInstance(options: Partial<SkillDiscoveryOptions>) {
+  const clock = options.clock || (() => new Date());
+
+  // Configuration
+  const config: SkillDiscoveryConfig = {
+    minTermLength: 2,
+    maxNgramLength: 3,
+    maxExamples: 3,
+    contextRadius: 40,
+    defaultMinCount: 2,
+    stopWords: new Set(
+      [
+        // English function words
+        "a an and any are as at be been but by can could did do does for from had has have he her his how i if in into is it its me my no not of on or our she so such than that the their them then there these they this those to up us was we were what when where which while who will with would you your",
+        // Words common to every resume and job description
+        "ability able about across advanced also based best build building built business candidate clients company customer customers daily deliver delivered design designed develop developed developer developers development engineer engineering engineers environment excellent experience experienced expert familiarity familiar features good great help including join key knowledge lead led level looking maintain maintained manage managed modern month months new other plus preferred product production proficient project projects required requirements responsible role senior skills software solutions strong support systems team teams tools understanding use used users using various work worked working year years",
+      ]
+        .join(" ")
+        .split(" ")
+    ),
+    draftSkill: { category: "Other", difficultyLevel: 3, timeToProficiency: 4 },
+  };
+
+  /**
+   * Record unmatched terms from a parsed document
+   *
+   * @param terms - Unmatched terms, in the order they appear in the text
+   * @param text - The text the terms came from, used for example contexts
+   * @param source - Kind of document the text came from
+   * @returns The discoveries that were created or updated
+   */
+  function recordUnmatchedTerms(
+    terms: string[],
+    text: string,
+    source: SkillDiscoverySource
+  ): SkillDiscovery[] {
+    const now = clock().toISOString();
+    const flatText = text.replace(/\s+/g, " ");
+    const lowerText = flatText.toLowerCase();
+    const updated = new Map<string, SkillDiscovery>();
+
+    for (const term of collectTerms(terms, lowerText)) {
+      const id = term.toLowerCase();
+      // A term counts once per document, however often it is repeated
+      if (updated.has(id)) continue;
+
+      const discovery = repository.getSkillDiscoveryById(id) || {
+        id,
+        term: findOriginalCasing(term, flatText, lowerText),
+        count: 0,
+        sources: { resume: 0, job: 0 },
+        examples: [],
+        status: "pending" as SkillDiscoveryStatus,
+        firstSeen: now,
+        lastSeen: now,
+      };
+
+      const context = getContext(id, flatText, lowerText);
+      updated.set(id, {
+        ...discovery,
+        count: discovery.count + 1,
+        sources: {
+          ...discovery.sources,
+          [source]: discovery.sources[source] + 1,
+        },
+        examples:
+          context &&
+          discovery.examples.length < config.maxExamples &&
+          !discovery.examples.some((example) => example.context === context)
+            ? [...discovery.examples, { source, context }]
+            : discovery.examples,
+        lastSeen: now,
+      });
+    }
+
+    return updated.size > 0
+      ? repository.saveSkillDiscoveries(Array.from(updated.values()))
+      : [];
+  }
+
+  /**
+   * List discoveries for review, most frequently seen first
+   *
+   * @param query - Status (default "pending"), minimum count and limit
+   * @returns Matching discoveries
+   */
+  function getDiscoveries(query: DiscoveryQuery = {}): SkillDiscovery[] {
+    const status = query.status || "pending";
+    const minCount = query.minCount ?? config.defaultMinCount;
+
+    const discoveries = repository
+      .getAllSkillDiscoveries()
+      .filter(
+        (discovery) =>
+          discovery.status === status && discovery.count >= minCount
+      )
+      .sort((a, b) => b.count - a.count || a.id.localeCompare(b.id));
+
+    return query.limit ? discoveries.slice(0, query.limit) : discoveries;
+  }
+
+  /**
+   * Promote a discovery to a new skill
+   *
+   * @param discoveryId - The discovery to promote
+   * @param overrides - Skill fields to use instead of the drafted ones
+   * @returns The resolved discovery and the new skill
+   */
+  function promoteDiscovery(
+    discoveryId: string,
+    overrides: Partial<Skill> = {}
+  ): { discovery: SkillDiscovery; skill: Skill } {
+    const discovery = requirePending(discoveryId);
+
+    const result = validateSkill({
+      id: discovery.id.replace(/\s+/g, "-"),
+      canonicalName: discovery.term,
+      aliases: [],
+      relatedSkills: [],
+      ...config.draftSkill,
+      ...overrides,
+    });
+    if (!result.value) {
+      throw new Error(`Invalid skill: ${result.errors.join("; ")}`);
+    }
+
+    const skill = skillTaxonomy.addSkill(result.value);
+    return { discovery: resolve(discovery, "promoted", skill.id), skill };
+  }
+
+  /**
+   * Attach a discovery to an existing skill as an alias
+   *
+   * @param discoveryId - The discovery to attach
+   * @param skillId - The skill that gains the alias
+   * @returns The resolved discovery and the updated skill
+   */
+  function aliasDiscovery(
+    discoveryId: string,
+    skillId: string
+  ): { discovery: SkillDiscovery; skill: Skill } {
+    const discovery = requirePending(discoveryId);
+    const existing = repository.getSkillById(skillId);
+    if (!existing) {
+      throw new Error(`Skill with ID ${skillId} not found`);
+    }
+
+    const skill = skillTaxonomy.updateSkill({
+      ...existing,
+      aliases: [...existing.aliases, discovery.term],
+    });
+    return { discovery: resolve(discovery, "aliased", skill.id), skill };
+  }
+
+  /**
+   * Hide a discovery from review; it keeps being counted
+   *
+   * @param discoveryId - The discovery to ignore
+   * @returns The ignored discovery
+   */
+  function ignoreDiscovery(discoveryId: string): SkillDiscovery {
+    return resolve(requirePending(discoveryId), "ignored");
+  }
+
+  // Helper methods
+  function collectTerms(rawTerms: string[], lowerText: string): string[] {
+    const words = rawTerms.map(cleanTerm);
+    const terms: string[] = [];
+
+    words.forEach((word, index) => {
+      if (!isCandidateWord(word)) return;
+      if (!resolvesToSkill(word)) terms.push(word);
+
+      // Runs of unmatched words that also sit next to each other in the text
+      for (let length = 2; length <= config.maxNgramLength; length++) {
+        const run = words.slice(index, index + length);
+        if (run.length < length || !run.every(isCandidateWord)) break;
+
+        const phrase = run.join(" ");
+        if (!lowerText.includes(phrase.toLowerCase())) break;
+        if (!resolvesToSkill(phrase)) terms.push(phrase);
+      }
+    });
+
+    return terms;
+  }
+
+  // Trim punctuation but keep the characters skill names use, such as the
+  // "+" in "c++", the "#" in "c#" and the leading "." in ".net"
+  function cleanTerm(raw: string): string {
+    return raw
+      .trim()
+      .replace(/^[^\p{L}\p{N}.]+|[^\p{L}\p{N}+#]+$/gu, "")
+      .replace(/^\.(?![\p{L}\p{N}])/u, "");
+  }
+
+  function isCandidateWord(word: string): boolean {
+    return (
+      word.length >= config.minTermLength &&
+      /\p{L}/u.test(word) &&
+      !config.stopWords.has(word.toLowerCase()) &&
+      !/[@/]/.test(word)
+    );
+  }
+
+  function resolvesToSkill(term: string): boolean {
+    return Boolean(
+      skillNormalizer.getSkillById(
+        skillNormalizer.normalizeSkill(term).toLowerCase()
+      )
+    );
+  }
+
+  function findOriginalCasing(
+    term: string,
+    flatText: string,
+    lowerText: string
+  ): string {
+    const index = lowerText.indexOf(term.toLowerCase());
+    return index >= 0 ? flatText.slice(index, index + term.length) : term;
+  }
+
+  function getContext(
+    term: string,
+    flatText: string,
+    lowerText: string
+  ): string | null {
+    const index = lowerText.indexOf(term);
+    if (index < 0) return null;
+
+    const start = Math.max(0, index - config.contextRadius);
+    const end = Math.min(
+      flatText.length,
+      index + term.length + config.contextRadius
+    );
+    return `${start > 0 ? "…" : ""}${flatText.slice(start, end).trim()}${
+      end < flatText.length ? "…" : ""
+    }`;
+  }
+
+  function requirePending(discoveryId: string): SkillDiscovery {
+    const discovery = repository.getSkillDiscoveryById(discoveryId);
+    if (!discovery) {
+      throw new Error(`Skill discovery ${discoveryId} not found`);
+    }
+    if (discovery.status !== "pending") {
+      throw new Error(
+        `Skill discovery ${discoveryId} is already ${discovery.status}`
+      );
+    }
+    return discovery;
+  }
+
+  function resolve(
+    discovery: SkillDiscovery,
+    status: SkillDiscoveryStatus,
+    resolvedSkillId?: string
+  ): SkillDiscovery {
+    const [resolved] = repository.saveSkillDiscoveries([
+      { ...discovery, status, ...(resolvedSkillId && { resolvedSkillId }) },
+    ]);
+    return resolved;
+  }
+
+  // Return the public API
+  return {
+    recordUnmatchedTerms,
+    getDiscoveries,
+    promoteDiscovery,
+    aliasDiscovery,
+    ignoreDiscovery,
+  };
+}
+
+// Export a singleton instance for backward compatibility
+export const skillDiscovery = createSkillDiscovery();
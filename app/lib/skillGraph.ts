@@ -0,0 +1,448 @@
+import { repository } from "./repository";
+import { skillNormalizer } from "./skillNormalizer";
+import {
+  LearningPath,
+  LearningPathStep,
+  Skill,
+  SkillDistance,
+  SkillPathStep,
+  SkillRelationship,
+} from "../types/matching";
+
+// Type definitions for better type safety
+type RelationshipType = SkillRelationship["relationshipType"];
+type EdgeType = SkillPathStep["relationshipType"];
+
+interface SkillGraphConfig {
+  maxHops: number;
+  hopDecay: number;
+  relatedSkillsStrength: number;
+  typeFactors: Record<RelationshipType, number>;
+  prerequisiteReverseFactor: number;
+  defaultFamilyStrength: number;
+  siblingFactor: number;
+  headStartFactor: number;
+}
+
+interface SkillEdge {
+  to: string;
+  relationshipType: EdgeType;
+  strength: number; // effective strength in this direction
+}
+
+/**
+ * Transitive skill relationships over the knowledge graph.
+ *
+ * The graph is built from the repository's skill relationships and each
+ * skill's `relatedSkills` list (which carry no strength, so they get
+ * `relatedSkillsStrength`). Every edge is weighted by its relationship type:
+ * - `related` and `alternative` edges work in both directions
+ * - `prerequisite` edges are directional: knowing React implies knowing its
+ *   prerequisite JavaScript at full strength, while JavaScript only gives a
+ *   head start on React (`prerequisiteReverseFactor`)
+ * - `family` edges join a skill to its `parentSkill` in both directions at
+ *   the child's `familyStrength` (`defaultFamilyStrength` if unset), and
+ *   children of one parent to each other at `siblingFactor` times the
+ *   weaker of their strengths, so Python 2 counts toward Python and AngularJS
+ *   toward Angular
+ *
+ * `getSkillDistance` finds the strongest path of up to `maxHops` edges. A
+ * path's strength is the product of its hop strengths, further multiplied by
+ * `hopDecay` for every hop after the first, so a Vue developer gets some
+ * credit toward Angular through JavaScript without anyone
+ * having written a Vue-Angular edge.
+ *
+ * Prerequisite edges also drive learnability. Knowing a skill implies knowing
+ * its prerequisites, so `getPrerequisiteCoverage` and `getLearningPath` first
+ * expand what a candidate knows along those edges. A learning path lists the
+ * missing prerequisites in study order, ending with the target skill. Each
+ * step is estimated from the skill's `timeToProficiency`, shortened by up to
+ * `headStartFactor` when a skill already known (or learned earlier in the
+ * path) is closely related.
+ *
+ * The graph is built once and cached; call `rebuild` after editing the
+ * taxonomy (after `skillNormalizer.rebuildSkillMaps`, which it reads skills
+ * from).
+ *
+ * @example
+ * ```typescript
+ * const distance = skillGraph.getSkillDistance("vue", "angular");
+ * console.log(distance?.hops, distance?.strength, distance?.path);
+ * ```
+ */
+
+// Create skill graph with configuration
+export function createSkillGraph(): ReturnType<
+  typeof createSkillGraphInstance
+> {
+  return createSkillGraphInstance();
+}
+
+function createSkillGraphInstance() {
+  // Configuration
+  const config: SkillGraphConfig = {
+    maxHops: 3,
+    hopDecay: 0.8,
+    relatedSkillsStrength: 0.6,
+    typeFactors: { prerequisite: 1, related: 1, alternative: 0.9 },
+    prerequisiteReverseFactor: 0.6,
+    defaultFamilyStrength: 0.6,
+    siblingFactor: 0.7,
+    headStartFactor: 0.5,
+  };
+
+  let adjacency = buildAdjacency();
+  let prerequisites = buildPrerequisites();
+  const distanceCache = new Map<string, SkillDistance | null>();
+
+  /**
+   * Find the strongest relationship path between two skills
+   *
+   * @param fromSkillId - The skill the candidate has
+   * @param toSkillId - The skill being transferred to
+   * @returns SkillDistance with hops, strength and path, or null if the
+   *          skills are unknown or not connected within `maxHops`
+   */
+  function getSkillDistance(
+    fromSkillId: string,
+    toSkillId: string
+  ): SkillDistance | null {
+    const key = `${fromSkillId}|${toSkillId}`;
+    if (!distanceCache.has(key)) {
+      distanceCache.set(key, findStrongestPath(fromSkillId, toSkillId));
+    }
+    return distanceCache.get(key) || null;
+  }
+
+  /**
+   * Get the strength of the strongest path between two skills
+   *
+   * @param fromSkillId - The skill the candidate has
+   * @param toSkillId - The skill being transferred to
+   * @returns Path strength from 0 (unrelated) to 1 (same skill)
+   */
+  function getRelationshipStrength(
+    fromSkillId: string,
+    toSkillId: string
+  ): number {
+    return getSkillDistance(fromSkillId, toSkillId)?.strength || 0;
+  }
+
+  /**
+   * Get the partial credit one family member gives another
+   *
+   * @param fromSkillId - The skill the candidate has
+   * @param toSkillId - The skill being credited
+   * @returns Strength of the family edge, or 0 when the skills are not
+   *          parent and child or siblings
+   */
+  function getFamilyStrength(fromSkillId: string, toSkillId: string): number {
+    const from = skillNormalizer.getSkillById(fromSkillId);
+    const to = skillNormalizer.getSkillById(toSkillId);
+    if (!from || !to || from.id === to.id) return 0;
+
+    if (from.parentSkill === to.id) return getMemberStrength(from);
+    if (to.parentSkill === from.id) return getMemberStrength(to);
+    if (from.parentSkill && from.parentSkill === to.parentSkill) {
+      return (
+        config.siblingFactor *
+        Math.min(getMemberStrength(from), getMemberStrength(to))
+      );
+    }
+    return 0;
+  }
+
+  /**
+   * List the skills reachable from a skill, strongest first
+   *
+   * @param skillId - The starting skill
+   * @param minStrength - Leave out paths weaker than this
+   * @returns SkillDistance for every reachable skill
+   */
+  function getReachableSkills(
+    skillId: string,
+    minStrength: number = 0
+  ): SkillDistance[] {
+    return Array.from(adjacency.keys())
+      .filter((other) => other !== skillId)
+      .map((other) => getSkillDistance(skillId, other))
+      .filter(
+        (distance): distance is SkillDistance =>
+          distance !== null && distance.strength >= minStrength
+      )
+      .sort((a, b) => b.strength - a.strength);
+  }
+
+  /**
+   * Get the direct prerequisites of a skill
+   *
+   * @param skillId - The skill to look up
+   * @returns Prerequisite relationships with the skill as source
+   */
+  function getPrerequisites(skillId: string): SkillRelationship[] {
+    return prerequisites.get(skillId) || [];
+  }
+
+  /**
+   * Measure how much of a skill's groundwork a candidate already has
+   *
+   * @param skillId - The skill to be learned
+   * @param knownSkillIds - Skills the candidate has
+   * @returns Strength-weighted share of direct prerequisites known (0-1), or
+   *          null when the skill has no prerequisites
+   */
+  function getPrerequisiteCoverage(
+    skillId: string,
+    knownSkillIds: string[]
+  ): number | null {
+    const required = getPrerequisites(skillId);
+    if (required.length === 0) return null;
+
+    const known = expandKnownSkills(knownSkillIds);
+    const total = required.reduce((sum, rel) => sum + rel.strength, 0);
+    const covered = required
+      .filter((rel) => known.has(rel.targetSkill))
+      .reduce((sum, rel) => sum + rel.strength, 0);
+    return total > 0 ? covered / total : 0;
+  }
+
+  /**
+   * Plan the order in which to learn a skill and its missing prerequisites
+   *
+   * @param knownSkillIds - Skills the candidate has
+   * @param targetSkillId - The skill to learn
+   * @returns LearningPath with ordered steps, or null for an unknown skill
+   */
+  function getLearningPath(
+    knownSkillIds: string[],
+    targetSkillId: string
+  ): LearningPath | null {
+    if (!skillNormalizer.getSkillById(targetSkillId)) return null;
+
+    const known = expandKnownSkills(knownSkillIds);
+    const order: string[] = [];
+    const visited = new Set<string>();
+
+    // Depth-first, so every prerequisite is listed before what depends on it
+    const visit = (skillId: string) => {
+      if (visited.has(skillId) || known.has(skillId)) return;
+      visited.add(skillId);
+      getPrerequisites(skillId).forEach((rel) => visit(rel.targetSkill));
+      order.push(skillId);
+    };
+    visit(targetSkillId);
+
+    const learned = Array.from(known);
+    const steps: LearningPathStep[] = [];
+    for (const skillId of order) {
+      const skill = skillNormalizer.getSkillById(skillId);
+      if (!skill) continue;
+
+      const headStart = learned
+        .map((knownId) => ({
+          skillId: knownId,
+          strength: getRelationshipStrength(knownId, skillId),
+        }))
+        .sort((a, b) => b.strength - a.strength)[0];
+      const headStartStrength = headStart?.strength || 0;
+
+      steps.push({
+        skillId,
+        skillName: skill.canonicalName,
+        prerequisites: getPrerequisites(skillId).map((rel) => rel.targetSkill),
+        estimatedMonths: Math.max(
+          1,
+          Math.round(
+            skill.timeToProficiency *
+              (1 - config.headStartFactor * headStartStrength)
+          )
+        ),
+        ...(headStartStrength > 0 && { headStartSkillId: headStart.skillId }),
+      });
+      learned.push(skillId);
+    }
+
+    return {
+      targetSkillId,
+      steps,
+      totalMonths: steps.reduce((sum, step) => sum + step.estimatedMonths, 0),
+    };
+  }
+
+  /**
+   * Rebuild the graph from the current taxonomy and clear cached paths
+   *
+   * @returns Number of skills in the graph
+   */
+  function rebuild(): number {
+    adjacency = buildAdjacency();
+    prerequisites = buildPrerequisites();
+    distanceCache.clear();
+    return adjacency.size;
+  }
+
+  // Helper methods
+  function buildAdjacency(): Map<string, SkillEdge[]> {
+    const graph = new Map<string, SkillEdge[]>();
+    skillNormalizer.getAllSkills().forEach((skill) => graph.set(skill.id, []));
+
+    const addEdge = (
+      from: string,
+      to: string,
+      relationshipType: EdgeType,
+      strength: number
+    ) => {
+      const edges = graph.get(from);
+      if (!edges || !graph.has(to) || from === to) return;
+
+      // Keep only the strongest edge between two skills
+      const existing = edges.find((edge) => edge.to === to);
+      if (existing && existing.strength >= strength) return;
+      if (existing) edges.splice(edges.indexOf(existing), 1);
+      edges.push({ to, relationshipType, strength });
+    };
+
+    skillNormalizer.getAllSkills().forEach((skill) =>
+      skill.relatedSkills.forEach((relatedId) => {
+        addEdge(skill.id, relatedId, "related", config.relatedSkillsStrength);
+        addEdge(relatedId, skill.id, "related", config.relatedSkillsStrength);
+      })
+    );
+
+    repository.getAllSkillRelationships().forEach((relationship) => {
+      const { sourceSkill, targetSkill, relationshipType, strength } =
+        relationship;
+      const forward = strength * config.typeFactors[relationshipType];
+      const reverse =
+        relationshipType === "prerequisite"
+          ? forward * config.prerequisiteReverseFactor
+          : forward;
+
+      addEdge(sourceSkill, targetSkill, relationshipType, forward);
+      addEdge(targetSkill, sourceSkill, relationshipType, reverse);
+    });
+
+    // Each child is linked to its parent and to every sibling
+    const children = skillNormalizer
+      .getAllSkills()
+      .filter((skill) => skill.parentSkill);
+    children.forEach((child) =>
+      [child.parentSkill as string, ...children.map((other) => other.id)]
+        .filter((otherId) => getFamilyStrength(child.id, otherId) > 0)
+        .forEach((otherId) => {
+          const strength = getFamilyStrength(child.id, otherId);
+          addEdge(child.id, otherId, "family", strength);
+          addEdge(otherId, child.id, "family", strength);
+        })
+    );
+
+    return graph;
+  }
+
+  function buildPrerequisites(): Map<string, SkillRelationship[]> {
+    const graph = new Map<string, SkillRelationship[]>();
+    repository
+      .getAllSkillRelationships()
+      .filter(
+        (rel) =>
+          rel.relationshipType === "prerequisite" &&
+          adjacency.has(rel.sourceSkill) &&
+          adjacency.has(rel.targetSkill)
+      )
+      .forEach((rel) =>
+        graph.set(rel.sourceSkill, [...(graph.get(rel.sourceSkill) || []), rel])
+      );
+    return graph;
+  }
+
+  function getMemberStrength(skill: Skill): number {
+    return skill.familyStrength ?? config.defaultFamilyStrength;
+  }
+
+  // Knowing a skill implies knowing its prerequisites, transitively
+  function expandKnownSkills(knownSkillIds: string[]): Set<string> {
+    const known = new Set<string>();
+    const pending = [...knownSkillIds];
+    while (pending.length > 0) {
+      const skillId = pending.pop() as string;
+      if (known.has(skillId)) continue;
+      known.add(skillId);
+      getPrerequisites(skillId).forEach((rel) => pending.push(rel.targetSkill));
+    }
+    return known;
+  }
+
+  // Best-first search: hop strengths and the decay are at most 1, so a path
+  // never gets stronger as it grows and the first time the target is taken
+  // off the frontier its path is the strongest one within `maxHops`. A
+  // settled skill is revisited when reached in fewer hops, since a weaker but
+  // shorter path may still reach the target in time.
+  function findStrongestPath(from: string, to: string): SkillDistance | null {
+    if (!adjacency.has(from) || !adjacency.has(to)) return null;
+    if (from === to) return { from, to, hops: 0, strength: 1, path: [] };
+
+    const frontier: {
+      skillId: string;
+      strength: number;
+      path: SkillPathStep[];
+    }[] = [{ skillId: from, strength: 1, path: [] }];
+    const settledHops = new Map<string, number>();
+    const isSettled = (skillId: string, hops: number) =>
+      (settledHops.get(skillId) ?? Infinity) <= hops;
+
+    while (frontier.length > 0) {
+      frontier.sort((a, b) => b.strength - a.strength);
+      const current = frontier.shift();
+      if (!current || isSettled(current.skillId, current.path.length)) {
+        continue;
+      }
+      settledHops.set(current.skillId, current.path.length);
+
+      if (current.skillId === to) {
+        return {
+          from,
+          to,
+          hops: current.path.length,
+          strength: Math.round(current.strength * 1000) / 1000,
+          path: current.path,
+        };
+      }
+      if (current.path.length >= config.maxHops) continue;
+
+      for (const edge of adjacency.get(current.skillId) || []) {
+        if (isSettled(edge.to, current.path.length + 1)) continue;
+        const decay = current.path.length > 0 ? config.hopDecay : 1;
+        frontier.push({
+          skillId: edge.to,
+          strength: current.strength * edge.strength * decay,
+          path: [
+            ...current.path,
+            {
+              from: current.skillId,
+              to: edge.to,
+              relationshipType: edge.relationshipType,
+              strength: edge.strength,
+            },
+          ],
+        });
+      }
+    }
+
+    return null;
+  }
+
+  // Return the public API
+  return {
+    getSkillDistance,
+    getRelationshipStrength,
+    getFamilyStrength,
+    getReachableSkills,
+    getPrerequisites,
+    getPrerequisiteCoverage,
+    getLearningPath,
+    rebuild,
+  };
+}
+
+// Export a singleton instance for backward compatibility
+export const skillGraph = createSkillGraph();
@@ -1,21 +1,55 @@
-import { skills } from "../data/skills";
-import { Skill } from "../types/matching";
+import { repository } from "./repository";
+import { Skill, SkillMention } from "../types/matching";
 
 // Type definitions for better type safety
 interface SkillNormalizerConfig {
   fuzzyMatchVariations: Record<string, string>;
-  minWordLength: number;
+  fuzzyThreshold: number;
+  suggestionThreshold: number;
+  minFuzzyLength: number;
+  minSuggestionLength: number;
+  maxFuzzyCandidates: number;
+  maxSuggestions: number;
+  tokenPattern: RegExp;
+  versionPattern: RegExp;
+  versionTokenPattern: RegExp;
+  durationWords: Set<string>;
+  negationCues: Set<string>;
+  negationWindow: number;
+  clauseBreakWords: Set<string>;
+  clauseBreakPattern: RegExp;
   defaultDifficultyLevel: number;
   defaultTimeToProficiency: number;
 }
 
 interface SkillExtractionResult {
   skills: string[];
+  negatedSkills: string[];
+  mentions: SkillMention[];
   confidence: number;
   matchedTerms: string[];
   unmatchedTerms: string[];
 }
 
+interface Token {
+  text: string;
+  lower: string;
+  start: number;
+  end: number;
+}
+
+// A skill name or alias split into tokens, e.g. ["amazon", "web", "services"]
+interface SkillPhrase {
+  tokens: string[];
+  skill: Skill;
+}
+
+interface SkillSuggestion {
+  skill: Skill;
+  matchedName: string; // the name or alias that was closest
+  similarity: number; // 0-1, from edit distance
+}
+
 interface SkillSearchResult {
   skill: Skill;
   matchType: "exact" | "alias" | "fuzzy" | "partial";
@@ -36,12 +70,35 @@ interface SkillAnalysisResult {
  * This module provides comprehensive skill management capabilities including:
  * - Skill name normalization and canonicalization
  * - Fuzzy matching for skill variations and aliases
- * - Skill extraction from text content
+ * - Skill extraction from text content, with offsets and negation
  * - Related skill analysis and categorization
  * - Difficulty assessment and proficiency time estimation
  *
  * The normalizer maintains fast lookup maps for efficient skill resolution
- * and provides both exact and fuzzy matching capabilities.
+ * and provides both exact and fuzzy matching capabilities. The maps are
+ * built from the taxonomy in the repository; call `rebuildSkillMaps` after
+ * editing it so changes apply without a restart.
+ *
+ * Misspellings such as "Kubernets" resolve through an edit-distance
+ * comparison (Damerau-Levenshtein) against every name and alias. A trigram
+ * index narrows the comparison to a few close names, so lookups stay fast
+ * for large taxonomies. `fuzzyThreshold` sets how close a name of at least
+ * `minFuzzyLength` characters must be to resolve on its own; `suggestSkills`
+ * returns "did you mean" candidates down to `suggestionThreshold` for names
+ * as short as `minSuggestionLength`.
+ *
+ * Skills can form families: a skill with a `parentSkill` belongs to that
+ * skill's family, and family members may cover a range of major `versions`.
+ * Version-specific names resolve to the member covering that version, so
+ * "Angular 15" is Angular, "Angular 1.x" is AngularJS and "Python 2.7" is
+ * Python 2. This applies to `normalizeSkill` and to text extraction.
+ *
+ * Extraction tokenizes the text instead of searching for substrings, so
+ * "Java" does not fire on "JavaScript" and "TS" does not fire on "tests".
+ * Tokens keep the punctuation skill names use (C++, C#, .NET, Node.js), and
+ * names of several words such as "Amazon Web Services" match as phrases,
+ * longest first. A mention within a few words after a negation such as
+ * "no experience with" is reported as negated and not counted as a skill.
  *
  * @example
  * ```typescript
@@ -59,13 +116,15 @@ interface SkillAnalysisResult {
  */
 
 // Create skill normalizer with configuration
-export function createSkillNormalizer(): ReturnType<
-  typeof createSkillNormalizerInstance
-> {
-  return createSkillNormalizerInstance();
+export function createSkillNormalizer(
+  options: Partial<SkillNormalizerConfig> = {}
+): ReturnType<typeof createSkillNormalizerInstance> {
+  return createSkillNormalizerInstance(options);
 }
 
-function createSkillNormalizerInstance() {
+function createSkillNormalizerInstance(
+  options: Partial<SkillNormalizerConfig>
+) {
   // Configuration
   const config: SkillNormalizerConfig = {
     fuzzyMatchVariations: {
@@ -90,17 +149,63 @@ function createSkillNormalizerInstance() {
       devops: "devops",
       "cloud computing": "cloud",
     },
-    minWordLength: 3,
+    fuzzyThreshold: 0.8,
+    suggestionThreshold: 0.6,
+    // Ordinary five-letter words sit one edit away from skill names ("Reach"
+    // and React), so only longer names resolve on their own
+    minFuzzyLength: 6,
+    minSuggestionLength: 4,
+    maxFuzzyCandidates: 25,
+    maxSuggestions: 5,
+    // Words, keeping a leading "." (.NET), inner dots (Node.js), an
+    // apostrophe (don't) and a trailing "++" or "#" (C++, C#)
+    tokenPattern:
+      /(?:(?<![\p{L}\p{N}])\.(?=\p{L}))?[\p{L}\p{N}]+(?:['’]\p{L}+)?(?:\.[\p{L}\p{N}]+)*(?:\+\+|#)?/gu,
+    // "Angular 15", "Python 3.11", "AngularJS 1.x", "Java17"
+    versionPattern: /^(.+?)[\s-]*v?(\d+)(?:\.(?:\d+|x))*\+?$/,
+    versionTokenPattern: /^v?(\d+)(?:\.(?:\d+|x))*$/,
+    // "Python 2 years" is a duration, not a version
+    durationWords: new Set(["year", "years", "yr", "yrs", "month", "months"]),
+    negationCues: new Set([
+      "no",
+      "not",
+      "without",
+      "never",
+      "lack",
+      "lacks",
+      "lacking",
+      "none",
+      "neither",
+      "nor",
+      "unfamiliar",
+    ]),
+    negationWindow: 4,
+    clauseBreakWords: new Set(["but", "however", "although", "though", "yet"]),
+    clauseBreakPattern: /[.;:!?()\[\]\n]/,
     defaultDifficultyLevel: 1,
     defaultTimeToProficiency: 3,
+    ...options,
   };
 
   // Internal state
+  let skills: Skill[] = [];
   const skillMap = new Map<string, Skill>();
   const aliasMap = new Map<string, string>();
+  const phraseIndex = new Map<string, SkillPhrase[]>();
+  const nameIndex = new Map<string, Skill>();
+  const trigramIndex = new Map<string, Set<string>>();
+  const familyMembers = new Map<string, Skill[]>();
 
   // Initialize skill maps
   function initializeSkillMaps(): void {
+    skills = repository.getAllSkills();
+    skillMap.clear();
+    aliasMap.clear();
+    phraseIndex.clear();
+    nameIndex.clear();
+    trigramIndex.clear();
+    familyMembers.clear();
+
     // Create maps for fast lookups
     skills.forEach((skill) => {
       skillMap.set(skill.id, skill);
@@ -110,7 +215,25 @@ function createSkillNormalizerInstance() {
       skill.aliases.forEach((alias) => {
         aliasMap.set(alias.toLowerCase(), skill.canonicalName);
       });
+
+      [skill.canonicalName, ...skill.aliases].forEach((name) => {
+        addPhrase(name, skill);
+        addFuzzyName(name, skill);
+      });
+
+      const root = skill.parentSkill || skill.id;
+      familyMembers.set(root, [...(familyMembers.get(root) || []), skill]);
+    });
+
+    Object.entries(config.fuzzyMatchVariations).forEach(([name, skillId]) => {
+      const skill = skillMap.get(skillId);
+      if (skill) addPhrase(name, skill);
     });
+
+    // Try longer phrases first so "React Native" wins over "React"
+    phraseIndex.forEach((phrases) =>
+      phrases.sort((a, b) => b.tokens.length - a.tokens.length)
+    );
   }
 
   // Initialize on creation
@@ -136,6 +259,15 @@ function createSkillNormalizerInstance() {
       return aliasMap.get(normalizedName) || skillName;
     }
 
+    // Resolve version-specific names within the skill's family
+    const versioned = normalizedName.match(config.versionPattern);
+    const versionedSkill =
+      versioned &&
+      (findExactSkill(versioned[1]) || findFuzzyMatch(versioned[1]));
+    if (versioned && versionedSkill) {
+      return resolveVersion(versionedSkill, Number(versioned[2])).canonicalName;
+    }
+
     // Try fuzzy matching for common variations
     const fuzzyMatch = findFuzzyMatch(normalizedName);
     if (fuzzyMatch) {
@@ -159,84 +291,99 @@ function createSkillNormalizerInstance() {
       return skillMap.get(variation);
     }
 
-    // Try partial matching
-    for (const skill of skills) {
-      if (
-        skill.canonicalName.toLowerCase().includes(name) ||
-        name.includes(skill.canonicalName.toLowerCase())
-      ) {
-        return skill;
-      }
-
-      // Check aliases
-      for (const alias of skill.aliases) {
-        if (
-          alias.toLowerCase().includes(name) ||
-          name.includes(alias.toLowerCase())
-        ) {
-          return skill;
-        }
-      }
-    }
-
-    return undefined;
+    // Fall back to the closest name by edit distance
+    const [closest] = findSimilarNames(
+      name,
+      config.fuzzyThreshold,
+      config.minFuzzyLength
+    );
+    return closest?.skill;
   }
 
   /**
    * Extract skills from text content with detailed analysis
    *
    * @param text - The text to extract skills from
-   * @returns SkillExtractionResult with extracted skills and analysis
+   * @returns SkillExtractionResult with extracted skills, their mentions and
+   *   analysis
    */
   function extractSkillsFromText(text: string): SkillExtractionResult {
-    const normalizedText = text.toLowerCase();
-    const extractedSkills: string[] = [];
-    const foundSkills = new Set<string>();
+    const tokens = tokenize(text);
+    const mentions: SkillMention[] = [];
     const matchedTerms: string[] = [];
     const unmatchedTerms: string[] = [];
 
-    // First pass: look for exact matches
-    for (const skill of skills) {
-      const skillName = skill.canonicalName.toLowerCase();
-      const aliases = skill.aliases.map((alias) => alias.toLowerCase());
-
-      // Check canonical name
-      if (normalizedText.includes(skillName) && !foundSkills.has(skill.id)) {
-        extractedSkills.push(skill.canonicalName);
-        foundSkills.add(skill.id);
-        matchedTerms.push(skillName);
-        continue;
+    let negating = false;
+    let wordsSinceNegation = 0;
+    let previousEnd = 0;
+    let index = 0;
+
+    while (index < tokens.length) {
+      const token = tokens[index];
+      if (
+        config.clauseBreakPattern.test(text.slice(previousEnd, token.start))
+      ) {
+        negating = false;
       }
 
-      // Check aliases
-      for (const alias of aliases) {
-        if (normalizedText.includes(alias) && !foundSkills.has(skill.id)) {
-          extractedSkills.push(skill.canonicalName);
-          foundSkills.add(skill.id);
-          matchedTerms.push(alias);
-          break;
+      const phrase = matchPhrase(tokens, index, text);
+      if (phrase) {
+        let skill = phrase.skill;
+        let consumed = phrase.tokens.length;
+        let last = tokens[index + consumed - 1];
+
+        // A version right after the name picks the family member
+        const version = getVersion(
+          tokens[index + consumed],
+          tokens[index + consumed + 1]
+        );
+        if (
+          version !== null &&
+          !config.versionTokenPattern.test(last.lower) &&
+          /^\s+$/.test(text.slice(last.end, tokens[index + consumed].start))
+        ) {
+          skill = resolveVersion(skill, version);
+          last = tokens[index + consumed];
+          consumed++;
         }
-      }
-    }
 
-    // Second pass: fuzzy matching for remaining text
-    const words = normalizedText.split(/\s+/);
-    for (const word of words) {
-      if (word.length < config.minWordLength) {
-        unmatchedTerms.push(word);
+        const mentionText = text.slice(token.start, last.end);
+        mentions.push({
+          skillId: skill.id,
+          skillName: skill.canonicalName,
+          text: mentionText,
+          start: token.start,
+          end: last.end,
+          negated: negating && wordsSinceNegation <= config.negationWindow,
+        });
+        matchedTerms.push(mentionText.toLowerCase());
+        index += consumed;
+        previousEnd = last.end;
         continue;
       }
 
-      const fuzzyMatch = findFuzzyMatch(word);
-      if (fuzzyMatch && !foundSkills.has(fuzzyMatch.id)) {
-        extractedSkills.push(fuzzyMatch.canonicalName);
-        foundSkills.add(fuzzyMatch.id);
-        matchedTerms.push(word);
+      if (isNegationCue(token, tokens[index + 1])) {
+        negating = true;
+        wordsSinceNegation = 0;
+      } else if (config.clauseBreakWords.has(token.lower)) {
+        negating = false;
       } else {
-        unmatchedTerms.push(word);
+        wordsSinceNegation++;
       }
+
+      unmatchedTerms.push(token.lower);
+      index++;
+      previousEnd = token.end;
     }
 
+    // A skill counts when it is mentioned at least once without negation
+    const extractedSkills = new Set<string>();
+    const negatedSkills = new Set<string>();
+    mentions.forEach((mention) =>
+      (mention.negated ? negatedSkills : extractedSkills).add(mention.skillName)
+    );
+    extractedSkills.forEach((skillName) => negatedSkills.delete(skillName));
+
     // Calculate confidence based on match quality
     const confidence =
       matchedTerms.length > 0
@@ -247,7 +394,9 @@ function createSkillNormalizerInstance() {
         : 0;
 
     return {
-      skills: extractedSkills,
+      skills: Array.from(extractedSkills),
+      negatedSkills: Array.from(negatedSkills),
+      mentions,
       confidence,
       matchedTerms,
       unmatchedTerms,
@@ -263,6 +412,14 @@ function createSkillNormalizerInstance() {
   function searchSkills(query: string): SkillSearchResult[] {
     const normalizedQuery = query.toLowerCase().trim();
     const results: SkillSearchResult[] = [];
+    const similarity = new Map<string, number>();
+    findSimilarNames(
+      normalizedQuery,
+      config.suggestionThreshold,
+      config.minSuggestionLength
+    ).forEach((suggestion) =>
+      similarity.set(suggestion.skill.id, suggestion.similarity)
+    );
 
     for (const skill of skills) {
       let matchType: "exact" | "alias" | "fuzzy" | "partial" = "partial";
@@ -285,6 +442,11 @@ function createSkillNormalizerInstance() {
         matchType = "fuzzy";
         confidence = 0.8;
       }
+      // Misspelling, ranked by how close it is
+      else if (similarity.has(skill.id)) {
+        matchType = "fuzzy";
+        confidence = 0.8 * (similarity.get(skill.id) || 0);
+      }
       // Partial match
       else if (
         skill.canonicalName.toLowerCase().includes(normalizedQuery) ||
@@ -314,6 +476,24 @@ function createSkillNormalizerInstance() {
     });
   }
 
+  /**
+   * Suggest skills for a name that may be misspelled ("did you mean")
+   *
+   * @param name - The name to find suggestions for
+   * @param limit - Maximum number of suggestions
+   * @returns SkillSuggestion list, closest first, one entry per skill
+   */
+  function suggestSkills(
+    name: string,
+    limit: number = config.maxSuggestions
+  ): SkillSuggestion[] {
+    return findSimilarNames(
+      name.toLowerCase().trim(),
+      config.suggestionThreshold,
+      config.minSuggestionLength
+    ).slice(0, limit);
+  }
+
   /**
    * Get skill by ID
    *
@@ -491,12 +671,212 @@ function createSkillNormalizerInstance() {
     };
   }
 
+  /**
+   * Reload the taxonomy from the repository and rebuild the lookup maps
+   *
+   * @returns Number of skills loaded
+   */
+  function rebuildSkillMaps(): number {
+    initializeSkillMaps();
+    return skills.length;
+  }
+
+  // Helper methods
+  function getTrigrams(name: string): Set<string> {
+    const padded = `  ${name} `;
+    const trigrams = new Set<string>();
+    for (let i = 0; i < padded.length - 2; i++) {
+      trigrams.add(padded.slice(i, i + 3));
+    }
+    return trigrams;
+  }
+
+  function addFuzzyName(name: string, skill: Skill): void {
+    const key = name.toLowerCase().trim();
+    if (nameIndex.has(key)) return;
+
+    nameIndex.set(key, skill);
+    getTrigrams(key).forEach((trigram) =>
+      trigramIndex.set(
+        trigram,
+        (trigramIndex.get(trigram) || new Set()).add(key)
+      )
+    );
+  }
+
+  // Names sharing the most trigrams with the query are the only ones
+  // compared by edit distance, which keeps lookups cheap for large taxonomies
+  function findSimilarNames(
+    name: string,
+    threshold: number,
+    minLength: number
+  ): SkillSuggestion[] {
+    if (name.length < minLength) return [];
+
+    const shared = new Map<string, number>();
+    getTrigrams(name).forEach((trigram) =>
+      trigramIndex
+        .get(trigram)
+        ?.forEach((key) => shared.set(key, (shared.get(key) || 0) + 1))
+    );
+
+    const best = new Map<string, SkillSuggestion>();
+    Array.from(shared.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, config.maxFuzzyCandidates)
+      .forEach(([key]) => {
+        const skill = nameIndex.get(key);
+        if (!skill) return;
+
+        const similarity =
+          1 - getEditDistance(name, key) / Math.max(name.length, key.length);
+        const current = best.get(skill.id);
+        if (
+          similarity >= threshold &&
+          (!current || similarity > current.similarity)
+        ) {
+          best.set(skill.id, { skill, matchedName: key, similarity });
+        }
+      });
+
+    return Array.from(best.values()).sort(
+      (a, b) => b.similarity - a.similarity
+    );
+  }
+
+  // Damerau-Levenshtein distance (optimal string alignment): insertions,
+  // deletions, substitutions and swaps of adjacent characters cost 1 each
+  function getEditDistance(a: string, b: string): number {
+    const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+      Array.from({ length: b.length + 1 }, (_, j) =>
+        i === 0 ? j : j === 0 ? i : 0
+      )
+    );
+
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        rows[i][j] = Math.min(
+          rows[i - 1][j] + 1,
+          rows[i][j - 1] + 1,
+          rows[i - 1][j - 1] + cost
+        );
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+        }
+      }
+    }
+
+    return rows[a.length][b.length];
+  }
+
+  function tokenize(text: string): Token[] {
+    return Array.from(text.matchAll(config.tokenPattern), (match) => ({
+      text: match[0],
+      lower: match[0].toLowerCase(),
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    }));
+  }
+
+  function addPhrase(name: string, skill: Skill): void {
+    const tokens = tokenize(name).map((token) => token.lower);
+    if (tokens.length === 0) return;
+
+    const phrases = phraseIndex.get(tokens[0]) || [];
+    if (
+      !phrases.some(
+        (phrase) =>
+          phrase.skill.id === skill.id &&
+          phrase.tokens.join(" ") === tokens.join(" ")
+      )
+    ) {
+      phrases.push({ tokens, skill });
+    }
+    phraseIndex.set(tokens[0], phrases);
+  }
+
+  // Words of a phrase may be separated by spaces, hyphens or slashes
+  // ("CI/CD", "scikit-learn") but not by other punctuation
+  function matchPhrase(
+    tokens: Token[],
+    index: number,
+    text: string
+  ): SkillPhrase | undefined {
+    return (phraseIndex.get(tokens[index].lower) || []).find(
+      (phrase) =>
+        phrase.tokens.every((word, offset) => {
+          const token = tokens[index + offset];
+          if (!token || token.lower !== word) return false;
+          return (
+            offset === 0 ||
+            /^[\s/-]*$/.test(
+              text.slice(tokens[index + offset - 1].end, token.start)
+            )
+          );
+        }) &&
+        // "Python 2 years" should not match the "Python 2" phrase
+        !(
+          config.versionTokenPattern.test(
+            phrase.tokens[phrase.tokens.length - 1]
+          ) &&
+          config.durationWords.has(
+            tokens[index + phrase.tokens.length]?.lower ?? ""
+          )
+        )
+    );
+  }
+
+  function findExactSkill(name: string): Skill | undefined {
+    return (
+      skillMap.get(name) ||
+      skillMap.get((aliasMap.get(name) || "").toLowerCase())
+    );
+  }
+
+  // Major version of a token such as "15", "3.11" or "1.x", unless it
+  // reads as a duration ("2 years")
+  function getVersion(
+    token: Token | undefined,
+    next: Token | undefined
+  ): number | null {
+    const match = token?.lower.match(config.versionTokenPattern);
+    if (!match || (next && config.durationWords.has(next.lower))) return null;
+    return Number(match[1]);
+  }
+
+  // The family member covering a version, or the skill itself when no
+  // member declares that version
+  function resolveVersion(skill: Skill, version: number): Skill {
+    const members = familyMembers.get(skill.parentSkill || skill.id) || [];
+    return (
+      members.find(
+        (member) =>
+          member.versions !== undefined &&
+          version >= (member.versions.min ?? 0) &&
+          version <= (member.versions.max ?? Infinity)
+      ) || skill
+    );
+  }
+
+  // "not only React but also Vue" is not a negation
+  function isNegationCue(token: Token, next: Token | undefined): boolean {
+    if (token.lower.endsWith("n't") || token.lower.endsWith("n’t")) return true;
+    if (!config.negationCues.has(token.lower)) return false;
+    return !(
+      token.lower === "not" &&
+      (next?.lower === "only" || next?.lower === "just")
+    );
+  }
+
   // Return the public API
   return {
+    rebuildSkillMaps,
     normalizeSkill,
     findFuzzyMatch,
     extractSkillsFromText,
     searchSkills,
+    suggestSkills,
     getSkillById,
     getAllSkills,
     getSkillsByCategory,
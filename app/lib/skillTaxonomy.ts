@@ -0,0 +1,517 @@
+import { repository } from "./repository";
+import { skillGraph } from "./skillGraph";
+import { skillNormalizer } from "./skillNormalizer";
+import { taxonomyValidator } from "./taxonomyValidator";
+import {
+  Candidate,
+  Job,
+  JobRequirement,
+  Skill,
+  SkillProficiency,
+  SkillRelationship,
+} from "../types/matching";
+
+// Type definitions for better type safety
+type RelationshipKey = Omit<SkillRelationship, "strength">;
+
+interface SkillDeleteResult {
+  skillId: string;
+  relationshipsRemoved: number;
+}
+
+interface SkillMergeResult {
+  skill: Skill; // the surviving skill
+  mergedSkillId: string;
+  candidatesUpdated: number;
+  jobsUpdated: number;
+  relationshipsUpdated: number;
+}
+
+/**
+ * Runtime editing of the skills taxonomy.
+ *
+ * Every change is checked with the taxonomy validator before it is written:
+ * a change that would introduce an error (an alias collision, a prerequisite
+ * cycle, a relationship to an unknown skill...) is rejected and nothing is
+ * saved. Accepted changes are persisted through the repository, and the
+ * skill normalizer and skill graph are rebuilt so matching picks them up
+ * without a restart.
+ *
+ * Deleting a skill that candidates or jobs still reference is refused; merge
+ * it into another skill instead. `mergeSkills` folds one skill into another:
+ * the merged skill's names become aliases of the surviving one, and
+ * candidate, job, skill and relationship references are rewritten.
+ *
+ * Failures are thrown as errors whose messages contain "not found",
+ * "already exists", "in use" or "invalid", which the API maps to 404, 409,
+ * 409 and 400.
+ *
+ * @example
+ * ```typescript
+ * skillTaxonomy.addSkill({ id: "svelte", canonicalName: "Svelte", ... });
+ * skillTaxonomy.mergeSkills("reactjs-legacy", "react");
+ * ```
+ */
+
+// Create skill taxonomy service with configuration
+export function createSkillTaxonomy(): ReturnType<
+  typeof createSkillTaxonomyInstance
+> {
+  return createSkillTaxonomyInstance();
+}
+
+function createSkillTaxonomyInstance() {
+  /**
+   * Add a skill to the taxonomy
+   *
+   * @param skill - The validated skill to add
+   * @returns The stored skill
+   */
+  function addSkill(skill: Skill): Skill {
+    if (repository.getSkillById(skill.id)) {
+      throw new Error(`Skill with ID ${skill.id} already exists`);
+    }
+
+    assertValid(
+      [...repository.getAllSkills(), skill],
+      repository.getAllSkillRelationships()
+    );
+    repository.saveSkill(skill);
+    refresh();
+    return skill;
+  }
+
+  /**
+   * Replace a skill's details, such as its aliases
+   *
+   * @param skill - The validated skill; its ID selects the skill to replace
+   * @returns The stored skill
+   */
+  function updateSkill(skill: Skill): Skill {
+    requireSkill(skill.id);
+
+    assertValid(
+      repository
+        .getAllSkills()
+        .map((existing) => (existing.id === skill.id ? skill : existing)),
+      repository.getAllSkillRelationships()
+    );
+    repository.saveSkill(skill);
+    refresh();
+    return skill;
+  }
+
+  /**
+   * Remove a skill that no candidate or job references
+   *
+   * @param skillId - The skill to remove
+   * @returns SkillDeleteResult with the number of relationships removed
+   */
+  function deleteSkill(skillId: string): SkillDeleteResult {
+    requireSkill(skillId);
+
+    const users = countReferences(skillId);
+    if (users.candidates > 0 || users.jobs > 0) {
+      throw new Error(
+        `Skill ${skillId} is in use by ${users.candidates} candidate(s) and ${users.jobs} job(s); merge it into another skill instead`
+      );
+    }
+
+    const relationships = repository
+      .getAllSkillRelationships()
+      .filter((rel) => involves(rel, skillId));
+    relationships.forEach((rel) => repository.deleteSkillRelationship(rel));
+    repository
+      .getAllSkills()
+      .filter(
+        (skill) =>
+          skill.relatedSkills.includes(skillId) || skill.parentSkill === skillId
+      )
+      .forEach((skill) => {
+        const updated: Skill = {
+          ...skill,
+          relatedSkills: skill.relatedSkills.filter((id) => id !== skillId),
+        };
+        // Children of a deleted family root become standalone skills
+        if (updated.parentSkill === skillId) {
+          delete updated.parentSkill;
+          delete updated.familyStrength;
+        }
+        repository.saveSkill(updated);
+      });
+    repository.deleteSkill(skillId);
+    refresh();
+
+    return { skillId, relationshipsRemoved: relationships.length };
+  }
+
+  /**
+   * Fold one skill into another and rewrite every reference to it
+   *
+   * @param sourceSkillId - The skill to merge away
+   * @param targetSkillId - The skill that survives
+   * @returns SkillMergeResult with the surviving skill and update counts
+   */
+  function mergeSkills(
+    sourceSkillId: string,
+    targetSkillId: string
+  ): SkillMergeResult {
+    if (sourceSkillId === targetSkillId) {
+      throw new Error("Invalid merge: a skill cannot be merged into itself");
+    }
+    const source = requireSkill(sourceSkillId);
+    const target = requireSkill(targetSkillId);
+
+    const targetNames = [target.canonicalName, ...target.aliases].map((name) =>
+      name.toLowerCase()
+    );
+    const merged: Skill = {
+      ...target,
+      aliases: [
+        ...target.aliases,
+        ...[source.canonicalName, ...source.aliases].filter(
+          (name, index, names) =>
+            !targetNames.includes(name.toLowerCase()) &&
+            names.findIndex(
+              (other) => other.toLowerCase() === name.toLowerCase()
+            ) === index
+        ),
+      ],
+      relatedSkills: unique(
+        [...target.relatedSkills, ...source.relatedSkills]
+          .map((id) => (id === sourceSkillId ? targetSkillId : id))
+          .filter((id) => id !== targetSkillId)
+      ),
+    };
+    // A child merged into its parent leaves no family link behind
+    if (merged.parentSkill === sourceSkillId) {
+      delete merged.parentSkill;
+    }
+
+    const skills = repository
+      .getAllSkills()
+      .filter((skill) => skill.id !== sourceSkillId)
+      .map((skill) =>
+        skill.id === targetSkillId
+          ? merged
+          : {
+              ...skill,
+              relatedSkills: unique(
+                skill.relatedSkills.map((id) =>
+                  id === sourceSkillId ? targetSkillId : id
+                )
+              ),
+              ...(skill.parentSkill === sourceSkillId && {
+                parentSkill: targetSkillId,
+              }),
+            }
+      );
+    const relationships = mergeRelationships(
+      repository.getAllSkillRelationships(),
+      sourceSkillId,
+      targetSkillId
+    );
+    assertValid(skills, relationships);
+
+    // Rewrite records first so no candidate or job ever points at a skill
+    // that is gone
+    let candidatesUpdated = 0;
+    repository.getAllCandidates().forEach((candidate) => {
+      const rewritten = rewriteCandidate(
+        candidate,
+        sourceSkillId,
+        targetSkillId
+      );
+      if (rewritten) {
+        repository.saveCandidate(rewritten);
+        candidatesUpdated++;
+      }
+    });
+
+    let jobsUpdated = 0;
+    repository.getAllJobs().forEach((job) => {
+      const rewritten = rewriteJob(job, sourceSkillId, targetSkillId);
+      if (rewritten) {
+        repository.saveJob(rewritten);
+        jobsUpdated++;
+      }
+    });
+
+    const touched = repository
+      .getAllSkillRelationships()
+      .filter((rel) => involves(rel, sourceSkillId));
+    touched.forEach((rel) => repository.deleteSkillRelationship(rel));
+    relationships
+      .filter((rel) => involves(rel, targetSkillId))
+      .forEach((rel) => repository.saveSkillRelationship(rel));
+    // Save every skill the merge changed, including re-parented children
+    skills
+      .filter(
+        (skill) =>
+          JSON.stringify(skill) !==
+          JSON.stringify(repository.getSkillById(skill.id))
+      )
+      .forEach((skill) => repository.saveSkill(skill));
+    repository.deleteSkill(sourceSkillId);
+    refresh();
+
+    return {
+      skill: merged,
+      mergedSkillId: sourceSkillId,
+      candidatesUpdated,
+      jobsUpdated,
+      relationshipsUpdated: touched.length,
+    };
+  }
+
+  /**
+   * Add or replace a relationship between two skills
+   *
+   * @param relationship - The validated relationship
+   * @returns The stored relationship
+   */
+  function addRelationship(relationship: SkillRelationship): SkillRelationship {
+    const others = repository
+      .getAllSkillRelationships()
+      .filter((rel) => !sameRelationship(rel, relationship));
+    assertValid(repository.getAllSkills(), [...others, relationship]);
+
+    repository.saveSkillRelationship(relationship);
+    refresh();
+    return relationship;
+  }
+
+  /**
+   * Remove a relationship between two skills
+   *
+   * @param relationship - Source, target and type of the relationship
+   * @returns The removed relationship
+   */
+  function removeRelationship(relationship: RelationshipKey): RelationshipKey {
+    if (!repository.deleteSkillRelationship(relationship)) {
+      throw new Error(
+        `Relationship ${relationship.sourceSkill} -> ${relationship.targetSkill} (${relationship.relationshipType}) not found`
+      );
+    }
+    refresh();
+    return relationship;
+  }
+
+  // Helper methods
+  function requireSkill(skillId: string): Skill {
+    const skill = repository.getSkillById(skillId);
+    if (!skill) {
+      throw new Error(`Skill with ID ${skillId} not found`);
+    }
+    return skill;
+  }
+
+  // Reject a change only for errors it introduces, so an already imperfect
+  // taxonomy can still be repaired one edit at a time
+  function assertValid(
+    skills: Skill[],
+    relationships: SkillRelationship[]
+  ): void {
+    const existing = new Set(
+      taxonomyValidator
+        .validateTaxonomy()
+        .issues.filter((issue) => issue.severity === "error")
+        .map((issue) => issue.message)
+    );
+    const introduced = taxonomyValidator
+      .validateTaxonomy(skills, relationships)
+      .issues.filter(
+        (issue) => issue.severity === "error" && !existing.has(issue.message)
+      );
+
+    if (introduced.length > 0) {
+      throw new Error(
+        `Invalid taxonomy change: ${introduced
+          .map((issue) => issue.message)
+          .join("; ")}`
+      );
+    }
+  }
+
+  function refresh(): void {
+    skillNormalizer.rebuildSkillMaps();
+    skillGraph.rebuild();
+  }
+
+  function countReferences(skillId: string): {
+    candidates: number;
+    jobs: number;
+  } {
+    return {
+      candidates: repository
+        .getAllCandidates()
+        .filter((candidate) => candidateUsesSkill(candidate, skillId)).length,
+      jobs: repository.getAllJobs().filter((job) => jobUsesSkill(job, skillId))
+        .length,
+    };
+  }
+
+  function mergeRelationships(
+    relationships: SkillRelationship[],
+    from: string,
+    to: string
+  ): SkillRelationship[] {
+    const merged: SkillRelationship[] = [];
+    relationships
+      .map((rel) => ({
+        ...rel,
+        sourceSkill: rel.sourceSkill === from ? to : rel.sourceSkill,
+        targetSkill: rel.targetSkill === from ? to : rel.targetSkill,
+      }))
+      .filter((rel) => rel.sourceSkill !== rel.targetSkill)
+      .forEach((rel) => {
+        const existing = merged.find((other) => sameRelationship(other, rel));
+        if (!existing) {
+          merged.push(rel);
+        } else {
+          existing.strength = Math.max(existing.strength, rel.strength);
+        }
+      });
+    return merged;
+  }
+
+  // Returns the rewritten candidate, or null when it does not use the skill
+  function rewriteCandidate(
+    candidate: Candidate,
+    from: string,
+    to: string
+  ): Candidate | null {
+    if (!candidateUsesSkill(candidate, from)) return null;
+
+    const swap = (skillId: string) => (skillId === from ? to : skillId);
+    return {
+      ...candidate,
+      skills: unique(candidate.skills.map(swap)),
+      experience: candidate.experience.map((exp) => ({
+        ...exp,
+        skillId: swap(exp.skillId),
+      })),
+      ...(candidate.proficiencies && {
+        proficiencies: mergeProficiencies(
+          candidate.proficiencies.map((entry) => ({
+            ...entry,
+            skillId: swap(entry.skillId),
+          }))
+        ),
+      }),
+    };
+  }
+
+  // Returns the rewritten job, or null when it does not use the skill
+  function rewriteJob(job: Job, from: string, to: string): Job | null {
+    if (!jobUsesSkill(job, from)) return null;
+
+    const swap = (skillId: string) => (skillId === from ? to : skillId);
+    return {
+      ...job,
+      requirements: mergeRequirements(
+        job.requirements.map((req) => ({ ...req, skillId: swap(req.skillId) }))
+      ),
+      ...(job.knockouts && {
+        knockouts: {
+          ...job.knockouts,
+          ...(job.knockouts.requiredSkills && {
+            requiredSkills: unique(job.knockouts.requiredSkills.map(swap)),
+          }),
+        },
+      }),
+    };
+  }
+
+  // When both skills were required, keep the stricter requirement
+  function mergeRequirements(requirements: JobRequirement[]): JobRequirement[] {
+    const merged: JobRequirement[] = [];
+    requirements.forEach((req) => {
+      const existing = merged.find((other) => other.skillId === req.skillId);
+      if (!existing) {
+        merged.push(req);
+        return;
+      }
+      existing.minDuration = Math.max(existing.minDuration, req.minDuration);
+      existing.requiredLevel = Math.max(
+        existing.requiredLevel,
+        req.requiredLevel
+      );
+      existing.isRequired = existing.isRequired || req.isRequired;
+    });
+    return merged;
+  }
+
+  // When the candidate had both skills, keep the higher levels and the most
+  // recent use
+  function mergeProficiencies(
+    proficiencies: SkillProficiency[]
+  ): SkillProficiency[] {
+    const merged: SkillProficiency[] = [];
+    proficiencies.forEach((entry) => {
+      const existing = merged.find((other) => other.skillId === entry.skillId);
+      if (!existing) {
+        merged.push(entry);
+        return;
+      }
+      for (const key of ["selfReportedLevel", "evidenceLevel"] as const) {
+        const value = Math.max(existing[key] || 0, entry[key] || 0);
+        if (value > 0) existing[key] = value;
+      }
+      if (
+        entry.lastUsed &&
+        (!existing.lastUsed || entry.lastUsed > existing.lastUsed)
+      ) {
+        existing.lastUsed = entry.lastUsed;
+      }
+    });
+    return merged;
+  }
+
+  function candidateUsesSkill(candidate: Candidate, skillId: string): boolean {
+    return (
+      candidate.skills.includes(skillId) ||
+      candidate.experience.some((exp) => exp.skillId === skillId) ||
+      (candidate.proficiencies || []).some((entry) => entry.skillId === skillId)
+    );
+  }
+
+  function jobUsesSkill(job: Job, skillId: string): boolean {
+    return (
+      job.requirements.some((req) => req.skillId === skillId) ||
+      (job.knockouts?.requiredSkills || []).includes(skillId)
+    );
+  }
+
+  function involves(relationship: RelationshipKey, skillId: string): boolean {
+    return (
+      relationship.sourceSkill === skillId ||
+      relationship.targetSkill === skillId
+    );
+  }
+
+  function sameRelationship(a: RelationshipKey, b: RelationshipKey): boolean {
+    return (
+      a.sourceSkill === b.sourceSkill &&
+      a.targetSkill === b.targetSkill &&
+      a.relationshipType === b.relationshipType
+    );
+  }
+
+  function unique(values: string[]): string[] {
+    return Array.from(new Set(values));
+  }
+
+  // Return the public API
+  return {
+    addSkill,
+    updateSkill,
+    deleteSkill,
+    mergeSkills,
+    addRelationship,
+    removeRelationship,
+  };
+}
+
+// Export a singleton instance for backward compatibility
+export const skillTaxonomy = createSkillTaxonomy();
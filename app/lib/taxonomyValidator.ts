@@ -0,0 +1,409 @@
+import { repository } from "./repository";
+import {
+  Skill,
+  SkillRelationship,
+  TaxonomyIssue,
+  TaxonomyValidationResult,
+} from "../types/matching";
+
+// Type definitions for better type safety
+interface TaxonomyValidatorConfig {
+  difficultyRange: [number, number];
+  strengthRange: [number, number];
+}
+
+/**
+ * Consistency checks for the skills taxonomy.
+ *
+ * `validateTaxonomy` inspects skills and their relationships and reports
+ * every problem it finds rather than stopping at the first one:
+ *
+ * Errors (the taxonomy is not valid):
+ * - Two skills with the same ID
+ * - Relationships whose source or target skill does not exist
+ * - A name or alias shared by different skills, which makes normalization
+ *   ambiguous
+ * - Self-loops in `relatedSkills` or relationships
+ * - Cycles of prerequisite relationships
+ * - `difficultyLevel`, relationship `strength` or `familyStrength` outside
+ *   their scales
+ * - A `parentSkill` that does not exist, or that has a parent of its own
+ *   (families are one level deep)
+ * - A version range whose `min` is above its `max`, or two skills of one
+ *   family covering the same version
+ *
+ * Warnings (worth tidying, but matching still works):
+ * - `relatedSkills` entries with no skill of that ID
+ * - The same alias listed twice on one skill
+ * - Related skills that do not list each other
+ *
+ * Defaults to the current taxonomy in the repository.
+ *
+ * @example
+ * ```typescript
+ * const result = taxonomyValidator.validateTaxonomy();
+ * result.issues.forEach((issue) => console.log(issue.code, issue.message));
+ * ```
+ */
+
+// Create taxonomy validator with configuration
+export function createTaxonomyValidator(): ReturnType<
+  typeof createTaxonomyValidatorInstance
+> {
+  return createTaxonomyValidatorInstance();
+}
+
+function createTaxonomyValidatorInstance() {
+  // Configuration
+  const config: TaxonomyValidatorConfig = {
+    difficultyRange: [1, 5],
+    strengthRange: [0, 1],
+  };
+
+  /**
+   * Check a skills taxonomy for consistency problems
+   *
+   * @param skills - Skills to check
+   * @param relationships - Relationships between them
+   * @returns TaxonomyValidationResult with every issue found
+   */
+  function validateTaxonomy(
+    skills: Skill[] = repository.getAllSkills(),
+    relationships: SkillRelationship[] = repository.getAllSkillRelationships()
+  ): TaxonomyValidationResult {
+    const issues: TaxonomyIssue[] = [
+      ...checkSkills(skills),
+      ...checkNames(skills),
+      ...checkRelatedSkills(skills),
+      ...checkRelationships(skills, relationships),
+      ...checkPrerequisiteCycles(relationships),
+      ...checkFamilies(skills),
+    ];
+
+    const errorCount = issues.filter(
+      (issue) => issue.severity === "error"
+    ).length;
+
+    return {
+      valid: errorCount === 0,
+      issues,
+      errorCount,
+      warningCount: issues.length - errorCount,
+    };
+  }
+
+  // Helper methods
+  function checkSkills(skills: Skill[]): TaxonomyIssue[] {
+    const issues: TaxonomyIssue[] = [];
+    const seen = new Set<string>();
+    const [minDifficulty, maxDifficulty] = config.difficultyRange;
+
+    for (const skill of skills) {
+      if (seen.has(skill.id)) {
+        issues.push({
+          code: "DUPLICATE_SKILL_ID",
+          severity: "error",
+          skillIds: [skill.id],
+          message: `Skill ID "${skill.id}" is used by more than one skill`,
+        });
+      }
+      seen.add(skill.id);
+
+      if (
+        !Number.isFinite(skill.difficultyLevel) ||
+        skill.difficultyLevel < minDifficulty ||
+        skill.difficultyLevel > maxDifficulty
+      ) {
+        issues.push({
+          code: "DIFFICULTY_OUT_OF_RANGE",
+          severity: "error",
+          skillIds: [skill.id],
+          message: `Skill "${skill.id}" has difficultyLevel ${skill.difficultyLevel}, expected ${minDifficulty}-${maxDifficulty}`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  function checkNames(skills: Skill[]): TaxonomyIssue[] {
+    const issues: TaxonomyIssue[] = [];
+    const owners = new Map<string, Set<string>>();
+
+    for (const skill of skills) {
+      const aliases = new Set<string>();
+      for (const alias of skill.aliases) {
+        const key = alias.toLowerCase().trim();
+        if (aliases.has(key)) {
+          issues.push({
+            code: "DUPLICATE_ALIAS",
+            severity: "warning",
+            skillIds: [skill.id],
+            message: `Skill "${skill.id}" lists the alias "${alias}" more than once`,
+          });
+        }
+        aliases.add(key);
+      }
+
+      [skill.canonicalName.toLowerCase().trim(), ...aliases].forEach((name) =>
+        owners.set(name, (owners.get(name) || new Set()).add(skill.id))
+      );
+    }
+
+    owners.forEach((skillIds, name) => {
+      if (skillIds.size > 1) {
+        issues.push({
+          code: "ALIAS_COLLISION",
+          severity: "error",
+          skillIds: Array.from(skillIds),
+          message: `The name "${name}" belongs to several skills: ${Array.from(
+            skillIds
+          ).join(", ")}`,
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  function checkRelatedSkills(skills: Skill[]): TaxonomyIssue[] {
+    const issues: TaxonomyIssue[] = [];
+    const byId = new Map(skills.map((skill) => [skill.id, skill]));
+
+    for (const skill of skills) {
+      for (const relatedId of skill.relatedSkills) {
+        const related = byId.get(relatedId);
+
+        if (relatedId === skill.id) {
+          issues.push({
+            code: "SELF_LOOP",
+            severity: "error",
+            skillIds: [skill.id],
+            message: `Skill "${skill.id}" lists itself as a related skill`,
+          });
+        } else if (!related) {
+          issues.push({
+            code: "DANGLING_RELATED_SKILL",
+            severity: "warning",
+            skillIds: [skill.id],
+            message: `Skill "${skill.id}" is related to unknown skill "${relatedId}"`,
+          });
+        } else if (!related.relatedSkills.includes(skill.id)) {
+          issues.push({
+            code: "ASYMMETRIC_RELATION",
+            severity: "warning",
+            skillIds: [skill.id, relatedId],
+            message: `Skill "${skill.id}" lists "${relatedId}" as related, but not the other way round`,
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  function checkRelationships(
+    skills: Skill[],
+    relationships: SkillRelationship[]
+  ): TaxonomyIssue[] {
+    const issues: TaxonomyIssue[] = [];
+    const skillIds = new Set(skills.map((skill) => skill.id));
+    const [minStrength, maxStrength] = config.strengthRange;
+
+    for (const rel of relationships) {
+      const label = `${rel.relationshipType} relationship ${rel.sourceSkill} -> ${rel.targetSkill}`;
+      const missing = [rel.sourceSkill, rel.targetSkill].filter(
+        (skillId) => !skillIds.has(skillId)
+      );
+
+      if (missing.length > 0) {
+        issues.push({
+          code: "DANGLING_RELATIONSHIP",
+          severity: "error",
+          skillIds: missing,
+          message: `The ${label} refers to unknown skill ${missing
+            .map((skillId) => `"${skillId}"`)
+            .join(" and ")}`,
+        });
+      }
+      if (rel.sourceSkill === rel.targetSkill) {
+        issues.push({
+          code: "SELF_LOOP",
+          severity: "error",
+          skillIds: [rel.sourceSkill],
+          message: `The ${label} points a skill at itself`,
+        });
+      }
+      if (
+        !Number.isFinite(rel.strength) ||
+        rel.strength < minStrength ||
+        rel.strength > maxStrength
+      ) {
+        issues.push({
+          code: "STRENGTH_OUT_OF_RANGE",
+          severity: "error",
+          skillIds: [rel.sourceSkill, rel.targetSkill],
+          message: `The ${label} has strength ${rel.strength}, expected ${minStrength}-${maxStrength}`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  // Depth-first search; reaching a skill that is still on the stack closes
+  // a cycle. Each cycle is reported once, whichever skill it was entered from
+  function checkPrerequisiteCycles(
+    relationships: SkillRelationship[]
+  ): TaxonomyIssue[] {
+    const issues: TaxonomyIssue[] = [];
+    const prerequisites = new Map<string, string[]>();
+    relationships
+      .filter(
+        (rel) =>
+          rel.relationshipType === "prerequisite" &&
+          rel.sourceSkill !== rel.targetSkill
+      )
+      .forEach((rel) =>
+        prerequisites.set(rel.sourceSkill, [
+          ...(prerequisites.get(rel.sourceSkill) || []),
+          rel.targetSkill,
+        ])
+      );
+
+    const done = new Set<string>();
+    const stack: string[] = [];
+    const reported = new Set<string>();
+
+    const visit = (skillId: string) => {
+      if (done.has(skillId)) return;
+      const index = stack.indexOf(skillId);
+      if (index >= 0) {
+        const cycle = stack.slice(index);
+        const key = [...cycle].sort().join("|");
+        if (!reported.has(key)) {
+          reported.add(key);
+          issues.push({
+            code: "PREREQUISITE_CYCLE",
+            severity: "error",
+            skillIds: cycle,
+            message: `Prerequisites form a cycle: ${[...cycle, skillId].join(
+              " -> "
+            )}`,
+          });
+        }
+        return;
+      }
+
+      stack.push(skillId);
+      (prerequisites.get(skillId) || []).forEach(visit);
+      stack.pop();
+      done.add(skillId);
+    };
+    prerequisites.forEach((_targets, skillId) => visit(skillId));
+
+    return issues;
+  }
+
+  function checkFamilies(skills: Skill[]): TaxonomyIssue[] {
+    const issues: TaxonomyIssue[] = [];
+    const byId = new Map(skills.map((skill) => [skill.id, skill]));
+    const [minStrength, maxStrength] = config.strengthRange;
+
+    for (const skill of skills) {
+      const { parentSkill, familyStrength, versions } = skill;
+
+      if (parentSkill === skill.id) {
+        issues.push({
+          code: "SELF_LOOP",
+          severity: "error",
+          skillIds: [skill.id],
+          message: `Skill "${skill.id}" is its own parent skill`,
+        });
+      } else if (parentSkill && !byId.has(parentSkill)) {
+        issues.push({
+          code: "DANGLING_PARENT_SKILL",
+          severity: "error",
+          skillIds: [skill.id],
+          message: `Skill "${skill.id}" has unknown parent skill "${parentSkill}"`,
+        });
+      } else if (parentSkill && byId.get(parentSkill)?.parentSkill) {
+        issues.push({
+          code: "NESTED_FAMILY",
+          severity: "error",
+          skillIds: [skill.id, parentSkill],
+          message: `Skill "${skill.id}" has parent "${parentSkill}", which belongs to a family itself`,
+        });
+      }
+
+      if (
+        familyStrength !== undefined &&
+        (!Number.isFinite(familyStrength) ||
+          familyStrength < minStrength ||
+          familyStrength > maxStrength)
+      ) {
+        issues.push({
+          code: "STRENGTH_OUT_OF_RANGE",
+          severity: "error",
+          skillIds: [skill.id],
+          message: `Skill "${skill.id}" has familyStrength ${familyStrength}, expected ${minStrength}-${maxStrength}`,
+        });
+      }
+
+      if (
+        versions?.min !== undefined &&
+        versions.max !== undefined &&
+        versions.min > versions.max
+      ) {
+        issues.push({
+          code: "INVALID_VERSION_RANGE",
+          severity: "error",
+          skillIds: [skill.id],
+          message: `Skill "${skill.id}" covers versions ${versions.min}-${versions.max}, which is empty`,
+        });
+      }
+    }
+
+    // Within a family, each version must resolve to exactly one skill
+    const families = new Map<string, Skill[]>();
+    skills
+      .filter((skill) => skill.versions)
+      .forEach((skill) => {
+        const root = skill.parentSkill || skill.id;
+        families.set(root, [...(families.get(root) || []), skill]);
+      });
+
+    families.forEach((members) =>
+      members.forEach((skill, index) =>
+        members.slice(index + 1).forEach((other) => {
+          const from = Math.max(
+            skill.versions?.min ?? 0,
+            other.versions?.min ?? 0
+          );
+          const to = Math.min(
+            skill.versions?.max ?? Infinity,
+            other.versions?.max ?? Infinity
+          );
+          if (from <= to) {
+            issues.push({
+              code: "OVERLAPPING_VERSIONS",
+              severity: "error",
+              skillIds: [skill.id, other.id],
+              message: `Skills "${skill.id}" and "${other.id}" both cover version ${from}`,
+            });
+          }
+        })
+      )
+    );
+
+    return issues;
+  }
+
+  // Return the public API
+  return {
+    validateTaxonomy,
+  };
+}
+
+// Export a singleton instance for backward compatibility
+export const taxonomyValidator = createTaxonomyValidator();
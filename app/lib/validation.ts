@@ -0,0 +1,991 @@
+import { skillNormalizer } from "./skillNormalizer";
+import { scoringEngine } from "./scoringEngine";
+import {
+  Candidate,
+  CandidatePreferences,
+  Education,
+  Experience,
+  Job,
+  JobRequirement,
+  KnockoutCriteria,
+  SeniorityLevel,
+  Skill,
+  SkillProficiency,
+  SkillRelationship,
+  WorkArrangement,
+} from "../types/matching";
+
+// Type definitions for better type safety
+interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];
+  unknownSkillIds: string[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+/**
+ * Request body validation for candidate, job and skill taxonomy records.
+ *
+ * Validators check untrusted JSON against the types in `types/matching.ts`
+ * and return a clean copy containing only known fields. Skill references are
+ * resolved through the skill normalizer so records can never point at skills
+ * that do not exist in the taxonomy.
+ *
+ * @example
+ * ```typescript
+ * const result = validateCandidate(await request.json());
+ * if (!result.value) {
+ *   return NextResponse.json(getValidationErrorBody(result, "candidate"), {
+ *     status: 400,
+ *   });
+ * }
+ * ```
+ */
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const WORK_ARRANGEMENTS: WorkArrangement[] = ["onsite", "hybrid", "remote"];
+
+const SENIORITY_LEVELS: SeniorityLevel[] = ["junior", "mid", "senior", "lead"];
+
+const SKILL_ID_PATTERN = /^[a-z0-9][a-z0-9.+#-]*$/;
+
+const RELATIONSHIP_TYPES: SkillRelationship["relationshipType"][] = [
+  "prerequisite",
+  "related",
+  "alternative",
+];
+
+const ISO_DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?$/;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+function checkSkillId(
+  skillId: unknown,
+  field: string,
+  errors: string[],
+  unknownSkillIds: string[]
+): void {
+  if (!isNonEmptyString(skillId)) {
+    errors.push(`${field} must be a non-empty string`);
+    return;
+  }
+
+  if (!skillNormalizer.getSkillById(skillId)) {
+    errors.push(`${field} references unknown skill "${skillId}"`);
+    unknownSkillIds.push(skillId);
+  }
+}
+
+/**
+ * Validate an experience entry
+ *
+ * @param input - Untrusted experience data
+ * @param field - Field path used in error messages
+ * @returns ValidationResult with the cleaned experience entry
+ */
+export function validateExperience(
+  input: unknown,
+  field: string = "experience"
+): ValidationResult<Experience> {
+  const errors: string[] = [];
+  const unknownSkillIds: string[] = [];
+
+  if (!isRecord(input)) {
+    return {
+      value: null,
+      errors: [`${field} must be an object`],
+      unknownSkillIds,
+    };
+  }
+
+  if (!isNonEmptyString(input.id)) {
+    errors.push(`${field}.id must be a non-empty string`);
+  }
+
+  checkSkillId(input.skillId, `${field}.skillId`, errors, unknownSkillIds);
+
+  if (typeof input.duration !== "number" || !(input.duration >= 0)) {
+    errors.push(`${field}.duration must be a non-negative number of months`);
+  }
+
+  if (!isIntegerInRange(input.complexityLevel, 1, 5)) {
+    errors.push(`${field}.complexityLevel must be an integer from 1 to 5`);
+  }
+
+  if (typeof input.hasLeadershipRole !== "boolean") {
+    errors.push(`${field}.hasLeadershipRole must be a boolean`);
+  }
+
+  if (
+    input.projectDescription !== undefined &&
+    typeof input.projectDescription !== "string"
+  ) {
+    errors.push(`${field}.projectDescription must be a string`);
+  }
+
+  if (!isStringArray(input.technologies)) {
+    errors.push(`${field}.technologies must be an array of strings`);
+  }
+
+  for (const key of ["startDate", "endDate"]) {
+    if (
+      input[key] !== undefined &&
+      (typeof input[key] !== "string" ||
+        !ISO_DATE_PATTERN.test(input[key] as string))
+    ) {
+      errors.push(
+        `${field}.${key} must be a date in YYYY-MM or YYYY-MM-DD form`
+      );
+    }
+  }
+
+  if (
+    typeof input.startDate === "string" &&
+    typeof input.endDate === "string" &&
+    input.endDate.slice(0, 7) < input.startDate.slice(0, 7)
+  ) {
+    errors.push(`${field}.endDate must not be before startDate`);
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors, unknownSkillIds };
+  }
+
+  return {
+    value: {
+      id: input.id as string,
+      skillId: input.skillId as string,
+      duration: input.duration as number,
+      complexityLevel: input.complexityLevel as number,
+      hasLeadershipRole: input.hasLeadershipRole as boolean,
+      ...(input.projectDescription !== undefined && {
+        projectDescription: input.projectDescription as string,
+      }),
+      technologies: input.technologies as string[],
+      ...(input.startDate !== undefined && {
+        startDate: input.startDate as string,
+      }),
+      ...(input.endDate !== undefined && { endDate: input.endDate as string }),
+    },
+    errors,
+    unknownSkillIds,
+  };
+}
+
+/**
+ * Validate an education entry
+ *
+ * @param input - Untrusted education data
+ * @param field - Field path used in error messages
+ * @returns ValidationResult with the cleaned education entry
+ */
+export function validateEducation(
+  input: unknown,
+  field: string = "education"
+): ValidationResult<Education> {
+  const errors: string[] = [];
+
+  if (!isRecord(input)) {
+    return {
+      value: null,
+      errors: [`${field} must be an object`],
+      unknownSkillIds: [],
+    };
+  }
+
+  for (const key of ["degree", "institution", "field"]) {
+    if (!isNonEmptyString(input[key])) {
+      errors.push(`${field}.${key} must be a non-empty string`);
+    }
+  }
+
+  if (!isIntegerInRange(input.graduationYear, 1900, 2100)) {
+    errors.push(`${field}.graduationYear must be a valid year`);
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors, unknownSkillIds: [] };
+  }
+
+  return {
+    value: {
+      degree: input.degree as string,
+      institution: input.institution as string,
+      graduationYear: input.graduationYear as number,
+      field: input.field as string,
+    },
+    errors,
+    unknownSkillIds: [],
+  };
+}
+
+/**
+ * Validate a skill proficiency record
+ *
+ * @param input - Untrusted proficiency data
+ * @param field - Field path used in error messages
+ * @returns ValidationResult with the cleaned proficiency record
+ */
+export function validateSkillProficiency(
+  input: unknown,
+  field: string = "proficiency"
+): ValidationResult<SkillProficiency> {
+  const errors: string[] = [];
+  const unknownSkillIds: string[] = [];
+
+  if (!isRecord(input)) {
+    return {
+      value: null,
+      errors: [`${field} must be an object`],
+      unknownSkillIds,
+    };
+  }
+
+  checkSkillId(input.skillId, `${field}.skillId`, errors, unknownSkillIds);
+
+  for (const key of ["selfReportedLevel", "evidenceLevel"]) {
+    if (input[key] !== undefined && !isIntegerInRange(input[key], 1, 5)) {
+      errors.push(`${field}.${key} must be an integer from 1 to 5`);
+    }
+  }
+
+  if (
+    input.lastUsed !== undefined &&
+    (typeof input.lastUsed !== "string" ||
+      !ISO_DATE_PATTERN.test(input.lastUsed))
+  ) {
+    errors.push(
+      `${field}.lastUsed must be a date in YYYY-MM or YYYY-MM-DD form`
+    );
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors, unknownSkillIds };
+  }
+
+  return {
+    value: {
+      skillId: input.skillId as string,
+      ...(input.selfReportedLevel !== undefined && {
+        selfReportedLevel: input.selfReportedLevel as number,
+      }),
+      ...(input.evidenceLevel !== undefined && {
+        evidenceLevel: input.evidenceLevel as number,
+      }),
+      ...(input.lastUsed !== undefined && {
+        lastUsed: input.lastUsed as string,
+      }),
+    },
+    errors,
+    unknownSkillIds,
+  };
+}
+
+/**
+ * Validate a candidate's job preferences
+ *
+ * @param input - Untrusted preference data
+ * @param field - Field path used in error messages
+ * @returns ValidationResult with the cleaned preferences
+ */
+export function validateCandidatePreferences(
+  input: unknown,
+  field: string = "preferences"
+): ValidationResult<CandidatePreferences> {
+  const errors: string[] = [];
+
+  if (!isRecord(input)) {
+    return {
+      value: null,
+      errors: [`${field} must be an object`],
+      unknownSkillIds: [],
+    };
+  }
+
+  for (const key of ["salaryMin", "salaryMax"]) {
+    if (
+      input[key] !== undefined &&
+      (typeof input[key] !== "number" || !((input[key] as number) >= 0))
+    ) {
+      errors.push(`${field}.${key} must be a non-negative number`);
+    }
+  }
+
+  if (
+    typeof input.salaryMin === "number" &&
+    typeof input.salaryMax === "number" &&
+    input.salaryMax < input.salaryMin
+  ) {
+    errors.push(`${field}.salaryMax must not be below salaryMin`);
+  }
+
+  if (
+    input.currency !== undefined &&
+    (typeof input.currency !== "string" || !/^[A-Z]{3}$/.test(input.currency))
+  ) {
+    errors.push(`${field}.currency must be a three-letter ISO currency code`);
+  }
+
+  if (input.locations !== undefined && !isStringArray(input.locations)) {
+    errors.push(`${field}.locations must be an array of strings`);
+  }
+
+  const allowedValues: Record<string, string[]> = {
+    workArrangements: WORK_ARRANGEMENTS,
+    seniority: SENIORITY_LEVELS,
+  };
+  for (const [key, allowed] of Object.entries(allowedValues)) {
+    const value = input[key];
+    if (
+      value !== undefined &&
+      (!isStringArray(value) || value.some((entry) => !allowed.includes(entry)))
+    ) {
+      errors.push(`${field}.${key} must only contain ${allowed.join(", ")}`);
+    }
+  }
+
+  if (
+    input.willingToRelocate !== undefined &&
+    typeof input.willingToRelocate !== "boolean"
+  ) {
+    errors.push(`${field}.willingToRelocate must be a boolean`);
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors, unknownSkillIds: [] };
+  }
+
+  return {
+    value: {
+      ...(input.salaryMin !== undefined && {
+        salaryMin: input.salaryMin as number,
+      }),
+      ...(input.salaryMax !== undefined && {
+        salaryMax: input.salaryMax as number,
+      }),
+      ...(input.currency !== undefined && {
+        currency: input.currency as string,
+      }),
+      ...(input.locations !== undefined && {
+        locations: input.locations as string[],
+      }),
+      ...(input.workArrangements !== undefined && {
+        workArrangements: input.workArrangements as WorkArrangement[],
+      }),
+      ...(input.seniority !== undefined && {
+        seniority: input.seniority as SeniorityLevel[],
+      }),
+      ...(input.willingToRelocate !== undefined && {
+        willingToRelocate: input.willingToRelocate as boolean,
+      }),
+    },
+    errors,
+    unknownSkillIds: [],
+  };
+}
+
+/**
+ * Validate a complete candidate record
+ *
+ * @param input - Untrusted candidate data
+ * @returns ValidationResult with the cleaned candidate
+ */
+export function validateCandidate(input: unknown): ValidationResult<Candidate> {
+  const errors: string[] = [];
+  const unknownSkillIds: string[] = [];
+
+  if (!isRecord(input)) {
+    return {
+      value: null,
+      errors: ["Candidate must be a JSON object"],
+      unknownSkillIds,
+    };
+  }
+
+  if (!isNonEmptyString(input.id)) {
+    errors.push("id must be a non-empty string");
+  }
+
+  if (!isNonEmptyString(input.name)) {
+    errors.push("name must be a non-empty string");
+  }
+
+  if (typeof input.email !== "string" || !EMAIL_PATTERN.test(input.email)) {
+    errors.push("email must be a valid email address");
+  }
+
+  if (typeof input.summary !== "string") {
+    errors.push("summary must be a string");
+  }
+
+  if (!isStringArray(input.skills)) {
+    errors.push("skills must be an array of skill IDs");
+  } else {
+    input.skills.forEach((skillId, index) =>
+      checkSkillId(skillId, `skills[${index}]`, errors, unknownSkillIds)
+    );
+  }
+
+  const experience: Experience[] = [];
+  if (!Array.isArray(input.experience)) {
+    errors.push("experience must be an array");
+  } else {
+    input.experience.forEach((entry, index) => {
+      const result = validateExperience(entry, `experience[${index}]`);
+      errors.push(...result.errors);
+      unknownSkillIds.push(...result.unknownSkillIds);
+      if (result.value) experience.push(result.value);
+    });
+  }
+
+  const proficiencies: SkillProficiency[] = [];
+  if (input.proficiencies !== undefined) {
+    if (!Array.isArray(input.proficiencies)) {
+      errors.push("proficiencies must be an array");
+    } else {
+      input.proficiencies.forEach((entry, index) => {
+        const field = `proficiencies[${index}]`;
+        const result = validateSkillProficiency(entry, field);
+        errors.push(...result.errors);
+        unknownSkillIds.push(...result.unknownSkillIds);
+        if (!result.value) return;
+
+        if (
+          isStringArray(input.skills) &&
+          !input.skills.includes(result.value.skillId)
+        ) {
+          errors.push(`${field}.skillId must also be listed in skills`);
+        } else if (
+          proficiencies.some((p) => p.skillId === result.value?.skillId)
+        ) {
+          errors.push(`${field}.skillId duplicates an earlier proficiency`);
+        } else {
+          proficiencies.push(result.value);
+        }
+      });
+    }
+  }
+
+  if (input.location !== undefined && typeof input.location !== "string") {
+    errors.push("location must be a string");
+  }
+
+  if (
+    input.workAuthorization !== undefined &&
+    !isStringArray(input.workAuthorization)
+  ) {
+    errors.push("workAuthorization must be an array of strings");
+  }
+
+  let preferences: CandidatePreferences | null = null;
+  if (input.preferences !== undefined) {
+    const result = validateCandidatePreferences(input.preferences);
+    errors.push(...result.errors);
+    preferences = result.value;
+  }
+
+  const education: Education[] = [];
+  if (!Array.isArray(input.education)) {
+    errors.push("education must be an array");
+  } else {
+    input.education.forEach((entry, index) => {
+      const result = validateEducation(entry, `education[${index}]`);
+      errors.push(...result.errors);
+      if (result.value) education.push(result.value);
+    });
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors, unknownSkillIds };
+  }
+
+  return {
+    value: {
+      id: input.id as string,
+      name: input.name as string,
+      email: input.email as string,
+      experience,
+      skills: input.skills as string[],
+      ...(input.proficiencies !== undefined && { proficiencies }),
+      education,
+      summary: input.summary as string,
+      ...(input.location !== undefined && {
+        location: input.location as string,
+      }),
+      ...(input.workAuthorization !== undefined && {
+        workAuthorization: input.workAuthorization as string[],
+      }),
+      ...(preferences && { preferences }),
+    },
+    errors,
+    unknownSkillIds,
+  };
+}
+
+/**
+ * Validate a job requirement
+ *
+ * @param input - Untrusted requirement data
+ * @param field - Field path used in error messages
+ * @returns ValidationResult with the cleaned requirement
+ */
+export function validateJobRequirement(
+  input: unknown,
+  field: string = "requirement"
+): ValidationResult<JobRequirement> {
+  const errors: string[] = [];
+  const unknownSkillIds: string[] = [];
+
+  if (!isRecord(input)) {
+    return {
+      value: null,
+      errors: [`${field} must be an object`],
+      unknownSkillIds,
+    };
+  }
+
+  checkSkillId(input.skillId, `${field}.skillId`, errors, unknownSkillIds);
+
+  if (typeof input.minDuration !== "number" || !(input.minDuration >= 0)) {
+    errors.push(`${field}.minDuration must be a non-negative number of months`);
+  }
+
+  if (!isIntegerInRange(input.requiredLevel, 1, 5)) {
+    errors.push(`${field}.requiredLevel must be an integer from 1 to 5`);
+  }
+
+  if (typeof input.isRequired !== "boolean") {
+    errors.push(`${field}.isRequired must be a boolean`);
+  }
+
+  if (
+    input.description !== undefined &&
+    typeof input.description !== "string"
+  ) {
+    errors.push(`${field}.description must be a string`);
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors, unknownSkillIds };
+  }
+
+  return {
+    value: {
+      skillId: input.skillId as string,
+      minDuration: input.minDuration as number,
+      requiredLevel: input.requiredLevel as number,
+      isRequired: input.isRequired as boolean,
+      ...(input.description !== undefined && {
+        description: input.description as string,
+      }),
+    },
+    errors,
+    unknownSkillIds,
+  };
+}
+
+/**
+ * Validate a job's knockout criteria
+ *
+ * @param input - Untrusted knockout data
+ * @param field - Field path used in error messages
+ * @returns ValidationResult with the cleaned knockout criteria
+ */
+export function validateKnockoutCriteria(
+  input: unknown,
+  field: string = "knockouts"
+): ValidationResult<KnockoutCriteria> {
+  const errors: string[] = [];
+  const unknownSkillIds: string[] = [];
+
+  if (!isRecord(input)) {
+    return {
+      value: null,
+      errors: [`${field} must be an object`],
+      unknownSkillIds,
+    };
+  }
+
+  if (input.requiredSkills !== undefined) {
+    if (!isStringArray(input.requiredSkills)) {
+      errors.push(`${field}.requiredSkills must be an array of skill IDs`);
+    } else {
+      input.requiredSkills.forEach((skillId, index) =>
+        checkSkillId(
+          skillId,
+          `${field}.requiredSkills[${index}]`,
+          errors,
+          unknownSkillIds
+        )
+      );
+    }
+  }
+
+  if (
+    input.minTotalYears !== undefined &&
+    (typeof input.minTotalYears !== "number" || !(input.minTotalYears >= 0))
+  ) {
+    errors.push(`${field}.minTotalYears must be a non-negative number`);
+  }
+
+  if (
+    input.minDegree !== undefined &&
+    (typeof input.minDegree !== "string" ||
+      scoringEngine.getDegreeLevel(input.minDegree) === 0)
+  ) {
+    errors.push(
+      `${field}.minDegree must name a recognised degree, such as bachelor or master`
+    );
+  }
+
+  for (const key of ["locations", "workAuthorization"]) {
+    if (input[key] !== undefined && !isStringArray(input[key])) {
+      errors.push(`${field}.${key} must be an array of strings`);
+    }
+  }
+
+  if (input.remote !== undefined && typeof input.remote !== "boolean") {
+    errors.push(`${field}.remote must be a boolean`);
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors, unknownSkillIds };
+  }
+
+  return {
+    value: {
+      ...(input.requiredSkills !== undefined && {
+        requiredSkills: input.requiredSkills as string[],
+      }),
+      ...(input.minTotalYears !== undefined && {
+        minTotalYears: input.minTotalYears as number,
+      }),
+      ...(input.minDegree !== undefined && {
+        minDegree: input.minDegree as string,
+      }),
+      ...(input.locations !== undefined && {
+        locations: input.locations as string[],
+      }),
+      ...(input.remote !== undefined && { remote: input.remote as boolean }),
+      ...(input.workAuthorization !== undefined && {
+        workAuthorization: input.workAuthorization as string[],
+      }),
+    },
+    errors,
+    unknownSkillIds,
+  };
+}
+
+/**
+ * Validate a complete job record
+ *
+ * @param input - Untrusted job data
+ * @returns ValidationResult with the cleaned job
+ */
+export function validateJob(input: unknown): ValidationResult<Job> {
+  const errors: string[] = [];
+  const unknownSkillIds: string[] = [];
+
+  if (!isRecord(input)) {
+    return {
+      value: null,
+      errors: ["Job must be a JSON object"],
+      unknownSkillIds,
+    };
+  }
+
+  for (const key of ["id", "title", "company", "location"]) {
+    if (!isNonEmptyString(input[key])) {
+      errors.push(`${key} must be a non-empty string`);
+    }
+  }
+
+  if (typeof input.description !== "string") {
+    errors.push("description must be a string");
+  }
+
+  const requirements: JobRequirement[] = [];
+  if (!Array.isArray(input.requirements) || input.requirements.length === 0) {
+    errors.push("requirements must be a non-empty array");
+  } else {
+    input.requirements.forEach((entry, index) => {
+      const result = validateJobRequirement(entry, `requirements[${index}]`);
+      errors.push(...result.errors);
+      unknownSkillIds.push(...result.unknownSkillIds);
+      if (result.value) requirements.push(result.value);
+    });
+  }
+
+  if (!isStringArray(input.responsibilities)) {
+    errors.push("responsibilities must be an array of strings");
+  }
+
+  if (input.salary !== undefined && typeof input.salary !== "string") {
+    errors.push("salary must be a string");
+  }
+
+  if (
+    input.weightProfile !== undefined &&
+    (typeof input.weightProfile !== "string" ||
+      !scoringEngine.getWeightProfile(input.weightProfile))
+  ) {
+    errors.push(
+      `weightProfile must be one of: ${Object.keys(
+        scoringEngine.getWeightProfiles()
+      ).join(", ")}`
+    );
+  }
+
+  if (input.archived !== undefined && typeof input.archived !== "boolean") {
+    errors.push("archived must be a boolean");
+  }
+
+  let knockouts: KnockoutCriteria | null = null;
+  if (input.knockouts !== undefined) {
+    const result = validateKnockoutCriteria(input.knockouts);
+    errors.push(...result.errors);
+    unknownSkillIds.push(...result.unknownSkillIds);
+    knockouts = result.value;
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors, unknownSkillIds };
+  }
+
+  return {
+    value: {
+      id: input.id as string,
+      title: input.title as string,
+      company: input.company as string,
+      description: input.description as string,
+      requirements,
+      responsibilities: input.responsibilities as string[],
+      location: input.location as string,
+      ...(input.salary !== undefined && { salary: input.salary as string }),
+      ...(input.weightProfile !== undefined && {
+        weightProfile: input.weightProfile as string,
+      }),
+      ...(input.archived !== undefined && {
+        archived: input.archived as boolean,
+      }),
+      ...(knockouts && { knockouts }),
+    },
+    errors,
+    unknownSkillIds,
+  };
+}
+
+/**
+ * Validate a skills taxonomy entry
+ *
+ * `relatedSkills` may name skills that are not in the taxonomy yet; the
+ * taxonomy validator reports those as warnings.
+ *
+ * @param input - Untrusted skill data
+ * @returns ValidationResult with the cleaned skill
+ */
+export function validateSkill(input: unknown): ValidationResult<Skill> {
+  const errors: string[] = [];
+  const unknownSkillIds: string[] = [];
+
+  if (!isRecord(input)) {
+    return {
+      value: null,
+      errors: ["skill must be an object"],
+      unknownSkillIds,
+    };
+  }
+
+  if (typeof input.id !== "string" || !SKILL_ID_PATTERN.test(input.id)) {
+    errors.push('id must be a lowercase skill ID such as "react" or "c++"');
+  }
+
+  for (const key of ["canonicalName", "category"]) {
+    if (!isNonEmptyString(input[key])) {
+      errors.push(`${key} must be a non-empty string`);
+    }
+  }
+
+  for (const key of ["aliases", "relatedSkills"]) {
+    if (input[key] !== undefined && !isStringArray(input[key])) {
+      errors.push(`${key} must be an array of strings`);
+    }
+  }
+
+  if (!isIntegerInRange(input.difficultyLevel, 1, 5)) {
+    errors.push("difficultyLevel must be an integer from 1 to 5");
+  }
+
+  if (
+    typeof input.timeToProficiency !== "number" ||
+    !(input.timeToProficiency > 0)
+  ) {
+    errors.push("timeToProficiency must be a positive number of months");
+  }
+
+  if (
+    input.parentSkill !== undefined &&
+    (typeof input.parentSkill !== "string" ||
+      !SKILL_ID_PATTERN.test(input.parentSkill))
+  ) {
+    errors.push("parentSkill must be a skill ID");
+  }
+
+  if (
+    input.familyStrength !== undefined &&
+    (typeof input.familyStrength !== "number" ||
+      !(input.familyStrength >= 0 && input.familyStrength <= 1))
+  ) {
+    errors.push("familyStrength must be a number from 0 to 1");
+  }
+
+  const versions = input.versions;
+  if (
+    versions !== undefined &&
+    (!isRecord(versions) ||
+      !["min", "max"].every(
+        (key) =>
+          versions[key] === undefined ||
+          isIntegerInRange(versions[key], 0, 9999)
+      ))
+  ) {
+    errors.push("versions must be { min?, max? } with whole version numbers");
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors, unknownSkillIds };
+  }
+
+  return {
+    value: {
+      id: input.id as string,
+      canonicalName: (input.canonicalName as string).trim(),
+      aliases: ((input.aliases as string[] | undefined) || []).map((alias) =>
+        alias.trim()
+      ),
+      category: (input.category as string).trim(),
+      relatedSkills: (input.relatedSkills as string[] | undefined) || [],
+      difficultyLevel: input.difficultyLevel as number,
+      timeToProficiency: input.timeToProficiency as number,
+      ...(input.parentSkill !== undefined && {
+        parentSkill: input.parentSkill as string,
+      }),
+      ...(input.familyStrength !== undefined && {
+        familyStrength: input.familyStrength as number,
+      }),
+      ...(input.versions !== undefined && {
+        versions: input.versions as Skill["versions"],
+      }),
+    },
+    errors,
+    unknownSkillIds,
+  };
+}
+
+/**
+ * Validate a relationship between two skills
+ *
+ * @param input - Untrusted relationship data
+ * @returns ValidationResult with the cleaned relationship
+ */
+export function validateSkillRelationship(
+  input: unknown
+): ValidationResult<SkillRelationship> {
+  const errors: string[] = [];
+  const unknownSkillIds: string[] = [];
+
+  if (!isRecord(input)) {
+    return {
+      value: null,
+      errors: ["relationship must be an object"],
+      unknownSkillIds,
+    };
+  }
+
+  checkSkillId(input.sourceSkill, "sourceSkill", errors, unknownSkillIds);
+  checkSkillId(input.targetSkill, "targetSkill", errors, unknownSkillIds);
+
+  if (
+    isNonEmptyString(input.sourceSkill) &&
+    input.sourceSkill === input.targetSkill
+  ) {
+    errors.push("sourceSkill and targetSkill must be different skills");
+  }
+
+  if (
+    !RELATIONSHIP_TYPES.includes(
+      input.relationshipType as SkillRelationship["relationshipType"]
+    )
+  ) {
+    errors.push(
+      `relationshipType must be one of ${RELATIONSHIP_TYPES.join(", ")}`
+    );
+  }
+
+  if (
+    typeof input.strength !== "number" ||
+    !(input.strength >= 0 && input.strength <= 1)
+  ) {
+    errors.push("strength must be a number from 0 to 1");
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors, unknownSkillIds };
+  }
+
+  return {
+    value: {
+      sourceSkill: input.sourceSkill as string,
+      targetSkill: input.targetSkill as string,
+      relationshipType:
+        input.relationshipType as SkillRelationship["relationshipType"],
+      strength: input.strength as number,
+    },
+    errors,
+    unknownSkillIds,
+  };
+}
+
+/**
+ * Build the API error envelope for a failed validation
+ *
+ * @param result - The failed validation result
+ * @param entity - Entity name used in the error message
+ * @returns Error body in the `{ error, details, code }` format
+ */
+export function getValidationErrorBody<T>(
+  result: ValidationResult<T>,
+  entity: string
+): { error: string; details: string; code: string } {
+  return {
+    error: `Invalid ${entity}`,
+    details: result.errors.join("; "),
+    code:
+      result.unknownSkillIds.length > 0
+        ? "UNKNOWN_SKILL_ID"
+        : "VALIDATION_FAILED",
+  };
+}
@@ -1,18 +1,19 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 
 import JobInput from "./components/JobInput";
 import CandidateInput from "./components/CandidateInput";
 import MatchingResults from "./components/MatchingResults";
 import ScoreBreakdown from "./components/ScoreBreakdown";
 import KnowledgeGraph from "./components/KnowledgeGraph";
+import SkillDiscoveryReview from "./components/SkillDiscoveryReview";
 import LoadingSpinner from "./components/LoadingSpinner";
 import StatusIndicator from "./components/StatusIndicator";
 import MatchingProgress from "./components/MatchingProgress";
 import WelcomeGuide from "./components/WelcomeGuide";
 import Tooltip from "./components/Tooltip";
-import { MatchingResult } from "./types/matching";
+import { MatchingResult, MatchingProgressEvent } from "./types/matching";
 
 const Page = () => {
   const [selectedJobId, setSelectedJobId] = useState<string>("");
@@ -25,18 +26,18 @@ const Page = () => {
   const [activeTab, setActiveTab] = useState<"matching" | "knowledge">(
     "matching"
   );
-  const [progressStep, setProgressStep] = useState(0);
+  const [progressEvents, setProgressEvents] = useState<MatchingProgressEvent[]>(
+    []
+  );
   const [showWelcome, setShowWelcome] = useState(true);
+  const progressSourceRef = useRef<EventSource | null>(null);
 
-  const progressSteps = [
-    "Analyzing job requirements",
-    "Evaluating candidate skills",
-    "Calculating experience match",
-    "Assessing transferable skills",
-    "Generating final score",
-  ];
+  // Close any open progress stream when the page unmounts
+  useEffect(() => {
+    return () => progressSourceRef.current?.close();
+  }, []);
 
-  const handleMatch = async () => {
+  const handleMatch = () => {
     // Enhanced validation
     if (!selectedJobId && !selectedCandidateId) {
       setError("Please select both a job and a candidate to perform matching");
@@ -55,73 +56,64 @@ const Page = () => {
 
     setLoading(true);
     setError(null);
-    setProgressStep(0);
-
-    // Simulate progress steps
-    const progressInterval = setInterval(() => {
-      setProgressStep((prev) => {
-        if (prev < progressSteps.length - 1) {
-          return prev + 1;
-        } else {
-          clearInterval(progressInterval);
-          return prev;
-        }
-      });
-    }, 800);
-
-    try {
-      const response = await fetch("/api/matching", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          jobId: selectedJobId,
-          candidateId: selectedCandidateId,
-        }),
-      });
+    setProgressEvents([]);
 
-      const data = await response.json();
+    // Stream real progress events from the matching pipeline
+    const params = new URLSearchParams({
+      jobId: selectedJobId,
+      candidateId: selectedCandidateId,
+    });
+    progressSourceRef.current?.close();
+    const source = new EventSource(`/api/matching/stream?${params}`);
+    progressSourceRef.current = source;
+    let finished = false;
 
-      if (!response.ok) {
-        // Handle specific API errors
-        if (data.code === "RESOURCE_NOT_FOUND") {
-          throw new Error(
-            `Matching failed: ${data.details || "Job or candidate not found"}`
-          );
-        } else if (data.code === "MISSING_REQUIRED_FIELDS") {
-          throw new Error(
-            "Matching failed: Missing required job or candidate information"
-          );
-        } else if (data.code === "INVALID_REQUEST") {
-          throw new Error(
-            `Matching failed: ${data.details || "Invalid request parameters"}`
-          );
-        } else {
-          throw new Error(
-            `Matching failed: ${data.details || data.error || "Unknown error"}`
-          );
-        }
+    const finish = (errorMessage?: string) => {
+      finished = true;
+      source.close();
+      if (progressSourceRef.current === source) {
+        progressSourceRef.current = null;
       }
+      if (errorMessage) setError(errorMessage);
+      setLoading(false);
+    };
+
+    source.addEventListener("progress", (event) => {
+      const progress: MatchingProgressEvent = JSON.parse(
+        (event as MessageEvent).data
+      );
+      setProgressEvents((prev) => [...prev, progress]);
+    });
 
+    source.addEventListener("result", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
       if (!data.result) {
-        throw new Error("Matching failed: No result returned from server");
+        finish("Matching failed: No result returned from server");
+        return;
       }
-
       setMatchingResult(data.result);
       setActiveTab("matching");
-      clearInterval(progressInterval);
-      setProgressStep(progressSteps.length - 1);
-    } catch (err) {
-      const errorMessage =
-        err instanceof Error
-          ? err.message
-          : "An unexpected error occurred during matching";
-      setError(errorMessage);
-      clearInterval(progressInterval);
-    } finally {
-      setLoading(false);
-    }
+      finish();
+    });
+
+    // Server-sent "error" events carry the API error envelope; a plain
+    // error event without data means the connection itself failed
+    source.addEventListener("error", (event) => {
+      if (finished) return;
+      const data = (event as MessageEvent).data;
+      if (data) {
+        const payload = JSON.parse(data);
+        finish(
+          `Matching failed: ${
+            payload.details || payload.error || "Unknown error"
+          }`
+        );
+      } else {
+        finish(
+          "Matching failed: Lost connection to the server, or the job or candidate was not found"
+        );
+      }
+    });
   };
 
   const resetForm = () => {
@@ -129,7 +121,7 @@ const Page = () => {
     setSelectedCandidateId("");
     setMatchingResult(null);
     setError(null);
-    setProgressStep(0);
+    setProgressEvents([]);
   };
 
   const getStatus = () => {
@@ -272,11 +264,7 @@ const Page = () => {
             {/* Progress Indicator */}
             {loading && (
               <div className="max-w-2xl mx-auto">
-                <MatchingProgress
-                  currentStep={progressStep}
-                  totalSteps={progressSteps.length}
-                  stepLabels={progressSteps}
-                />
+                <MatchingProgress events={progressEvents} />
               </div>
             )}
 
@@ -380,6 +368,8 @@ const Page = () => {
                 matchingResult?.score?.breakdown?.matchedSkills || []
               }
             />
+
+            <SkillDiscoveryReview />
           </div>
         )}
       </main>
@@ -6,6 +6,21 @@ export interface Skill {
   relatedSkills: string[];
   difficultyLevel: number; // 1-5 scale
   timeToProficiency: number; // months
+  parentSkill?: string; // family root, e.g. "python" for Python 2
+  familyStrength?: number; // 0-1 credit shared with the parent and siblings
+  versions?: SkillVersionRange; // major versions this skill covers
+}
+
+export interface SkillVersionRange {
+  min?: number; // lowest major version, inclusive
+  max?: number; // highest major version, inclusive; open-ended if omitted
+}
+
+// A change to the bundled taxonomy that existing skill stores pick up once
+export interface SkillMigration {
+  id: string;
+  description: string;
+  apply: (skills: Skill[]) => Skill[]; // returns the added or changed skills
 }
 
 export interface SkillRelationship {
@@ -15,6 +30,99 @@ export interface SkillRelationship {
   strength: number; // 0-1 relationship strength
 }
 
+export interface SkillPathStep {
+  from: string; // skill ID
+  to: string; // skill ID
+  relationshipType: SkillRelationship["relationshipType"] | "family";
+  strength: number; // 0-1, effective strength of this hop
+}
+
+export interface SkillDistance {
+  from: string;
+  to: string;
+  hops: number;
+  strength: number; // 0-1, strength of the whole path after per-hop decay
+  path: SkillPathStep[];
+}
+
+export interface LearningPathStep {
+  skillId: string;
+  skillName: string;
+  prerequisites: string[]; // skill IDs this step builds on
+  estimatedMonths: number;
+  headStartSkillId?: string; // known skill that shortens this step, if any
+}
+
+export interface LearningPath {
+  targetSkillId: string;
+  steps: LearningPathStep[]; // in study order; the target skill comes last
+  totalMonths: number;
+}
+
+export type TaxonomyIssueCode =
+  | "DUPLICATE_SKILL_ID"
+  | "DANGLING_RELATED_SKILL"
+  | "DANGLING_RELATIONSHIP"
+  | "DUPLICATE_ALIAS"
+  | "ALIAS_COLLISION"
+  | "ASYMMETRIC_RELATION"
+  | "SELF_LOOP"
+  | "PREREQUISITE_CYCLE"
+  | "DIFFICULTY_OUT_OF_RANGE"
+  | "STRENGTH_OUT_OF_RANGE"
+  | "DANGLING_PARENT_SKILL"
+  | "NESTED_FAMILY"
+  | "INVALID_VERSION_RANGE"
+  | "OVERLAPPING_VERSIONS";
+
+export interface TaxonomyIssue {
+  code: TaxonomyIssueCode;
+  severity: "error" | "warning";
+  skillIds: string[]; // skills involved; a cycle lists them in order
+  message: string;
+}
+
+export interface SkillMention {
+  skillId: string;
+  skillName: string; // canonical name
+  text: string; // as written in the source text
+  start: number; // offset of the first character
+  end: number; // offset just past the last character
+  negated: boolean; // e.g. "no experience with Kubernetes"
+}
+
+export type SkillDiscoverySource = "resume" | "job";
+
+export type SkillDiscoveryStatus =
+  | "pending"
+  | "promoted"
+  | "aliased"
+  | "ignored";
+
+export interface SkillDiscoveryExample {
+  source: SkillDiscoverySource;
+  context: string; // text around the term
+}
+
+export interface SkillDiscovery {
+  id: string; // lowercased term
+  term: string; // as first seen
+  count: number; // occurrences across all parsed documents
+  sources: Record<SkillDiscoverySource, number>;
+  examples: SkillDiscoveryExample[];
+  status: SkillDiscoveryStatus;
+  resolvedSkillId?: string; // skill created from, or aliased to, the term
+  firstSeen: string; // ISO timestamp
+  lastSeen: string; // ISO timestamp
+}
+
+export interface TaxonomyValidationResult {
+  valid: boolean; // true when there are no errors; warnings are allowed
+  issues: TaxonomyIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
 export interface Experience {
   id: string;
   skillId: string;
@@ -23,6 +131,8 @@ export interface Experience {
   hasLeadershipRole: boolean;
   projectDescription?: string;
   technologies: string[];
+  startDate?: string; // ISO date (YYYY-MM or YYYY-MM-DD)
+  endDate?: string; // ISO date; omitted while the experience is ongoing
 }
 
 export interface Candidate {
@@ -31,8 +141,33 @@ export interface Candidate {
   email: string;
   experience: Experience[];
   skills: string[]; // skill IDs
+  proficiencies?: SkillProficiency[]; // per-skill depth for entries in skills
   education: Education[];
   summary: string;
+  location?: string; // e.g. "Berlin, Germany"
+  workAuthorization?: string[]; // countries or regions the candidate may work in
+  preferences?: CandidatePreferences; // what the candidate wants from a job
+}
+
+export type WorkArrangement = "onsite" | "hybrid" | "remote";
+
+export type SeniorityLevel = "junior" | "mid" | "senior" | "lead";
+
+export interface CandidatePreferences {
+  salaryMin?: number; // expected annual salary range, in currency
+  salaryMax?: number;
+  currency?: string; // ISO 4217 code, defaults to "USD"
+  locations?: string[]; // places the candidate is willing to work in
+  workArrangements?: WorkArrangement[];
+  seniority?: SeniorityLevel[];
+  willingToRelocate?: boolean;
+}
+
+export interface SkillProficiency {
+  skillId: string;
+  selfReportedLevel?: number; // 1-5 scale, as stated by the candidate
+  evidenceLevel?: number; // 1-5 scale, backed by work history or assessment
+  lastUsed?: string; // ISO date (YYYY-MM or YYYY-MM-DD)
 }
 
 export interface Education {
@@ -59,6 +194,101 @@ export interface Job {
   responsibilities: string[];
   location: string;
   salary?: string;
+  weightProfile?: string; // named scoring weight profile, defaults to "default"
+  archived?: boolean; // archived jobs are excluded from job suggestions
+  knockouts?: KnockoutCriteria; // hard filters a candidate must pass
+}
+
+export type SalaryPeriod = "hour" | "day" | "week" | "month" | "year";
+
+export interface SalaryRange {
+  min: number;
+  max: number;
+  currency: string; // ISO 4217 code
+  period: SalaryPeriod;
+}
+
+export type CompensationStatus = "meets" | "partial" | "below";
+
+export interface CompensationFit {
+  score: number; // 0-1
+  status: CompensationStatus;
+  offeredMin: number; // job range, annualized in the candidate's currency
+  offeredMax: number;
+  expectedMin: number;
+  expectedMax?: number;
+  currency: string; // currency of the compared amounts
+}
+
+export interface GazetteerCountry {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  aliases: string[];
+  utcOffset: number; // hours, standard time of the main business hub
+}
+
+export interface GazetteerCity {
+  id: string;
+  name: string;
+  aliases: string[];
+  countryCode: string;
+  metro?: string; // shared by cities in the same metro area
+  utcOffset: number; // hours, standard time
+}
+
+export interface ResolvedPlace {
+  city?: string; // gazetteer city ID, absent for country-level places
+  metro?: string;
+  countryCode: string;
+  utcOffset: number;
+}
+
+export interface ParsedLocation {
+  workArrangement: WorkArrangement;
+  locations: string[]; // place names as written
+  places: ResolvedPlace[]; // places found in the gazetteer
+  remoteRegions: string[]; // country codes a remote role is limited to
+}
+
+export type LocationMatch =
+  | "sameMetro"
+  | "preferredLocation"
+  | "relocation"
+  | "remote"
+  | "outsideRegion"
+  | "none";
+
+export interface LocationFit {
+  score: number; // 0-1
+  match: LocationMatch;
+  timezoneOffsetHours: number | null; // between candidate and job
+  overlapHours: number | null; // shared working hours per day
+}
+
+export interface JobAttributes extends ParsedLocation {
+  salary: SalaryRange | null; // parsed from Job.salary
+  seniority: SeniorityLevel; // inferred from the title and weight profile
+}
+
+export interface KnockoutCriteria {
+  requiredSkills?: string[]; // skill IDs the candidate must list
+  minTotalYears?: number;
+  minDegree?: string; // degree key such as "bachelor" or "master"
+  locations?: string[]; // candidate.location must match one of these
+  remote?: boolean; // when true, location is not a knockout
+  workAuthorization?: string[]; // candidate must be authorized in one of these
+}
+
+export type KnockoutRule =
+  | "requiredSkill"
+  | "minTotalYears"
+  | "minDegree"
+  | "location"
+  | "workAuthorization";
+
+export interface KnockoutFailure {
+  rule: KnockoutRule;
+  reason: string;
 }
 
 export interface MatchingScore {
@@ -67,9 +297,34 @@ export interface MatchingScore {
   experienceScore: number; // 0-100
   transferableSkillsScore: number; // 0-100
   potentialScore: number; // 0-100
+  weightProfile: string;
+  weights: ScoringWeights;
+  asOf: string; // ISO timestamp the date-sensitive factors were evaluated at
+  passesKnockouts: boolean; // false when any of the job's knockouts failed
+  mutualFit: MutualFit; // how well the job fits the candidate's preferences
+  combinedScore: number; // 0-1, overallScore blended with mutualFit.score
   breakdown: ScoreBreakdown;
 }
 
+export interface MutualFit {
+  score: number; // 0-1, 1 when no preference conflicts are known
+  salary: number | null; // per-factor fit, null when it could not be compared
+  location: number | null;
+  workArrangement: number | null;
+  seniority: number | null;
+  compensation: CompensationFit | null; // details behind the salary factor
+  locationFit: LocationFit | null; // details behind the location factor
+  mismatches: string[];
+  jobAttributes: JobAttributes;
+}
+
+export interface ScoringWeights {
+  skillMatch: number;
+  experience: number;
+  transferableSkills: number;
+  potential: number;
+}
+
 export interface ScoreBreakdown {
   matchedSkills: string[];
   missingSkills: string[];
@@ -77,12 +332,23 @@ export interface ScoreBreakdown {
   experienceGaps: ExperienceGap[];
   potentialIndicators: string[];
   riskFactors: string[];
+  levelDeltas: LevelDelta[];
+  knockoutFailures: KnockoutFailure[];
+}
+
+export interface LevelDelta {
+  skillId: string;
+  requiredLevel: number; // 1-5 scale
+  candidateLevel: number; // effective proficiency, 1-5 scale
+  delta: number; // candidateLevel - requiredLevel
 }
 
 export interface ExperienceGap {
   skillId: string;
   requiredDuration: number;
-  candidateDuration: number;
+  candidateDuration: number; // months before recency decay
+  discountedMonths: number; // months removed because the skill was not used recently
+  monthsSinceUsed?: number; // set when the experience has dates
   gap: number;
   learnability: number; // 0-1 scale
 }
@@ -110,6 +376,7 @@ export interface AIContext {
 export interface MatchingRequest {
   jobId: string;
   candidateId: string;
+  asOf?: string; // ISO date to score as of, for reproducing historical results
 }
 
 export interface MatchingResponse {
@@ -117,3 +384,51 @@ export interface MatchingResponse {
   processingTime: number;
   confidence: number;
 }
+
+export type MatchingStage =
+  | "scoring"
+  | "skillTransferability"
+  | "culturalFit"
+  | "learningPotential"
+  | "experienceValidation"
+  | "explanation";
+
+export interface MatchingProgressEvent {
+  stage: MatchingStage;
+  status: "started" | "completed" | "failed";
+  detail?: string; // short human-readable summary of the stage outcome
+  partial?: unknown; // stage result available so far
+  timestamp: string;
+}
+
+export interface BatchMatchingRequest {
+  jobIds: string[];
+  candidateIds: string[];
+  topK?: number; // keep only the k best candidates per job
+  includeAI?: boolean; // run AI analysis for the cells on the returned page
+  offset?: number;
+  limit?: number;
+  asOf?: string; // ISO date to score as of
+}
+
+export interface BatchMatchingCell {
+  jobId: string;
+  candidateId: string;
+  rank: number; // 1-based rank of the candidate within the job
+  score: MatchingScore;
+  confidence: number;
+  explanation: string;
+  recommendations: string[];
+  aiEnhanced: boolean;
+}
+
+export interface BatchMatchingResponse {
+  cells: BatchMatchingCell[];
+  jobIds: string[];
+  candidateIds: string[];
+  total: number; // cells in the whole (top-k filtered) matrix
+  offset: number;
+  limit: number;
+  nextOffset: number | null;
+  processingTime: number;
+}
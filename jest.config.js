@@ -1,3 +1,7 @@
+// Run tests west of UTC so code that reads dates in local time instead of
+// UTC shows up as failures rather than passing on UTC machines
+process.env.TZ = "America/New_York";
+
 module.exports = {
   preset: "ts-jest",
   testEnvironment: "node",